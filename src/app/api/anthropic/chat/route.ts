@@ -1,5 +1,6 @@
 import { anthropic } from "@ai-sdk/anthropic";
 import { convertToCoreMessages, streamText } from "ai";
+import { withAuth } from "@/lib/auth/guard";
 
 if (!process.env.ANTHROPIC_API_KEY) {
   throw new Error("Missing ANTHROPIC_API_KEY environment variable");
@@ -7,7 +8,7 @@ if (!process.env.ANTHROPIC_API_KEY) {
 
 export const runtime = "edge";
 
-export async function POST(req: Request) {
+export const POST = withAuth(async (req) => {
   const { messages } = await req.json();
   const result = await streamText({
     model: anthropic("claude-3-5-sonnet-20240620"),
@@ -16,4 +17,4 @@ export async function POST(req: Request) {
   });
 
   return result.toDataStreamResponse();
-}
+});
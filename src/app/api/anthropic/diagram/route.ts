@@ -0,0 +1,49 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { generateObject } from "ai";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { DIAGRAM_TYPES } from "@/lib/types";
+import { buildDiagramPrompt, DIAGRAM_SYSTEM_PROMPT } from "@/lib/diagrams/prompt";
+import { withAuth } from "@/lib/auth/guard";
+
+export const runtime = "edge";
+
+const diagramSchema = z.object({
+  diagramType: z.enum(DIAGRAM_TYPES),
+  rationale: z.string(),
+  mermaid: z.string(),
+});
+
+export const POST = withAuth(async (req) => {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    return new NextResponse("Anthropic API key not configured", { status: 400 });
+  }
+
+  const { heading, content } = await req.json();
+  if (typeof heading !== "string" || typeof content !== "string" || !content.trim()) {
+    return NextResponse.json({ error: "heading and content are required" }, { status: 400 });
+  }
+
+  try {
+    const { object } = await generateObject({
+      model: anthropic("claude-3-5-sonnet-20240620"),
+      schema: diagramSchema,
+      schemaName: "diagram",
+      system: DIAGRAM_SYSTEM_PROMPT,
+      prompt: buildDiagramPrompt(heading, content),
+      temperature: 0,
+    });
+
+    return NextResponse.json(
+      {
+        type: object.diagramType,
+        code: object.mermaid.replace(/^```(?:mermaid)?\s*|```\s*$/g, "").trim(),
+        rationale: object.rationale,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error generating diagram:", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+});
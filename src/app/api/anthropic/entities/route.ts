@@ -0,0 +1,53 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { generateObject } from "ai";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ENTITY_TYPES } from "@/lib/types";
+import { buildEntityPrompt, ENTITY_SYSTEM_PROMPT } from "@/lib/graph/prompt";
+import { withAuth } from "@/lib/auth/guard";
+
+export const runtime = "edge";
+
+const graphSchema = z.object({
+  entities: z.array(
+    z.object({
+      name: z.string(),
+      type: z.enum(ENTITY_TYPES),
+      aliases: z.array(z.string()),
+    })
+  ),
+  relationships: z.array(
+    z.object({
+      source: z.string(),
+      target: z.string(),
+      label: z.string(),
+    })
+  ),
+});
+
+export const POST = withAuth(async (req) => {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    return new NextResponse("Anthropic API key not configured", { status: 400 });
+  }
+
+  const { markdown } = await req.json();
+  if (typeof markdown !== "string" || !markdown.trim()) {
+    return NextResponse.json({ error: "markdown is required" }, { status: 400 });
+  }
+
+  try {
+    const { object } = await generateObject({
+      model: anthropic("claude-3-5-sonnet-20240620"),
+      schema: graphSchema,
+      schemaName: "knowledgeGraph",
+      system: ENTITY_SYSTEM_PROMPT,
+      prompt: buildEntityPrompt(markdown),
+      temperature: 0,
+    });
+
+    return NextResponse.json(object, { status: 200 });
+  } catch (error) {
+    console.error("Error extracting entities:", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+});
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createSessionCookie,
+  isServiceAccountConfigured,
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE_SECONDS,
+  verifyIdToken,
+  verifySessionCookie,
+} from "@/lib/auth/tokens";
+
+export const runtime = "edge";
+
+// Exchanges the client's Firebase ID token for an httpOnly session cookie that middleware can verify
+export async function POST(req: NextRequest) {
+  if (!isServiceAccountConfigured()) {
+    return new NextResponse("Firebase service account not configured", { status: 400 });
+  }
+
+  const idToken = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!idToken) {
+    return NextResponse.json({ error: "ID token is required" }, { status: 400 });
+  }
+
+  let uid: string;
+  try {
+    ({ uid } = await verifyIdToken(idToken));
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 401 });
+  }
+
+  // Called on every page load, so keep a session that already belongs to this user
+  const existing = req.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (existing) {
+    try {
+      if ((await verifySessionCookie(existing)).uid === uid) {
+        return NextResponse.json({ uid }, { status: 200 });
+      }
+    } catch {
+      // Expired or invalid; replace it below
+    }
+  }
+
+  try {
+    const sessionCookie = await createSessionCookie(idToken);
+    const response = NextResponse.json({ uid }, { status: 200 });
+    response.cookies.set(SESSION_COOKIE_NAME, sessionCookie, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    console.error("Error creating session cookie:", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true }, { status: 200 });
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
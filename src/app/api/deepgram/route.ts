@@ -1,9 +1,46 @@
 import { NextResponse } from "next/server";
+import { createClient } from "@deepgram/sdk";
+import { withAuth } from "@/lib/auth/guard";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
-    return NextResponse.json({
-      key: process.env.DEEPGRAM_API_KEY ?? "",
+// A temporary key only has to outlive the WebSocket handshake; the client asks for a new one to reconnect
+const KEY_TTL_SECONDS = 60;
+
+let projectId = process.env.DEEPGRAM_PROJECT_ID;
+
+// Mints a short-lived key that can only stream audio for transcription; the master key never leaves the server
+export const GET = withAuth(async (_req, user) => {
+  if (!process.env.DEEPGRAM_API_KEY) {
+    return new NextResponse("Deepgram API key not configured", { status: 400 });
+  }
+
+  const deepgram = createClient(process.env.DEEPGRAM_API_KEY);
+
+  try {
+    if (!projectId) {
+      const { result, error } = await deepgram.manage.getProjects();
+      if (error) throw error;
+      projectId = result.projects[0]?.project_id;
+      if (!projectId) throw new Error("No Deepgram project found for this API key");
+    }
+
+    const { result, error } = await deepgram.manage.createProjectKey(projectId, {
+      comment: `Temporary transcription key for ${user.uid}`,
+      scopes: ["usage:write"],
+      time_to_live_in_seconds: KEY_TTL_SECONDS,
     });
-}
+    if (error) throw error;
+
+    return NextResponse.json(
+      {
+        key: result.key,
+        expiresAt: result.expiration_date ?? new Date(Date.now() + KEY_TTL_SECONDS * 1000).toISOString(),
+      },
+      { status: 200, headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error creating Deepgram key:", error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+});
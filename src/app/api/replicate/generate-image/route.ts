@@ -1,9 +1,10 @@
 import { NextResponse } from "next/server";
 import Replicate from "replicate";
+import { withAuth } from "@/lib/auth/guard";
 
 export const runtime = "edge";
 
-export async function POST(request: Request) {
+export const POST = withAuth(async (request) => {
   if (!process.env.REPLICATE_API_TOKEN) {
     return new NextResponse("Replicate API token not configured", { status: 400 });
   }
@@ -34,4 +35,4 @@ export async function POST(request: Request) {
     console.error("Error from Replicate API:", error);
     return NextResponse.json({ error: (error as Error).message }, { status: 500 });
   }
-}
+});
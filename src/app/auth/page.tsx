@@ -5,7 +5,7 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/hooks/useAuth';
 
 export default function AuthPage() {
-  const { user, signInWithGoogle, loading } = useAuth();
+  const { user, signInWithGoogle, loading, sessionError } = useAuth();
   const router = useRouter();
   const [isSigningIn, setIsSigningIn] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -16,8 +16,10 @@ export default function AuthPage() {
       
       if (!loading && user) {
         console.log('User is authenticated, redirecting to home...');
+        // Middleware sends signed-out visitors here with the page they asked for
+        const next = new URLSearchParams(window.location.search).get('next');
         try {
-          await router.push('/');
+          await router.push(next?.startsWith('/') && !next.startsWith('//') ? next : '/');
         } catch (error) {
           console.error('Failed to redirect:', error);
         }
@@ -36,9 +38,7 @@ export default function AuthPage() {
       console.log('Starting sign in...');
       await signInWithGoogle();
       console.log('Sign in completed');
-      
-      // Force a redirect after successful sign-in
-      router.push('/');
+      // The redirect happens once AuthContext has started the server session
     } catch (error: any) {
       console.error('Sign in error:', error);
       // Provide more specific error messages
@@ -82,12 +82,12 @@ export default function AuthPage() {
           <p className="mt-2 text-center text-sm text-gray-600">
             Please sign in to continue
           </p>
-          {error && (
+          {(error || sessionError) && (
             <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md">
               <p className="text-center text-sm text-red-600">
-                {error}
+                {error || sessionError}
               </p>
-              {error.includes('popup') && (
+              {error?.includes('popup') && (
                 <p className="mt-2 text-center text-xs text-red-500">
                   Make sure your browser allows popups for this site
                 </p>
@@ -1,243 +1,63 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/hooks/useAuth';
-import mermaid from 'mermaid';
-import { getReports, saveReport, deleteReport } from '@/lib/firebase/firebaseUtils';
-import html2canvas from 'html2canvas';
-import jsPDF from 'jspdf';
-
-interface AnimationSection {
-  heading: string;
-  lineIndex: number;
-  content: string;
-}
-
-interface Report {
-  id?: string;
-  userId: string;
-  title: string;
-  content: string;
-  animations: AnimationSection[];
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-// Initialize Mermaid
-mermaid.initialize({
-  startOnLoad: false,
-  theme: 'default',
-  securityLevel: 'loose',
-  flowchart: {
-    useMaxWidth: true,
-    htmlLabels: true,
-    curve: 'basis'
-  },
-  sequence: {
-    useMaxWidth: true,
-    showSequenceNumbers: true,
-    actorMargin: 50,
-    boxMargin: 10,
-    boxTextMargin: 5,
-    noteMargin: 10,
-    messageMargin: 35,
-    mirrorActors: false
-  },
-  mindmap: {
-    useMaxWidth: true,
-    padding: 16
-  },
-  gantt: {
-    titleTopMargin: 25,
-    barHeight: 20,
-    barGap: 4,
-    topPadding: 50
-  }
-});
+import { getReportRepository, isReportConflict, restoreReportVersion } from '@/lib/storage/reportRepository';
+import { COLLABORATION_AVAILABLE, SHARING_AVAILABLE, isLocalStorage } from '@/lib/storage/config';
+import { useDraftAutosave } from '@/lib/hooks/useDraftAutosave';
+import { useLiveReport } from '@/lib/hooks/useLiveReport';
+import { useSettledValue } from '@/lib/hooks/useSettledValue';
+import { useReportPresence } from '@/lib/hooks/useReportPresence';
+import { useVisibleSection } from '@/lib/hooks/useVisibleSection';
+import { useReportThreads } from '@/lib/hooks/useReportThreads';
+import ReportDocument from '@/components/ReportDocument';
+import ReportTimeline from '@/components/ReportTimeline';
+import KnowledgeGraphView from '@/components/KnowledgeGraphView';
+import SourcesPanel from '@/components/SourcesPanel';
+import VersionHistory from '@/components/VersionHistory';
+import ReportLibrary from '@/components/ReportLibrary';
+import SharePanel from '@/components/SharePanel';
+import CollaboratorsPanel from '@/components/CollaboratorsPanel';
+import SharedReports from '@/components/SharedReports';
+import ReviewSidebar from '@/components/ReviewSidebar';
+import ExportMenu, { EXPORT_FORMAT_LABELS } from '@/components/ExportMenu';
+import PresentationMode from '@/components/PresentationMode';
+import FileImport from '@/components/FileImport';
+import { AnimationSection, ChartMapping, CollaboratorRole, CommentAnchor, CommentThread, CustomDiagram, Draft, ExportFormat, LiveReportState, PendingSave, Report, ReportContent, ReportExport, ReportVersion, ReviewComment, Slide, Source } from '@/lib/types';
+import { findDocumentTitle, findSections, restoreSections } from '@/lib/markdown/sections';
+import { extractSources } from '@/lib/markdown/citations';
+import { collectDiagramCodes, diagramCodesForSections } from '@/lib/export/diagrams';
+import { exportReportMarkdown } from '@/lib/export/markdown';
+import { downloadFile } from '@/lib/export/download';
+import { buildSlides } from '@/lib/presentation/slides';
+import { htmlToMarkdown, shouldConvertPastedHtml } from '@/lib/import/html';
+import { GENERIC_FORMAT, normalizeResearchReport, researchFormatLabel } from '@/lib/import/researchFormats';
+import { deleteDraft, getDraft, putPendingSave } from '@/lib/drafts/draftStore';
+import { SyncedSave, discardFailedSave, isOffline, isOfflineError, resolveConflict, syncPendingSaves } from '@/lib/drafts/syncQueue';
+import { isSharedReport, normalizeEmail, reportRole } from '@/lib/collaboration/collaborators';
+import { MergeConflict, moveCaret } from '@/lib/collaboration/merge';
+import { DiagramNode, anchorFor, findAnchoredSection, reanchorThreads } from '@/lib/comments/anchors';
+import { extractMentions } from '@/lib/comments/mentions';
 
-const MermaidDiagram = ({ content, heading }: { content: string; heading: string }) => {
-  const elementRef = useRef<HTMLDivElement>(null);
-  const [diagramCode, setDiagramCode] = useState<string>('');
-  const [diagramId] = useState(`mermaid-${Math.random().toString(36).substring(2, 9)}`);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// Loaded on first use, so the local storage provider never initializes Firebase
+const loadComments = () => import('@/lib/firebase/comments');
 
-  useEffect(() => {
-    if (!content) return;
-    
-    setIsLoading(true);
-    setError(null);
-    
-    const renderDiagram = async () => {
-      try {
-        // Generate appropriate diagram based on content
-        const code = generateMermaidCode(content, heading);
-        setDiagramCode(code);
-        
-        // First check if the diagram is valid
-        const { svg } = await mermaid.render(diagramId, code);
-        
-        if (elementRef.current) {
-          elementRef.current.innerHTML = svg;
-          setIsLoading(false);
-        }
-      } catch (err) {
-        console.error('Error rendering diagram:', err);
-        setError('Failed to render diagram');
-        setIsLoading(false);
-      }
-    };
-    
-    renderDiagram();
-  }, [content, heading, diagramId]);
-  
-  return (
-    <div className="mermaid-diagram p-4 bg-white rounded-lg shadow">
-      {isLoading && (
-        <div className="flex justify-center items-center h-32">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
-        </div>
-      )}
-      {error && (
-        <div className="text-red-500 text-center p-4">
-          {error}
-        </div>
-      )}
-      <div ref={elementRef} className={`mermaid-container flex justify-center ${isLoading ? 'hidden' : ''}`}></div>
-    </div>
-  );
-};
+// What a save would write, for telling whether the editor has unsaved changes
+const snapshotOf = (title: string, content: string, animations: AnimationSection[]) =>
+  JSON.stringify([title, content, animations]);
 
-const generateMermaidCode = (content: string, heading: string): string => {
-  // Sanitize inputs to prevent Mermaid syntax errors
-  const sanitizeText = (text: string) => {
-    return text
-      .replace(/"/g, "'")
-      .replace(/[[\]]/g, '')
-      .replace(/[()]/g, '')
-      .trim();
-  };
-
-  // Helper to check if content contains certain keywords
-  const containsKeywords = (text: string, keywords: string[]): boolean => {
-    return keywords.some(keyword => text.toLowerCase().includes(keyword.toLowerCase()));
-  };
-
-  // Check for trade agreements or partnerships
-  if (containsKeywords(content, ['agreement', 'partnership', 'trade', 'collaboration'])) {
-    let flowchartCode = 'graph LR\n';
-    flowchartCode += `    A(("${sanitizeText(heading)}"))\n`;
-    
-    // Extract key entities
-    const entities = content
-      .split(/[,.;]/)
-      .filter(s => s.trim().length > 0)
-      .slice(0, 4)
-      .map(s => sanitizeText(s.trim()));
-
-    entities.forEach((entity, index) => {
-      flowchartCode += `    A --> B${index}["${entity}"]\n`;
-      flowchartCode += `    style B${index} fill:#e1f5fe,stroke:#01579b\n`;
-    });
-    
-    flowchartCode += `    style A fill:#0277bd,stroke:#01579b,color:#fff\n`;
-    return flowchartCode;
-  }
-
-  // Check for market analysis or opportunities
-  if (containsKeywords(content, ['market', 'growth', 'opportunity', 'expansion'])) {
-    let flowchartCode = 'graph TD\n';
-    flowchartCode += `    M(("${sanitizeText(heading)}"))\n`;
-    
-    const opportunities = content
-      .split(/[.!?]/)
-      .filter(s => s.trim().length > 0 && containsKeywords(s, ['growth', 'opportunity', 'potential', 'market']))
-      .slice(0, 4)
-      .map(s => sanitizeText(s.trim()));
-
-    opportunities.forEach((opp, index) => {
-      flowchartCode += `    M --> O${index}["${opp}"]\n`;
-      flowchartCode += `    style O${index} fill:#f3e5f5,stroke:#4a148c\n`;
-    });
-    
-    flowchartCode += `    style M fill:#7b1fa2,stroke:#4a148c,color:#fff\n`;
-    return flowchartCode;
-  }
-
-  // Check for competitive analysis or comparison
-  if (containsKeywords(content, ['competitive', 'versus', 'vs', 'compared', 'competition'])) {
-    let comparisonCode = 'graph TB\n';
-    comparisonCode += `    subgraph Comparison\n`;
-    
-    const aspects = content
-      .split(/[.!?]/)
-      .filter(s => s.trim().length > 0)
-      .slice(0, 3)
-      .map(s => sanitizeText(s.trim()));
-
-    aspects.forEach((aspect, index) => {
-      comparisonCode += `    A${index}["${aspect}"]\n`;
-    });
-    
-    for (let i = 0; i < aspects.length - 1; i++) {
-      comparisonCode += `    A${i} --> A${i + 1}\n`;
-    }
-    
-    comparisonCode += `    end\n`;
-    comparisonCode += `    style Comparison fill:#f5f5f5,stroke:#333,stroke-width:2px\n`;
-    aspects.forEach((_, index) => {
-      comparisonCode += `    style A${index} fill:#e8eaf6,stroke:#1a237e\n`;
-    });
-    
-    return comparisonCode;
-  }
+const EMPTY_SNAPSHOT = snapshotOf('', '', []);
 
-  // Check for sequential processes or steps
-  if (containsKeywords(content, ['step', 'process', 'timeline', 'sequence', 'first', 'then', 'finally'])) {
-    let sequenceCode = 'graph TD\n';
-    
-    const steps = content
-      .split(/[.!?]/)
-      .filter(s => s.trim().length > 0)
-      .slice(0, 5)
-      .map(s => sanitizeText(s.trim()));
-
-    steps.forEach((step, index) => {
-      sequenceCode += `    S${index}["${step}"]\n`;
-      if (index > 0) {
-        sequenceCode += `    S${index-1} --> S${index}\n`;
-      }
-    });
-    
-    steps.forEach((_, index) => {
-      sequenceCode += `    style S${index} fill:#fff3e0,stroke:#e65100\n`;
-    });
-    
-    return sequenceCode;
-  }
+// What the editor holds of a report besides its sources, which are extracted again
+type EditorContent = Omit<ReportContent, 'sources'>;
 
-  // Default to a mind map for strategic overviews and general content
-  const keyPoints = content
-    .split(/[.!?]/)
-    .filter(s => s.trim().length > 0)
-    .slice(0, 5);
+const EMPTY_CONTENT: EditorContent = { title: '', content: '', animations: [] };
 
-  if (keyPoints.length > 0) {
-    let mindmapCode = 'mindmap\n';
-    mindmapCode += `  root((${sanitizeText(heading)}))\n`;
-    
-    keyPoints.forEach((point, index) => {
-      const nodeText = sanitizeText(point.substring(0, 50) + (point.length > 50 ? '...' : ''));
-      mindmapCode += `    ${nodeText}\n`;
-    });
-    
-    return mindmapCode;
-  }
+const newLocalId = () => crypto.randomUUID();
 
-  // Fallback to a simple node if no content can be processed
-  return 'graph TD\n    A["No content to visualize"]';
-};
+// How long the text of a report edited live has to rest before its diagrams and graph follow it
+const VISUALIZATION_IDLE_DELAY = 1500;
 
 export default function Home() {
   const { user, signOut, loading } = useAuth();
@@ -245,66 +65,226 @@ export default function Home() {
   const [markdownContent, setMarkdownContent] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [isLoadingReports, setIsLoadingReports] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
   const [animations, setAnimations] = useState<AnimationSection[]>([]);
+  const [sources, setSources] = useState<Source[]>([]);
+  const [researchFormat, setResearchFormat] = useState<string | undefined>();
+  const [reasoning, setReasoning] = useState<string | undefined>();
   const [showVisualization, setShowVisualization] = useState(false);
-  const [reports, setReports] = useState<Report[]>([]);
+  const [libraryKey, setLibraryKey] = useState(0);
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
   const [reportTitle, setReportTitle] = useState('');
   const [showReports, setShowReports] = useState(false);
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   const [toastType, setToastType] = useState<'success' | 'error'>('success');
-  const [isDownloading, setIsDownloading] = useState(false);
+  const [slides, setSlides] = useState<Slide[] | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSharing, setShowSharing] = useState(false);
+  const [showCollaborators, setShowCollaborators] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [newThread, setNewThread] = useState<{ sectionIndex: number; anchor: CommentAnchor } | null>(null);
+  const [focusedCommentSection, setFocusedCommentSection] = useState<number | null>(null);
+  const [savedSnapshot, setSavedSnapshot] = useState(EMPTY_SNAPSHOT);
+  const [localId, setLocalId] = useState(newLocalId);
+  const [recoverableDraft, setRecoverableDraft] = useState<Draft | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const [conflicts, setConflicts] = useState<PendingSave[]>([]);
+  const [failedSaves, setFailedSaves] = useState<PendingSave[]>([]);
+  const [liveConflicts, setLiveConflicts] = useState<MergeConflict[]>([]);
   const documentRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const hasUnsavedChanges = markdownContent.trim() !== '' && snapshotOf(reportTitle, markdownContent, animations) !== savedSnapshot;
+  // Offline saves are queued under the report they update, or the local id of work not yet saved
+  const saveKey = selectedReport?.id ?? localId;
+  const saveKeyRef = useRef(saveKey);
+  saveKeyRef.current = saveKey;
+  // Viewers of someone else's report can read it but not change it
+  const role = user ? reportRole(selectedReport, user) : 'owner';
+  const canEdit = role !== 'viewer';
+  // Reports with collaborators are edited live: changes reach everyone with the report open as they're made
+  const liveReportId = COLLABORATION_AVAILABLE && user && isSharedReport(selectedReport, user) ? selectedReport?.id ?? null : null;
+  const isLive = liveReportId !== null;
+  const isEditorReadOnly = !canEdit || (showVisualization && !isLive);
+  // A report edited live stays visualized, but diagrams and the knowledge graph are generated again
+  // only once everyone's typing pauses, not for each keystroke of each collaborator
+  const visualization = useMemo(() => ({ markdown: markdownContent, sections: animations }), [markdownContent, animations]);
+  const settledVisualization = useSettledValue(visualization, VISUALIZATION_IDLE_DELAY, isLive);
+  // Diagram edits leave the text as it was, so they show straight away
+  const shownVisualization = settledVisualization.markdown === markdownContent ? visualization : settledVisualization;
+  // Saved reports can be reviewed, with comments on their sections and diagram nodes
+  const reviewReportId = COLLABORATION_AVAILABLE ? selectedReport?.id ?? null : null;
+  const isReviewing = showComments && reviewReportId !== null;
 
   useEffect(() => {
     if (!loading && !user) {
       console.log('No user found, redirecting to auth...');
       router.push('/auth');
-    } else if (user) {
-      loadReports();
     }
   }, [user, loading, router]);
 
-  const loadReports = async () => {
+  // The library reads its first page again after anything that changes the user's reports
+  const refreshLibrary = () => setLibraryKey(key => key + 1);
+
+  // A draft left behind by a refresh or crashed tab is offered back before autosave can replace it
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    getDraft(user.uid)
+      .then(draft => {
+        if (!cancelled && draft?.content.trim()) setRecoverableDraft(draft);
+      })
+      .catch(error => console.error('Error reading draft:', error))
+      .finally(() => {
+        if (!cancelled) setDraftChecked(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const draft = useMemo<Omit<Draft, 'savedAt'> | null>(
+    () =>
+      user && canEdit && hasUnsavedChanges
+        ? {
+            userId: user.uid,
+            title: reportTitle,
+            content: markdownContent,
+            animations,
+            visualized: showVisualization,
+            ...(researchFormat && { researchFormat }),
+            ...(reasoning && { reasoning }),
+            ...(selectedReport && { report: selectedReport }),
+            localId,
+          }
+        : null,
+    [user, canEdit, hasUnsavedChanges, reportTitle, markdownContent, animations, showVisualization, researchFormat, reasoning, selectedReport, localId]
+  );
+  useDraftAutosave(user?.uid, draft, draftChecked && !recoverableDraft);
+
+  const liveState = useMemo<LiveReportState>(
+    () => ({ title: reportTitle, content: markdownContent, animations }),
+    [reportTitle, markdownContent, animations]
+  );
+
+  // Someone else's edits merged with the editor's; the caret stays put in the text around it
+  const handleRemoteChange = (state: LiveReportState) => {
+    const textarea = textareaRef.current;
+    if (textarea && document.activeElement === textarea) {
+      const { selectionStart, selectionEnd, value } = textarea;
+      requestAnimationFrame(() =>
+        textarea.setSelectionRange(moveCaret(value, state.content, selectionStart), moveCaret(value, state.content, selectionEnd))
+      );
+    }
+    setReportTitle(state.title);
+    setMarkdownContent(state.content);
+    setAnimations(state.animations);
+    setSources(extractSources(state.content, state.animations));
+  };
+
+  useLiveReport({
+    reportId: liveReportId,
+    savedAt: selectedReport?.updatedAt,
+    state: liveState,
+    canEdit,
+    onRemoteChange: handleRemoteChange,
+    // Edits here win over someone else's change to the same words, so say what was replaced
+    onConflict: replaced => setLiveConflicts(current => [...current, ...replaced])
+  });
+  useEffect(() => setLiveConflicts([]), [liveReportId]);
+  const visibleSection = useVisibleSection(documentRef, isLive && showVisualization);
+  const otherViewers = useReportPresence(liveReportId, user, visibleSection);
+  const threads = useReportThreads(reviewReportId);
+  // Where each thread's section is in the report as it is now, edits included
+  const threadSections = useMemo(() => {
+    const located: Record<string, number | null> = {};
+    threads.forEach(thread => {
+      located[thread.id] = findAnchoredSection(thread.anchor, animations, selectedReport?.animations);
+    });
+    return located;
+  }, [threads, animations, selectedReport?.animations]);
+  const openThreadCounts = useMemo(() => {
+    const counts: Record<number, number> = {};
+    threads.forEach(thread => {
+      const index = threadSections[thread.id];
+      if (!thread.resolved && index !== null) counts[index] = (counts[index] ?? 0) + 1;
+    });
+    return counts;
+  }, [threads, threadSections]);
+  const openThreadTotal = threads.filter(thread => !thread.resolved).length;
+  // Anyone who can open the report, as far as this user can tell: collaborators and past commenters
+  const mentionablePeople = useMemo(() => {
+    const emails = new Set(selectedReport?.collaboratorEmails ?? []);
+    if (selectedReport?.ownerEmail) emails.add(selectedReport.ownerEmail);
+    threads.forEach(thread => thread.comments.forEach(comment => comment.authorEmail && emails.add(comment.authorEmail)));
+    if (user?.email) emails.delete(normalizeEmail(user.email));
+    return Array.from(emails).sort();
+  }, [selectedReport, threads, user]);
+
+  const sectionViewers = useMemo(() => {
+    const viewers: Record<number, string[]> = {};
+    otherViewers.forEach(({ name, sectionIndex }) => {
+      if (sectionIndex !== null) viewers[sectionIndex] = [...(viewers[sectionIndex] ?? []), name];
+    });
+    return viewers;
+  }, [otherViewers]);
+
+  // A replayed save of the work in the editor makes it the saved state, and a new report the selected one
+  const applySyncedSave = ({ save, reportId, version, updatedAt }: SyncedSave) => {
+    if (save.key !== saveKeyRef.current) return;
+    setSelectedReport(previous => ({
+      ...(previous ?? { userId: save.userId, createdAt: updatedAt }),
+      ...save.content,
+      id: reportId,
+      version,
+      updatedAt
+    }));
+    setSavedSnapshot(snapshotOf(save.content.title, save.content.content, save.content.animations));
+  };
+
+  const syncOfflineSaves = useCallback(async () => {
     if (!user) return;
-    
-    setIsLoadingReports(true);
-    setLoadError(null);
-    
     try {
-      console.log('Loading reports for user:', user.uid);
-      const userReports = await getReports(user.uid);
-      console.log('Loaded reports:', userReports);
-      setReports(userReports);
-      
-      if (userReports.length === 0) {
-        setLoadError('No reports found. Create a new report to get started.');
+      const { synced, conflicts, failed } = await syncPendingSaves(user.uid);
+      synced.forEach(applySyncedSave);
+      setConflicts(conflicts);
+      setFailedSaves(failed);
+      if (synced.length > 0) {
+        refreshLibrary();
+        showToastMessage(`Synced ${synced.length} report${synced.length === 1 ? '' : 's'} saved while offline`, 'success');
       }
-    } catch (error: any) {
-      console.error('Error loading reports:', error);
-      const errorMessage = error.message || 'Failed to load reports. Please try again.';
-      setLoadError(errorMessage);
-      showToastMessage(errorMessage, 'error');
-    } finally {
-      setIsLoadingReports(false);
+    } catch (error) {
+      console.error('Error syncing offline saves:', error);
     }
-  };
+    // applySyncedSave and showToastMessage only use setters and refs
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
 
-  // Add this useEffect to load reports when showReports changes to true
+  // Saves queued while offline are replayed on load and whenever the connection comes back
   useEffect(() => {
-    if (showReports && user) {
-      loadReports();
-    }
-  }, [showReports, user]);
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncOfflineSaves();
+    };
+    const handleOffline = () => setIsOnline(false);
+    setIsOnline(navigator.onLine);
+    if (navigator.onLine) syncOfflineSaves();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncOfflineSaves]);
 
   const generateTitleFromContent = (content: string): string => {
-    // Extract the first heading if available
-    const headingMatch = content.match(/^#\s+(.+)$/m);
-    if (headingMatch) {
-      return headingMatch[1].trim();
+    // Use the front matter title or first top-level heading if available
+    const documentTitle = findDocumentTitle(content);
+    if (documentTitle) {
+      return documentTitle;
     }
     
     // If no heading, use the first line of content
@@ -330,24 +310,80 @@ export default function Home() {
     }, 3000);
   };
 
+  // Kept in the browser until the connection is back; the draft stays until then too
+  const queueOfflineSave = async (content: ReportContent) => {
+    if (!user) return;
+    await putPendingSave({
+      key: saveKey,
+      userId: user.uid,
+      ...(selectedReport?.id && { reportId: selectedReport.id, baseUpdatedAt: selectedReport.updatedAt }),
+      content,
+      queuedAt: new Date()
+    });
+    showToastMessage("You're offline. The report will be saved when you reconnect.", 'success');
+  };
+
   const handleSaveReport = async () => {
     if (!user || !reportTitle.trim()) return;
     
+    // The diagrams as rendered, so versions are compared by what people saw
+    const diagramCodes = documentRef.current
+      ? diagramCodesForSections(documentRef.current, shownVisualization.sections, animations)
+      : null;
+    const content: ReportContent = {
+      title: reportTitle,
+      content: markdownContent,
+      animations: animations,
+      sources: sources,
+      ...(diagramCodes && { diagramCodes }),
+      // Firestore rejects undefined fields
+      ...(researchFormat && { researchFormat }),
+      ...(reasoning && { reasoning })
+    };
+
     setIsSaving(true);
     try {
-      const report: Omit<Report, 'id'> = {
-        userId: user.uid,
-        title: reportTitle,
-        content: markdownContent,
-        animations: animations,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      await saveReport(report);
-      await loadReports();
-      showToastMessage('Report saved successfully!', 'success');
+      if (isOffline()) {
+        await queueOfflineSave(content);
+        return;
+      }
+
+      // A loaded report is updated in place; anything else is saved as a new report
+      const repository = await getReportRepository();
+      if (selectedReport?.id) {
+        let saved;
+        try {
+          // Live edits are merged as they're made, so saving a shared report records what everyone has
+          saved = await repository.updateReport(selectedReport.id, content, isLive ? {} : { expectedUpdatedAt: selectedReport.updatedAt });
+        } catch (error) {
+          if (!isReportConflict(error)) throw error;
+          if (!window.confirm('This report was changed somewhere else since you opened it. Replace those changes with yours?')) {
+            showToastMessage('Not saved. Your changes are kept as a draft.', 'error');
+            return;
+          }
+          saved = await repository.updateReport(selectedReport.id, content);
+        }
+        setSelectedReport({ ...selectedReport, ...content, ...saved });
+        reanchorComments(selectedReport.id, content.animations, selectedReport.animations);
+        showToastMessage(`Report saved as version ${saved.version}`, 'success');
+      } else {
+        const report: Omit<Report, 'id'> = {
+          userId: user.uid,
+          ...content,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+        const reportId = await repository.saveReport(report);
+        setSelectedReport({ ...report, id: reportId, version: 1 });
+        showToastMessage('Report saved successfully!', 'success');
+      }
+      setSavedSnapshot(snapshotOf(content.title, content.content, content.animations));
+      refreshLibrary();
     } catch (error) {
+      if (isOfflineError(error)) {
+        await queueOfflineSave(content).catch(queueError => console.error('Error queueing offline save:', queueError));
+        return;
+      }
       console.error('Error saving report:', error);
       showToastMessage('Failed to save report', 'error');
     } finally {
@@ -355,25 +391,220 @@ export default function Home() {
     }
   };
 
-  const handleLoadReport = (report: Report) => {
-    setMarkdownContent(report.content);
-    setAnimations(report.animations);
-    setShowVisualization(true);
+  // Stored anchors follow the saved report, so threads are still found after many edits. Only
+  // confident matches move a thread; one whose section can't be found keeps its old anchor.
+  const reanchorComments = (reportId: string, sections: AnimationSection[], previousSections: AnimationSection[]) => {
+    if (reportId !== reviewReportId) return;
+    loadComments()
+      .then(({ updateThreadAnchors }) => updateThreadAnchors(reportId, reanchorThreads(threads, sections, previousSections)))
+      .catch(error => console.error('Error moving comments:', error));
+  };
+
+  const newComment = (body: string): ReviewComment => ({
+    id: crypto.randomUUID(),
+    authorId: user?.uid ?? '',
+    authorName: user?.displayName || user?.email || 'Someone',
+    ...(user?.email && { authorEmail: normalizeEmail(user.email) }),
+    body,
+    mentions: extractMentions(body, mentionablePeople),
+    createdAt: new Date()
+  });
+
+  const handleComment = (index: number, node: DiagramNode | null) => {
+    const section = animations[index];
+    if (!section) return;
+    setNewThread({ sectionIndex: index, anchor: anchorFor(section, node) });
+    setFocusedCommentSection(null);
+    setShowComments(true);
+  };
+
+  const handleShowComments = (index: number) => {
+    setFocusedCommentSection(index);
+    setShowComments(true);
+  };
+
+  // Errors are shown here and passed on, so the comment box keeps what was typed
+  const handleCreateThread = async (body: string) => {
+    if (!reviewReportId || !newThread) return;
+    try {
+      await (await loadComments()).createThread(reviewReportId, newThread.anchor, newComment(body));
+      setNewThread(null);
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      showToastMessage('Failed to add the comment', 'error');
+      throw error;
+    }
+  };
+
+  const handleReply = async (thread: CommentThread, body: string) => {
+    if (!reviewReportId) return;
+    try {
+      await (await loadComments()).replyToThread(reviewReportId, thread.id, newComment(body));
+    } catch (error) {
+      console.error('Error replying to comment:', error);
+      showToastMessage('Failed to send the reply', 'error');
+      throw error;
+    }
+  };
+
+  const handleResolveThread = async (thread: CommentThread, resolved: boolean) => {
+    if (!reviewReportId || !user) return;
+    try {
+      await (await loadComments()).setThreadResolved(reviewReportId, thread.id, resolved, user.uid);
+    } catch (error) {
+      console.error('Error resolving comment:', error);
+      showToastMessage(resolved ? 'Failed to resolve the comment' : 'Failed to reopen the comment', 'error');
+    }
+  };
+
+  const handleDeleteThread = async (thread: CommentThread) => {
+    if (!reviewReportId || !window.confirm('Delete this comment and its replies?')) return;
+    try {
+      await (await loadComments()).deleteThread(reviewReportId, thread.id);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      showToastMessage('Failed to delete the comment', 'error');
+    }
+  };
+
+  // Changes to a shared report are kept in its live state, so leaving it loses nothing
+  const confirmDiscardChanges = () => !hasUnsavedChanges || isLive || window.confirm('Discard your unsaved changes?');
+
+  // Replaces everything the editor holds, and closes the last report's panels, so nothing of it
+  // carries over. Content without a report is a new report, saved under a new local id.
+  const resetEditor = (content: EditorContent, { report = null, visualize = false }: { report?: Report | null; visualize?: boolean } = {}) => {
+    const sections = visualize ? restoreSections(content.content, content.animations) : [];
+    setMarkdownContent(content.content);
+    setAnimations(sections);
+    // Re-extracted so reports saved before sources existed get them too
+    setSources(visualize ? extractSources(content.content, sections) : []);
+    setReportTitle(content.title);
+    setResearchFormat(content.researchFormat);
+    setReasoning(content.reasoning);
     setSelectedReport(report);
-    setReportTitle(report.title);
+    setShowVisualization(visualize);
+    setShowHistory(false);
+    setShowSharing(false);
+    setShowCollaborators(false);
+    setNewThread(null);
+    setFocusedCommentSection(null);
+    setSavedSnapshot(report ? snapshotOf(content.title, content.content, sections) : EMPTY_SNAPSHOT);
+    if (!report) setLocalId(newLocalId());
   };
 
-  const handleDeleteReport = async (reportId: string) => {
+  const handleLoadReport = (report: Report, confirmDiscard = true) => {
+    if (confirmDiscard && report.id !== selectedReport?.id && !confirmDiscardChanges()) return;
+    resetEditor(report, { report, visualize: true });
+  };
+
+  const handleRecoverDraft = () => {
+    if (!recoverableDraft) return;
+    const { title, content, animations, visualized, report, localId } = recoverableDraft;
+    setMarkdownContent(content);
+    setAnimations(animations);
+    setSources(extractSources(content, animations));
+    setReportTitle(title);
+    setResearchFormat(recoverableDraft.researchFormat);
+    setReasoning(recoverableDraft.reasoning);
+    setSelectedReport(report ?? null);
+    setLocalId(localId);
+    setShowVisualization(visualized);
+    setSavedSnapshot(report ? snapshotOf(report.title, report.content, restoreSections(report.content, report.animations)) : EMPTY_SNAPSHOT);
+    setRecoverableDraft(null);
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!user) return;
+    setRecoverableDraft(null);
+    await deleteDraft(user.uid).catch(error => console.error('Error discarding draft:', error));
+  };
+
+  const handleResolveConflict = async (save: PendingSave, keep: 'mine' | 'theirs') => {
     try {
-      await deleteReport(reportId);
-      await loadReports();
-      if (selectedReport?.id === reportId) {
-        setSelectedReport(null);
-        setMarkdownContent('');
-        setAnimations([]);
-        setShowVisualization(false);
-        setReportTitle('');
+      const synced = await resolveConflict(save, keep);
+      setConflicts(previous => previous.filter(conflict => conflict.key !== save.key));
+      if (synced) {
+        applySyncedSave(synced);
+        refreshLibrary();
+        showToastMessage(`Saved your offline changes to ${save.content.title}`, 'success');
+      } else {
+        // The editor shows the server's version if it was holding the discarded changes
+        if (save.reportId && save.key === saveKey) {
+          handleLoadReport(await (await getReportRepository()).getReport(save.reportId), false);
+        }
+        showToastMessage(`Kept the saved version of ${save.content.title}`, 'success');
       }
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      showToastMessage('Failed to resolve the conflict', 'error');
+    }
+  };
+
+  const removeFailedSave = async (save: PendingSave) => {
+    await discardFailedSave(save);
+    setFailedSaves(previous => previous.filter(failed => failed.key !== save.key));
+  };
+
+  // The changes come back as a new, unsaved report, so they can still be kept
+  const handleOpenFailedSave = async (save: PendingSave) => {
+    if (!confirmDiscardChanges()) return;
+    try {
+      resetEditor(save.content, { visualize: true });
+      await removeFailedSave(save);
+    } catch (error) {
+      console.error('Error opening offline save:', error);
+    }
+  };
+
+  const handleDiscardFailedSave = async (save: PendingSave) => {
+    if (!window.confirm(`Discard your offline changes to ${save.content.title}?`)) return;
+    await removeFailedSave(save).catch(error => console.error('Error discarding offline save:', error));
+  };
+
+  const handleRestoreVersion = async (version: ReportVersion) => {
+    if (!selectedReport?.id) return;
+    try {
+      let restored;
+      try {
+        restored = await restoreReportVersion(selectedReport.id, version, isLive ? undefined : selectedReport.updatedAt);
+      } catch (error) {
+        if (!isReportConflict(error)) throw error;
+        if (!window.confirm('This report was changed somewhere else since you opened it. Restore this version over those changes?')) {
+          showToastMessage('Version not restored', 'error');
+          return;
+        }
+        restored = await restoreReportVersion(selectedReport.id, version);
+      }
+      const { version: newVersion, updatedAt } = restored;
+      const restoredSections = restoreSections(version.content, version.animations);
+      setMarkdownContent(version.content);
+      setAnimations(restoredSections);
+      setSources(extractSources(version.content, restoredSections));
+      setReportTitle(version.title);
+      setSelectedReport({
+        ...selectedReport,
+        title: version.title,
+        content: version.content,
+        animations: version.animations,
+        version: newVersion,
+        updatedAt
+      });
+      setSavedSnapshot(snapshotOf(version.title, version.content, restoredSections));
+      reanchorComments(selectedReport.id, restoredSections, selectedReport.animations);
+      refreshLibrary();
+      showToastMessage(`Version ${version.version} restored as version ${newVersion}`, 'success');
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      showToastMessage('Failed to restore version', 'error');
+    }
+  };
+
+  const handleDeleteReport = async (reportId: string) => {
+    if (!user) return;
+    try {
+      await (await getReportRepository()).deleteReport(reportId, user.uid);
+      refreshLibrary();
+      if (selectedReport?.id === reportId) resetEditor(EMPTY_CONTENT);
     } catch (error) {
       console.error('Error deleting report:', error);
     }
@@ -382,54 +613,58 @@ export default function Home() {
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value;
     setMarkdownContent(value);
+    // A shared report stays visualized while it's edited, so everyone's diagrams follow the text
+    if (isLive && showVisualization) {
+      const sections = restoreSections(value, animations);
+      setAnimations(sections);
+      setSources(extractSources(value, sections));
+      return;
+    }
     setShowVisualization(false);
   };
 
-  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
-    const pastedText = e.clipboardData.getData('text');
-    setMarkdownContent(pastedText);
+  const handleCollaboratorsChange = (collaborators: Record<string, CollaboratorRole>) => {
+    if (!selectedReport) return;
+    setSelectedReport({
+      ...selectedReport,
+      collaborators,
+      collaboratorEmails: Object.keys(collaborators),
+      ...(user?.email && { ownerEmail: normalizeEmail(user.email) })
+    });
+  };
+
+  const insertAtCaret = (text: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    // Goes through the browser's editing so undo still works; falls back where insertText isn't supported
+    if (document.execCommand('insertText', false, text)) return;
+    const { selectionStart, selectionEnd, value } = textarea;
+    setMarkdownContent(value.slice(0, selectionStart) + text + value.slice(selectionEnd));
     setShowVisualization(false);
+    requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + text.length, selectionStart + text.length));
   };
 
-  const findHeadingsAndContent = (markdown: string): AnimationSection[] => {
-    const lines = markdown.split('\n');
-    const sections: AnimationSection[] = [];
-    let currentHeadingIndex = -1;
-    
-    lines.forEach((line, index) => {
-      if (line.startsWith('#')) {
-        if (currentHeadingIndex !== -1) {
-          // Get content between this heading and the previous one
-          const content = lines.slice(currentHeadingIndex + 1, index).join('\n').trim();
-          // Only add content if there is actual text between headings
-          if (content) {
-            sections[sections.length - 1].content = content;
-          } else {
-            // Remove the section if there was no content
-            sections.pop();
-          }
-        }
-        sections.push({
-          heading: line.replace(/^#+\s+/, ''),
-          lineIndex: index,
-          content: '' // Will be filled in next iteration or at the end
-        });
-        currentHeadingIndex = index;
-      }
-    });
+  // Plain text pastes at the caret as usual; rich HTML from web pages and documents is converted to Markdown first
+  const handlePaste = async (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = e.clipboardData.getData('text/html');
+    const text = e.clipboardData.getData('text/plain');
+    if (isEditorReadOnly || !shouldConvertPastedHtml(html, text)) return;
 
-    // Handle content after the last heading
-    if (currentHeadingIndex !== -1 && currentHeadingIndex < lines.length - 1) {
-      const content = lines.slice(currentHeadingIndex + 1).join('\n').trim();
-      // Only keep the last section if it has content
-      if (content) {
-        sections[sections.length - 1].content = content;
-      } else {
-        sections.pop();
-      }
+    e.preventDefault();
+    try {
+      insertAtCaret(await htmlToMarkdown(html));
+    } catch (error) {
+      console.error('Error converting pasted HTML:', error);
+      insertAtCaret(text);
     }
+  };
 
-    return sections;
+  const handleImport = (markdown: string, fileName: string) => {
+    if (markdownContent.trim() && !window.confirm(`Replace the current content with ${fileName}?`)) return;
+    // An import starts a new report, so saving it can't overwrite the one that was open
+    resetEditor({ ...EMPTY_CONTENT, content: markdown });
+    showToastMessage(`Imported ${fileName}`, 'success');
   };
 
   const handleSubmit = async () => {
@@ -439,12 +674,26 @@ export default function Home() {
 
     setIsProcessing(true);
     try {
-      const foundSections = findHeadingsAndContent(markdownContent);
+      // Tool-specific citations, bold pseudo-headings and reasoning are normalized before sectioning
+      const normalized = normalizeResearchReport(markdownContent);
+      const content = normalized.markdown;
+      if (content !== markdownContent) {
+        setMarkdownContent(content);
+      }
+      // Visualizing an already normalized report again detects nothing new, so keep what was found the first time
+      if (normalized.format !== GENERIC_FORMAT) setResearchFormat(normalized.format.id);
+      if (normalized.reasoning) setReasoning(normalized.reasoning);
+      if (normalized.changes.length > 0) {
+        showToastMessage(`${normalized.changes.join('. ')}.`, 'success');
+      }
+
+      const foundSections = findSections(content);
       setAnimations(foundSections);
+      setSources(extractSources(content, foundSections));
       setShowVisualization(true);
       
       // Generate title from content
-      const generatedTitle = generateTitleFromContent(markdownContent);
+      const generatedTitle = generateTitleFromContent(content);
       setReportTitle(generatedTitle);
     } catch (error) {
       console.error('Error processing markdown:', error);
@@ -453,235 +702,84 @@ export default function Home() {
     }
   };
 
-  const renderDocument = () => {
-    if (!showVisualization) return null;
-
-    const lines = markdownContent.split('\n');
-    const content: JSX.Element[] = [];
-    let currentLine = 0;
-
-    animations.forEach((section, index) => {
-      // Add any text before the section
-      if (currentLine < section.lineIndex) {
-        content.push(
-          <pre key={`text-${index}`} className="whitespace-pre-wrap font-['Arial'] text-xs">
-            {lines.slice(currentLine, section.lineIndex).join('\n')}
-          </pre>
-        );
-      }
-
-      // Add the section with its diagram
-      content.push(
-        <div key={`section-${index}`} className="my-4">
-          <pre className={`whitespace-pre-wrap font-['Arial'] font-bold ${
-            lines[section.lineIndex].startsWith('# ') ? 'text-2xl' : 'text-xl'
-          }`}>
-            {lines[section.lineIndex]}
-          </pre>
-          <div className="mt-4 space-y-4 bg-gray-50 p-4 rounded-lg">
-            <MermaidDiagram content={section.content} heading={section.heading} />
-          </div>
-        </div>
-      );
-
-      currentLine = section.lineIndex + 1;
-    });
-
-    // Add any remaining text after the last section
-    if (currentLine < lines.length) {
-      content.push(
-        <pre key="text-final" className="whitespace-pre-wrap font-['Arial'] text-xs">
-          {lines.slice(currentLine).join('\n')}
-        </pre>
-      );
-    }
+  const handleCustomDiagramChange = (index: number, diagram: CustomDiagram | null) => {
+    setAnimations(prev => prev.map((section, i) => {
+      if (i !== index) return section;
+      // Firestore rejects undefined fields, so drop the key instead of clearing it
+      const { customDiagram: _previous, ...rest } = section;
+      return diagram ? { ...rest, customDiagram: diagram } : rest;
+    }));
+    showToastMessage(diagram ? 'Diagram updated. Save the report to keep it.' : 'Diagram reset to the generated version.', 'success');
+  };
 
-    return (
-      <div className="space-y-6 font-['Arial']">
-        {content}
-      </div>
-    );
+  const handleChartMappingChange = (index: number, mapping: ChartMapping | null) => {
+    setAnimations(prev => prev.map((section, i) => {
+      if (i !== index) return section;
+      const { chartMapping: _previous, ...rest } = section;
+      return mapping ? { ...rest, chartMapping: mapping } : rest;
+    }));
+    showToastMessage(mapping ? 'Chart updated. Save the report to keep it.' : 'Chart reset to the suggested columns.', 'success');
   };
 
   const handleStartNew = () => {
-    setMarkdownContent('');
-    setShowVisualization(false);
-    setAnimations([]);
-    setReportTitle('');
-    setSelectedReport(null);
+    if (!confirmDiscardChanges()) return;
+    resetEditor(EMPTY_CONTENT);
+  };
+
+  const handlePresent = () => {
+    if (!documentRef.current) return;
+    // Slides show the diagrams as currently rendered, including edits and chart mappings
+    setSlides(buildSlides(animations, collectDiagramCodes(documentRef.current)));
   };
 
-  const handleDownloadPDF = async () => {
+  const handleExport = async (format: ExportFormat) => {
     if (!documentRef.current) return;
     
-    setIsDownloading(true);
+    setExportingFormat(format);
     try {
-      // Wait for all diagrams to be rendered first
-      const diagramElements = documentRef.current.querySelectorAll('.mermaid-container svg');
-      const diagrams = Array.from(diagramElements).map((svg, index) => ({
-        svg: svg.cloneNode(true) as SVGElement, // Clone to prevent modifications to displayed diagram
-        index
-      }));
-
-      // Create PDF
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'pt',
-        format: 'a4',
-      });
-
-      // A4 dimensions in points
-      const pageWidth = pdf.internal.pageSize.getWidth();
-      const pageHeight = pdf.internal.pageSize.getHeight();
-      const margin = 72; // 1 inch margins
-      const contentWidth = pageWidth - (2 * margin);
-      let yPosition = margin;
-
-      // Set up fonts
-      pdf.setFont('helvetica');
-
-      const lines = markdownContent.split('\n');
-      let diagramIndex = 0;
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) {
-          yPosition += 12;
-          continue;
-        }
-
-        // Add new page if needed
-        if (yPosition > pageHeight - margin) {
-          pdf.addPage();
-          yPosition = margin;
-        }
-
-        // Handle different line types
-        if (line.startsWith('# ')) {
-          const text = line.replace(/^# /, '');
-          pdf.setFontSize(24);
-          pdf.setFont('helvetica', 'bold');
-          const wrappedText = pdf.splitTextToSize(text, contentWidth);
-          wrappedText.forEach((textLine: string) => {
-            if (yPosition > pageHeight - margin) {
-              pdf.addPage();
-              yPosition = margin;
-            }
-            pdf.text(textLine, margin, yPosition);
-            yPosition += 36;
-          });
-          yPosition += 10;
-        } else if (line.startsWith('## ')) {
-          const text = line.replace(/^## /, '');
-          pdf.setFontSize(20);
-          pdf.setFont('helvetica', 'bold');
-          const wrappedText = pdf.splitTextToSize(text, contentWidth);
-          wrappedText.forEach((textLine: string) => {
-            if (yPosition > pageHeight - margin) {
-              pdf.addPage();
-              yPosition = margin;
-            }
-            pdf.text(textLine, margin, yPosition);
-            yPosition += 30;
-          });
-          yPosition += 8;
-        } else {
-          pdf.setFontSize(12);
-          pdf.setFont('helvetica', 'normal');
-          const wrappedText = pdf.splitTextToSize(line, contentWidth);
-          wrappedText.forEach((textLine: string) => {
-            if (yPosition > pageHeight - margin) {
-              pdf.addPage();
-              yPosition = margin;
-            }
-            pdf.text(textLine, margin, yPosition);
-            yPosition += 18;
-          });
-          yPosition += 6;
-        }
+      const report: ReportExport = {
+        title: reportTitle || 'Report',
+        markdown: markdownContent,
+        sections: animations,
+        sources,
+        diagramCodes: collectDiagramCodes(documentRef.current),
+      };
+      const fileName = reportTitle || 'report';
 
-        // Check if this line has an associated diagram
-        const section = animations.find(s => s.lineIndex === i);
-        if (section && diagramIndex < diagrams.length) {
-          try {
-            const diagram = diagrams[diagramIndex];
-            const svgElement = diagram.svg;
-
-            // Ensure SVG has explicit dimensions
-            if (!svgElement.hasAttribute('width') || !svgElement.hasAttribute('height')) {
-              const viewBox = svgElement.getAttribute('viewBox')?.split(' ').map(Number) || [0, 0, 800, 600];
-              svgElement.setAttribute('width', String(viewBox[2]));
-              svgElement.setAttribute('height', String(viewBox[3]));
-            }
-            
-            // Convert SVG to canvas
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            
-            // Get SVG dimensions
-            const svgWidth = parseFloat(svgElement.getAttribute('width') || '800');
-            const svgHeight = parseFloat(svgElement.getAttribute('height') || '600');
-            
-            // Set canvas size to match SVG
-            canvas.width = svgWidth * 2; // Higher resolution
-            canvas.height = svgHeight * 2; // Higher resolution
-            
-            // Scale context for higher resolution
-            ctx?.scale(2, 2);
-            
-            // Create a blob from the SVG
-            const svgData = new XMLSerializer().serializeToString(svgElement);
-            const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
-            const svgUrl = URL.createObjectURL(svgBlob);
-            
-            // Load image and add to PDF
-            await new Promise((resolve, reject) => {
-              const img = new Image();
-              img.onload = () => {
-                if (ctx) {
-                  // Clear canvas and draw image
-                  ctx.fillStyle = '#ffffff';
-                  ctx.fillRect(0, 0, canvas.width, canvas.height);
-                  ctx.drawImage(img, 0, 0, svgWidth, svgHeight);
-                  
-                  // Calculate scaled dimensions to fit page width
-                  const scale = Math.min(1, contentWidth / svgWidth);
-                  const scaledWidth = svgWidth * scale;
-                  const scaledHeight = svgHeight * scale;
-                  
-                  // Add new page if diagram won't fit
-                  if (yPosition + scaledHeight > pageHeight - margin) {
-                    pdf.addPage();
-                    yPosition = margin;
-                  }
-                  
-                  // Add the diagram with white background
-                  const imgData = canvas.toDataURL('image/png');
-                  pdf.addImage(imgData, 'PNG', margin, yPosition, scaledWidth, scaledHeight);
-                  yPosition += scaledHeight + 24;
-                }
-                
-                URL.revokeObjectURL(svgUrl);
-                resolve(null);
-              };
-              img.onerror = reject;
-              img.src = svgUrl;
-            });
-            
-            diagramIndex++;
-          } catch (error) {
-            console.error('Error adding diagram to PDF:', error);
-          }
+      // Exporters are loaded on demand, since they're only needed here
+      if (format === 'pdf') {
+        const { exportReportPdf, unsupportedPdfCharacters } = await import('@/lib/export/pdf');
+        const unsupported = unsupportedPdfCharacters(`${report.title}\n${report.markdown}`);
+        if (
+          unsupported.length > 0 &&
+          !window.confirm(
+            `The PDF fonts can't draw some of this report's characters, such as ${unsupported.slice(0, 8).join(' ')}, ` +
+              'so they would be left out. HTML and Word exports keep them. Export the PDF anyway?'
+          )
+        ) {
+          return;
         }
+        const pdf = await exportReportPdf(report);
+        pdf.save(`${fileName}.pdf`);
+      } else if (format === 'html') {
+        const { exportReportHtml } = await import('@/lib/export/html');
+        downloadFile(await exportReportHtml(report), `${fileName}.html`, 'text/html;charset=utf-8');
+      } else if (format === 'markdown') {
+        const markdown = exportReportMarkdown(report.markdown, report.sections, report.diagramCodes);
+        downloadFile(markdown, `${fileName}.md`, 'text/markdown;charset=utf-8');
+      } else if (format === 'docx') {
+        const { exportReportDocx } = await import('@/lib/export/docx');
+        downloadFile(await exportReportDocx(report), `${fileName}.docx`);
+      } else {
+        const { exportReportPptx } = await import('@/lib/export/pptx');
+        downloadFile(await exportReportPptx(report), `${fileName}.pptx`);
       }
-
-      pdf.save(`${reportTitle || 'report'}.pdf`);
-      showToastMessage('PDF downloaded successfully!', 'success');
+      showToastMessage(`${EXPORT_FORMAT_LABELS[format].label} downloaded successfully!`, 'success');
     } catch (error) {
-      console.error('Error generating PDF:', error);
-      showToastMessage('Failed to generate PDF', 'error');
+      console.error(`Error generating ${format} export:`, error);
+      showToastMessage(`Failed to generate ${EXPORT_FORMAT_LABELS[format].label}`, 'error');
     } finally {
-      setIsDownloading(false);
+      setExportingFormat(null);
     }
   };
 
@@ -728,63 +826,134 @@ export default function Home() {
             >
               {showReports ? 'Hide Reports' : 'Show Reports'}
             </button>
+            {!isOnline && (
+              <span className="px-2 py-1 text-xs font-medium text-amber-800 bg-amber-100 rounded">Offline</span>
+            )}
             <span className="text-sm text-gray-600">{user?.email}</span>
+            {!isLocalStorage && (
+              <button
+                onClick={signOut}
+                className="px-4 py-2 text-sm text-white bg-red-600 rounded hover:bg-red-700"
+              >
+                Sign Out
+              </button>
+            )}
+          </div>
+        </div>
+
+        {recoverableDraft && (
+          <div className="mb-8 flex items-center justify-between gap-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-900">
+              <span className="font-medium">Recover unsaved draft?</span>{' '}
+              {recoverableDraft.title || recoverableDraft.content.trim().split('\n')[0].slice(0, 60)}, last edited{' '}
+              {recoverableDraft.savedAt.toLocaleString()}
+            </p>
+            <div className="flex shrink-0 gap-2">
+              <button
+                onClick={handleRecoverDraft}
+                className="px-4 py-2 text-sm text-white bg-amber-600 rounded hover:bg-amber-700"
+              >
+                Recover
+              </button>
+              <button
+                onClick={handleDiscardDraft}
+                className="px-4 py-2 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
+        {conflicts.map(conflict => (
+          <div key={conflict.key} className="mb-8 flex items-center justify-between gap-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-900">
+              <span className="font-medium">{conflict.content.title}</span> was changed somewhere else while you
+              edited it offline. Which version should be kept?
+            </p>
+            <div className="flex shrink-0 gap-2">
+              <button
+                onClick={() => handleResolveConflict(conflict, 'mine')}
+                className="px-4 py-2 text-sm text-white bg-red-600 rounded hover:bg-red-700"
+              >
+                Keep mine
+              </button>
+              <button
+                onClick={() => handleResolveConflict(conflict, 'theirs')}
+                className="px-4 py-2 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+              >
+                Keep saved version
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {failedSaves.map(save => (
+          <div key={save.key} className="mb-8 flex items-center justify-between gap-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-900">
+              Your offline changes to <span className="font-medium">{save.content.title}</span> couldn&apos;t be
+              saved. {save.failure}.
+            </p>
+            <div className="flex shrink-0 gap-2">
+              <button
+                onClick={() => handleOpenFailedSave(save)}
+                className="px-4 py-2 text-sm text-white bg-red-600 rounded hover:bg-red-700"
+              >
+                Open as new report
+              </button>
+              <button
+                onClick={() => handleDiscardFailedSave(save)}
+                className="px-4 py-2 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {liveConflicts.length > 0 && (
+          <div className="mb-8 flex items-start justify-between gap-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <div className="min-w-0 text-sm text-amber-900">
+              <p>
+                <span className="font-medium">You and someone else edited the same words at once.</span> Your edit
+                was kept; theirs is below if you need it.
+              </p>
+              {liveConflicts.map((conflict, index) => (
+                <pre key={index} className="mt-2 p-2 text-xs whitespace-pre-wrap bg-white border border-amber-200 rounded">
+                  {conflict.theirs || '(they removed this text)'}
+                </pre>
+              ))}
+            </div>
             <button
-              onClick={signOut}
-              className="px-4 py-2 text-sm text-white bg-red-600 rounded hover:bg-red-700"
+              onClick={() => setLiveConflicts([])}
+              className="shrink-0 px-4 py-2 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
             >
-              Sign Out
+              Dismiss
             </button>
           </div>
-        </div>
+        )}
 
         {showReports && (
           <div className="mb-8 bg-white rounded-lg shadow-lg p-6">
             <h2 className="text-xl font-semibold mb-4">Your Reports</h2>
-            <div className="space-y-4">
-              {isLoadingReports ? (
-                <div className="flex justify-center items-center py-8">
-                  <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
-                </div>
-              ) : loadError ? (
-                <div className="text-red-500 text-center py-4">
-                  {loadError}
-                  <button
-                    onClick={loadReports}
-                    className="ml-2 text-blue-500 hover:text-blue-700 underline"
-                  >
-                    Try Again
-                  </button>
-                </div>
-              ) : reports.length === 0 ? (
-                <p className="text-gray-500 text-center">No reports yet</p>
-              ) : (
-                reports.map((report) => (
-                  <div key={report.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                    <div>
-                      <h3 className="font-medium">{report.title}</h3>
-                      <p className="text-sm text-gray-500">
-                        {new Date(report.createdAt).toLocaleDateString()}
-                      </p>
-                    </div>
-                    <div className="flex gap-2">
-                      <button
-                        onClick={() => handleLoadReport(report)}
-                        className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700"
-                      >
-                        Load
-                      </button>
-                      <button
-                        onClick={() => report.id && handleDeleteReport(report.id)}
-                        className="px-3 py-1 text-sm text-white bg-red-600 rounded hover:bg-red-700"
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
+            <ReportLibrary
+              userId={user.uid}
+              selectedReportId={selectedReport?.id}
+              refreshKey={libraryKey}
+              onLoad={handleLoadReport}
+              onDelete={handleDeleteReport}
+            />
+            {COLLABORATION_AVAILABLE && user.email && (
+              <>
+                <h2 className="text-xl font-semibold mt-8 mb-4">Shared with you</h2>
+                <SharedReports
+                  email={user.email}
+                  selectedReportId={selectedReport?.id}
+                  refreshKey={libraryKey}
+                  onLoad={handleLoadReport}
+                />
+              </>
+            )}
           </div>
         )}
         
@@ -799,47 +968,63 @@ export default function Home() {
                 <div className="mb-4 p-3 bg-blue-50 rounded-lg">
                   <p className="text-sm text-blue-800">
                     <span className="font-medium">Report Title:</span> {reportTitle}
+                    {researchFormatLabel(researchFormat) && (
+                      <span className="ml-3 px-2 py-0.5 text-xs bg-blue-100 rounded">
+                        From {researchFormatLabel(researchFormat)}
+                      </span>
+                    )}
                   </p>
                 </div>
               )}
-              <textarea
-                id="markdown-input"
-                name="markdown-input"
-                value={markdownContent}
-                onChange={handleContentChange}
-                onPaste={handlePaste}
-                placeholder="Paste your markdown content here..."
-                className="block w-full h-64 p-4 text-gray-900 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm leading-6"
-                style={{ minHeight: '16rem' }}
-                spellCheck="false"
-                autoComplete="off"
-                autoCorrect="off"
-                autoCapitalize="off"
-                readOnly={showVisualization}
-              />
+              <FileImport
+                onImport={handleImport}
+                onError={(message) => showToastMessage(message, 'error')}
+                disabled={showVisualization || !canEdit}
+              >
+                <textarea
+                  ref={textareaRef}
+                  id="markdown-input"
+                  name="markdown-input"
+                  value={markdownContent}
+                  onChange={handleContentChange}
+                  onPaste={handlePaste}
+                  placeholder="Paste your markdown content here, or drop in a file..."
+                  className="block w-full h-64 p-4 text-gray-900 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm leading-6"
+                  style={{ minHeight: '16rem' }}
+                  spellCheck="false"
+                  autoComplete="off"
+                  autoCorrect="off"
+                  autoCapitalize="off"
+                  readOnly={isEditorReadOnly}
+                />
+              </FileImport>
             </div>
             <div className="flex justify-end gap-4">
               {showVisualization ? (
                 <>
-                  <button
-                    onClick={handleSaveReport}
-                    disabled={isSaving}
-                    className={`flex items-center px-6 py-2 text-white rounded-lg ${
-                      isSaving ? 'bg-green-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'
-                    }`}
-                  >
-                    {isSaving ? (
-                      <>
-                        <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Saving...
-                      </>
-                    ) : (
-                      'Save Report'
-                    )}
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={handleSaveReport}
+                      disabled={isSaving}
+                      className={`flex items-center px-6 py-2 text-white rounded-lg ${
+                        isSaving ? 'bg-green-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'
+                      }`}
+                    >
+                      {isSaving ? (
+                        <>
+                          <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                          Saving...
+                        </>
+                      ) : selectedReport?.id ? (
+                        'Save Changes'
+                      ) : (
+                        'Save Report'
+                      )}
+                    </button>
+                  )}
                   <button
                     onClick={handleStartNew}
                     className="flex items-center px-6 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700"
@@ -879,38 +1064,178 @@ export default function Home() {
 
         {showVisualization && (
           <div className="mt-8 bg-white rounded-lg shadow-lg p-6">
-            <div className="flex justify-end mb-4">
+            <div className="flex justify-end gap-4 mb-4">
               <button
-                onClick={handleDownloadPDF}
-                disabled={isDownloading}
-                className={`flex items-center px-4 py-2 text-white rounded-lg ${
-                  isDownloading ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
-                }`}
+                onClick={() => setShowTimeline(!showTimeline)}
+                className="flex items-center px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300"
               >
-                {isDownloading ? (
-                  <>
-                    <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                    Generating PDF...
-                  </>
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                {showTimeline ? 'Hide Timeline' : 'Report Timeline'}
+              </button>
+              {selectedReport?.id && canEdit && (
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="flex items-center px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300"
+                >
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  {showHistory ? 'Hide History' : 'History'}
+                </button>
+              )}
+              {selectedReport?.id && COLLABORATION_AVAILABLE && role === 'owner' && (
+                <button
+                  onClick={() => setShowCollaborators(!showCollaborators)}
+                  className="flex items-center px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300"
+                >
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                  </svg>
+                  {showCollaborators ? 'Hide Collaborators' : 'Collaborators'}
+                </button>
+              )}
+              {selectedReport?.id && SHARING_AVAILABLE && role === 'owner' && (
+                <button
+                  onClick={() => setShowSharing(!showSharing)}
+                  className="flex items-center px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300"
+                >
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                  </svg>
+                  {showSharing ? 'Hide Sharing' : 'Share'}
+                </button>
+              )}
+              {reviewReportId && (
+                <button
+                  onClick={() => setShowComments(!showComments)}
+                  className="flex items-center px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300"
+                >
+                  <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                  </svg>
+                  {showComments ? 'Hide Comments' : `Comments${openThreadTotal > 0 ? ` (${openThreadTotal})` : ''}`}
+                </button>
+              )}
+              <button
+                onClick={handlePresent}
+                disabled={animations.length === 0}
+                className="flex items-center px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18M4 4v10a2 2 0 002 2h12a2 2 0 002-2V4M12 16v4m-4 0h8" />
+                </svg>
+                Present
+              </button>
+              <ExportMenu exporting={exportingFormat} onExport={handleExport} />
+            </div>
+            {isLive && (
+              <div className="mb-6 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <span className="px-2 py-0.5 text-xs font-medium text-purple-800 bg-purple-100 rounded">Live</span>
+                {role === 'viewer' && <span className="px-2 py-0.5 text-xs font-medium text-gray-700 bg-gray-200 rounded">View only</span>}
+                {otherViewers.length === 0 ? (
+                  <span>No one else has this report open.</span>
                 ) : (
-                  <>
-                    <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                    </svg>
-                    Download PDF
-                  </>
+                  <span>
+                    Also here:{' '}
+                    {otherViewers
+                      .map(({ name, sectionIndex }) =>
+                        sectionIndex !== null && animations[sectionIndex] ? `${name} (${animations[sectionIndex].heading})` : name
+                      )
+                      .join(', ')}
+                  </span>
                 )}
-              </button>
+              </div>
+            )}
+            {showCollaborators && selectedReport?.id && (
+              <div className="mb-6 bg-gray-50 p-4 rounded-lg">
+                <h2 className="text-lg font-semibold text-gray-800 mb-3">Collaborators</h2>
+                <CollaboratorsPanel
+                  report={{ ...selectedReport, id: selectedReport.id }}
+                  ownerEmail={user.email}
+                  onChange={handleCollaboratorsChange}
+                />
+              </div>
+            )}
+            {showSharing && selectedReport?.id && (
+              <div className="mb-6 bg-gray-50 p-4 rounded-lg">
+                <h2 className="text-lg font-semibold text-gray-800 mb-3">Share Links</h2>
+                <SharePanel report={{ ...selectedReport, id: selectedReport.id }} />
+              </div>
+            )}
+            {showHistory && selectedReport?.id && (
+              <div className="mb-6 bg-gray-50 p-4 rounded-lg">
+                <h2 className="text-lg font-semibold text-gray-800 mb-3">Version History</h2>
+                <VersionHistory
+                  reportId={selectedReport.id}
+                  currentVersion={selectedReport.version}
+                  onRestore={handleRestoreVersion}
+                />
+              </div>
+            )}
+            {reasoning && (
+              <details className="mb-6 bg-gray-50 p-4 rounded-lg">
+                <summary className="text-lg font-semibold text-gray-800 cursor-pointer">Research Reasoning</summary>
+                <p className="mt-1 text-xs text-gray-500">
+                  The tool&apos;s thinking and research steps, kept out of the sections and diagrams.
+                </p>
+                <div className="mt-3 max-h-96 overflow-y-auto whitespace-pre-wrap text-sm text-gray-700">{reasoning}</div>
+              </details>
+            )}
+            <div className="mb-6 bg-gray-50 p-4 rounded-lg">
+              <h2 className="text-lg font-semibold text-gray-800 mb-3">Knowledge Graph</h2>
+              <KnowledgeGraphView markdown={shownVisualization.markdown} sections={shownVisualization.sections} />
             </div>
-            <div className="prose max-w-none" ref={documentRef}>
-              {renderDocument()}
+            {showTimeline && (
+              <div className="mb-6 bg-gray-50 p-4 rounded-lg">
+                <ReportTimeline sections={animations} title={reportTitle} />
+              </div>
+            )}
+            <div className={sources.length > 0 || isReviewing ? 'lg:grid lg:grid-cols-[minmax(0,1fr)_18rem] lg:gap-6' : ''}>
+              <div ref={documentRef}>
+                <ReportDocument
+                  markdown={shownVisualization.markdown}
+                  sections={shownVisualization.sections}
+                  sources={sources}
+                  onCustomDiagramChange={canEdit ? handleCustomDiagramChange : undefined}
+                  onChartMappingChange={canEdit ? handleChartMappingChange : undefined}
+                  sectionViewers={sectionViewers}
+                  openThreadCounts={reviewReportId ? openThreadCounts : undefined}
+                  onComment={reviewReportId ? handleComment : undefined}
+                  onShowComments={handleShowComments}
+                />
+              </div>
+              {(sources.length > 0 || isReviewing) && (
+                <aside className="mt-6 lg:mt-0">
+                  <div className="lg:sticky lg:top-4 lg:max-h-[calc(100vh-2rem)] lg:overflow-y-auto space-y-6">
+                    {isReviewing && (
+                      <ReviewSidebar
+                        threads={threads}
+                        sections={animations}
+                        threadSections={threadSections}
+                        newThread={newThread}
+                        focusedSection={focusedCommentSection}
+                        people={mentionablePeople}
+                        userEmail={user.email}
+                        canDelete={thread => thread.createdBy === user.uid || role === 'owner'}
+                        onCreate={handleCreateThread}
+                        onCancelNew={() => setNewThread(null)}
+                        onReply={handleReply}
+                        onResolve={handleResolveThread}
+                        onDelete={handleDeleteThread}
+                        onClearFocus={() => setFocusedCommentSection(null)}
+                      />
+                    )}
+                    {sources.length > 0 && <SourcesPanel sources={sources} sections={animations} />}
+                  </div>
+                </aside>
+              )}
             </div>
           </div>
         )}
       </div>
+      {slides && <PresentationMode title={reportTitle || 'Report'} slides={slides} onClose={() => setSlides(null)} />}
     </main>
   );
 }
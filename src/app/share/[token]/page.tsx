@@ -0,0 +1,68 @@
+import type { Metadata } from 'next';
+import { getReportRepository } from '@/lib/storage/reportRepository';
+import { isShareActive } from '@/lib/sharing/shares';
+import { restoreSections } from '@/lib/markdown/sections';
+import { extractSources } from '@/lib/markdown/citations';
+import ReportDocument from '@/components/ReportDocument';
+import SourcesPanel from '@/components/SourcesPanel';
+
+// Revoking or expiring a link has to take effect on the next request
+export const dynamic = 'force-dynamic';
+
+interface SharePageProps {
+  params: { token: string };
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const share = await (await getReportRepository()).getShare(params.token);
+  return {
+    title: share && isShareActive(share) ? share.title : 'Shared report',
+    // Links are private to whoever was given them
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const share = await (await getReportRepository()).getShare(params.token);
+
+  if (!share || !isShareActive(share)) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-8 bg-gray-100">
+        <div className="max-w-md bg-white rounded-lg shadow-lg p-6 text-center">
+          <h1 className="text-xl font-semibold mb-2">This link isn&apos;t available</h1>
+          <p className="text-gray-600">
+            {!share
+              ? 'The owner may have stopped sharing the report, the link may have expired, or it is incorrect.'
+              : share.revokedAt
+                ? 'The owner has stopped sharing this report.'
+                : 'This link has expired. Ask the owner for a new one.'}
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  const sections = restoreSections(share.content, share.animations);
+  const sources = extractSources(share.content, sections);
+
+  return (
+    <main className="min-h-screen p-8 bg-gray-100">
+      <div className="max-w-7xl mx-auto bg-white rounded-lg shadow-lg p-6">
+        <p className="mb-4 text-sm text-gray-500">
+          Shared report · read-only
+          {share.expiresAt && ` · available until ${share.expiresAt.toLocaleDateString()}`}
+        </p>
+        <div className={sources.length > 0 ? 'lg:grid lg:grid-cols-[minmax(0,1fr)_18rem] lg:gap-6' : ''}>
+          <ReportDocument markdown={share.content} sections={sections} sources={sources} />
+          {sources.length > 0 && (
+            <aside className="mt-6 lg:mt-0">
+              <div className="lg:sticky lg:top-4 lg:max-h-[calc(100vh-2rem)] lg:overflow-y-auto">
+                <SourcesPanel sources={sources} sections={sections} />
+              </div>
+            </aside>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { CHART_TYPES, ChartMapping, ChartType, DIAGRAM_TYPE_LABELS } from '@/lib/types';
+import { DataTable, getNumericColumns } from '@/lib/diagrams/dataExtraction';
+import { suggestChartMapping } from '@/lib/diagrams/charts';
+
+interface ChartMappingEditorProps {
+  tables: DataTable[];
+  initialMapping: ChartMapping;
+  isCustomized: boolean;
+  onSave: (mapping: ChartMapping) => void;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+const columnName = (table: DataTable, column: number) => table.headers[column] || `Column ${column + 1}`;
+
+export default function ChartMappingEditor({ tables, initialMapping, isCustomized, onSave, onReset, onCancel }: ChartMappingEditorProps) {
+  const [mapping, setMapping] = useState<ChartMapping>(initialMapping);
+  const radioGroup = useId();
+  const table = tables[mapping.tableIndex] ?? tables[0];
+  const numericColumns = getNumericColumns(table);
+
+  const handleTableChange = (tableIndex: number) => {
+    setMapping(suggestChartMapping(tables[tableIndex], tableIndex) ?? { ...mapping, tableIndex });
+  };
+
+  const handleChartTypeChange = (chartType: ChartType) => {
+    // Pies take one value column and quadrants exactly two, so trim or top up the selection
+    let valueColumns = mapping.valueColumns;
+    if (chartType === 'pie') valueColumns = valueColumns.slice(0, 1);
+    if (chartType === 'quadrant') {
+      valueColumns = [...valueColumns, ...numericColumns.filter(column => !valueColumns.includes(column))].slice(0, 2);
+    }
+    setMapping({ ...mapping, chartType, valueColumns });
+  };
+
+  const toggleValueColumn = (column: number) => {
+    const valueColumns = mapping.valueColumns.includes(column)
+      ? mapping.valueColumns.filter(selected => selected !== column)
+      : [...mapping.valueColumns, column].sort((a, b) => a - b);
+    setMapping({ ...mapping, valueColumns });
+  };
+
+  const setAxisColumn = (axis: 0 | 1, column: number) => {
+    const valueColumns = [...mapping.valueColumns];
+    valueColumns[axis] = column;
+    setMapping({ ...mapping, valueColumns });
+  };
+
+  const selectClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const isValid = mapping.chartType === 'quadrant'
+    ? mapping.valueColumns.length === 2 && mapping.valueColumns[0] !== mapping.valueColumns[1]
+    : mapping.valueColumns.length > 0;
+
+  return (
+    <div className="space-y-3 mb-4 p-3 border border-gray-200 rounded-lg">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Data</span>
+          <select
+            value={mapping.tableIndex}
+            onChange={(e) => handleTableChange(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {tables.map((candidate, index) => (
+              <option key={index} value={index}>{candidate.caption}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Chart</span>
+          <select
+            value={mapping.chartType}
+            onChange={(e) => handleChartTypeChange(e.target.value as ChartType)}
+            className={selectClassName}
+          >
+            {CHART_TYPES.map(type => (
+              <option key={type} value={type}>{DIAGRAM_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600 space-y-1">
+          <span>Labels</span>
+          <select
+            value={mapping.labelColumn}
+            onChange={(e) => setMapping({ ...mapping, labelColumn: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            <option value={-1}>Row number</option>
+            {table.headers.map((_, column) => (
+              <option key={column} value={column}>{columnName(table, column)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {mapping.chartType === 'quadrant' ? (
+        <div className="grid grid-cols-2 gap-3">
+          {(['X axis', 'Y axis'] as const).map((label, axis) => (
+            <label key={label} className="text-xs text-gray-600 space-y-1">
+              <span>{label}</span>
+              <select
+                value={mapping.valueColumns[axis] ?? ''}
+                onChange={(e) => setAxisColumn(axis as 0 | 1, Number(e.target.value))}
+                className={selectClassName}
+              >
+                <option value="" disabled>Choose a column</option>
+                {numericColumns.map(column => (
+                  <option key={column} value={column}>{columnName(table, column)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      ) : (
+        <fieldset className="text-xs text-gray-600">
+          <legend className="mb-1">{mapping.chartType === 'pie' ? 'Slice values' : 'Values (first as bars, others as lines)'}</legend>
+          <div className="flex flex-wrap gap-3">
+            {numericColumns.map(column => (
+              <label key={column} className="flex items-center gap-1">
+                <input
+                  type={mapping.chartType === 'pie' ? 'radio' : 'checkbox'}
+                  name={radioGroup}
+                  checked={mapping.valueColumns.includes(column)}
+                  onChange={() => mapping.chartType === 'pie'
+                    ? setMapping({ ...mapping, valueColumns: [column] })
+                    : toggleValueColumn(column)}
+                />
+                {columnName(table, column)}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      <div className="flex justify-between">
+        <button
+          onClick={onReset}
+          disabled={!isCustomized}
+          className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-40"
+        >
+          Reset to suggested
+        </button>
+        <div className="space-x-2">
+          <button onClick={onCancel} className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(mapping)}
+            disabled={!isValid}
+            className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
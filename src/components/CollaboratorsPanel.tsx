@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { COLLABORATOR_ROLES, CollaboratorRole, Report } from '@/lib/types';
+import { getReportRepository } from '@/lib/storage/reportRepository';
+import { COLLABORATOR_ROLE_LABELS, MAX_COLLABORATORS, isValidEmail, normalizeEmail } from '@/lib/collaboration/collaborators';
+
+interface CollaboratorsPanelProps {
+  report: Report & { id: string };
+  // The owner's email, which can't be invited to their own report
+  ownerEmail: string | null;
+  onChange: (collaborators: Record<string, CollaboratorRole>) => void;
+}
+
+// Invites people to a report by email and changes or removes their access
+export default function CollaboratorsPanel({ report, ownerEmail, onChange }: CollaboratorsPanelProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('editor');
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const collaborators = report.collaborators ?? {};
+  const emails = Object.keys(collaborators).sort();
+
+  const update = async (next: Record<string, CollaboratorRole>) => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      await (await getReportRepository()).updateCollaborators(report.id, next, ownerEmail);
+      onChange(next);
+      return true;
+    } catch (err) {
+      console.error('Error updating collaborators:', err);
+      setError('Failed to update collaborators');
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invited = normalizeEmail(email);
+    if (!isValidEmail(invited)) {
+      setError('Enter an email address');
+      return;
+    }
+    if (ownerEmail && invited === normalizeEmail(ownerEmail)) {
+      setError('You already own this report');
+      return;
+    }
+    if (!collaborators[invited] && emails.length >= MAX_COLLABORATORS) {
+      setError(`A report can have up to ${MAX_COLLABORATORS} collaborators`);
+      return;
+    }
+    if (await update({ ...collaborators, [invited]: role })) setEmail('');
+  };
+
+  const handleRemove = (removed: string) => {
+    const { [removed]: _removed, ...rest } = collaborators;
+    update(rest);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleInvite} className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="name@example.com"
+          className="flex-1 min-w-[16rem] border border-gray-300 rounded px-2 py-1"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+          className="border border-gray-300 rounded px-2 py-1 bg-white"
+        >
+          {COLLABORATOR_ROLES.map(option => <option key={option} value={option}>{COLLABORATOR_ROLE_LABELS[option]}</option>)}
+        </select>
+        <button
+          type="submit"
+          disabled={isUpdating || !email.trim()}
+          className="px-4 py-1 text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          Invite
+        </button>
+        <span className="text-gray-500">They&apos;ll find the report under Shared with you after signing in with that email.</span>
+      </form>
+
+      {error && <div className="text-red-500 text-sm">{error}</div>}
+
+      {emails.length === 0 ? (
+        <p className="text-sm text-gray-500">Only you can open this report.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 bg-white rounded-lg border border-gray-200">
+          {emails.map(collaborator => (
+            <li key={collaborator} className="flex flex-wrap items-center gap-2 px-4 py-2 text-sm">
+              <span className="flex-1 min-w-[12rem] text-gray-800">{collaborator}</span>
+              <select
+                value={collaborators[collaborator]}
+                onChange={(e) => update({ ...collaborators, [collaborator]: e.target.value as CollaboratorRole })}
+                disabled={isUpdating}
+                className="border border-gray-300 rounded px-2 py-1 bg-white"
+              >
+                {COLLABORATOR_ROLES.map(option => <option key={option} value={option}>{COLLABORATOR_ROLE_LABELS[option]}</option>)}
+              </select>
+              <button
+                onClick={() => handleRemove(collaborator)}
+                disabled={isUpdating}
+                className="px-3 py-1 text-white bg-red-600 rounded hover:bg-red-700 disabled:bg-red-400"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
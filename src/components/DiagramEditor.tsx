@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import mermaid from 'mermaid';
+import { AnimationSection, CustomDiagram, DIAGRAM_TYPES, DIAGRAM_TYPE_LABELS, DiagramType } from '@/lib/types';
+import { buildDiagramTemplate } from '@/lib/diagrams/templates';
+import { validateMermaid } from '@/lib/diagrams/validate';
+
+interface DiagramEditorProps {
+  section: Pick<AnimationSection, 'heading' | 'content'>;
+  initialType: DiagramType;
+  initialCode: string;
+  isCustomized: boolean;
+  onSave: (diagram: CustomDiagram) => void;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_DELAY_MS = 300;
+
+export default function DiagramEditor({
+  section,
+  initialType,
+  initialCode,
+  isCustomized,
+  onSave,
+  onReset,
+  onCancel,
+}: DiagramEditorProps) {
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [previewId] = useState(`mermaid-preview-${Math.random().toString(36).substring(2, 9)}`);
+  const [diagramType, setDiagramType] = useState<DiagramType>(initialType);
+  const [code, setCode] = useState(initialCode);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-render the preview shortly after the user stops typing
+  useEffect(() => {
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      const validation = await validateMermaid(code);
+      if (cancelled) return;
+      if (!validation.valid) {
+        setError(validation.error || 'Invalid Mermaid syntax');
+        return;
+      }
+
+      try {
+        const { svg } = await mermaid.render(previewId, code);
+        if (cancelled) return;
+        if (previewRef.current) {
+          previewRef.current.innerHTML = svg;
+        }
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to render diagram');
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [code, previewId]);
+
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextType = e.target.value as DiagramType;
+    if (code !== initialCode && !window.confirm('Switching the diagram type replaces your edits. Continue?')) {
+      return;
+    }
+    setDiagramType(nextType);
+    setCode(buildDiagramTemplate(nextType, section));
+  };
+
+  // Insert spaces instead of moving focus, since Mermaid is indentation-sensitive
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    const nextCode = code.substring(0, selectionStart) + '  ' + code.substring(selectionEnd);
+    setCode(nextCode);
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + 2;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Diagram type
+          <select
+            value={diagramType}
+            onChange={handleTypeChange}
+            className="px-2 py-1 border border-gray-300 rounded bg-white text-sm focus:ring-2 focus:ring-blue-500"
+          >
+            {DIAGRAM_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {DIAGRAM_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex gap-2">
+          {isCustomized && (
+            <button
+              onClick={onReset}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+            >
+              Reset to generated
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ type: diagramType, code })}
+            disabled={!!error || !code.trim()}
+            className={`px-3 py-1 text-sm text-white rounded ${
+              error || !code.trim() ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            Save diagram
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="block w-full h-80 p-3 text-gray-900 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-xs leading-5"
+          spellCheck="false"
+          autoComplete="off"
+          autoCorrect="off"
+          autoCapitalize="off"
+        />
+        <div className="h-80 overflow-auto border border-gray-200 rounded-lg p-3 bg-white">
+          {error && (
+            <pre className="mb-2 p-2 text-xs text-red-600 bg-red-50 rounded whitespace-pre-wrap">{error}</pre>
+          )}
+          <div ref={previewRef} className={`flex justify-center ${error ? 'opacity-40' : ''}`}></div>
+        </div>
+      </div>
+    </div>
+  );
+}
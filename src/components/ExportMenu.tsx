@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/types';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, { label: string; description: string }> = {
+  pdf: { label: 'PDF', description: 'Formatted document with vector diagrams' },
+  html: { label: 'HTML', description: 'Single self-contained web page' },
+  markdown: { label: 'Markdown', description: 'Diagrams as ```mermaid blocks' },
+  docx: { label: 'Word (DOCX)', description: 'Headings, text and diagram images' },
+  pptx: { label: 'PowerPoint (PPTX)', description: 'A slide per section with speaker notes' },
+};
+
+interface ExportMenuProps {
+  // The format being exported, if any
+  exporting: ExportFormat | null;
+  onExport: (format: ExportFormat) => void;
+}
+
+// Download button with a menu of export formats
+export default function ExportMenu({ exporting, onExport }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={exporting !== null}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className={`flex items-center px-4 py-2 text-white rounded-lg ${
+          exporting ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+        }`}
+      >
+        {exporting ? (
+          <>
+            <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            Generating {EXPORT_FORMAT_LABELS[exporting].label}...
+          </>
+        ) : (
+          <>
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+            Export
+          </>
+        )}
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 z-10 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format}
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false);
+                onExport(format);
+              }}
+              className="block w-full px-4 py-2 text-left hover:bg-gray-50"
+            >
+              <span className="block text-sm font-medium text-gray-800">{EXPORT_FORMAT_LABELS[format].label}</span>
+              <span className="block text-xs text-gray-500">{EXPORT_FORMAT_LABELS[format].description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
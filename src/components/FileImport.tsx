@@ -0,0 +1,105 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FileUp } from 'lucide-react';
+import { IMPORT_EXTENSIONS, importFile } from '@/lib/import/importFile';
+
+interface FileImportProps {
+  // Called with the file converted to Markdown
+  onImport: (markdown: string, fileName: string) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+// Accepts a document dropped onto the editor it wraps, or picked from the drop zone below it
+export default function FileImport({ onImport, onError, disabled = false, children }: FileImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  // dragenter and dragleave fire for every child crossed, so track how deep the pointer is
+  const dragDepth = useRef(0);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || disabled) return;
+    setIsImporting(true);
+    try {
+      onImport(await importFile(file), file.name);
+    } catch (error) {
+      console.error('Error importing file:', error);
+      onError((error as Error).message || 'Failed to import file');
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  return (
+    <div
+      className="relative"
+      onDragEnter={(e) => {
+        if (disabled || !hasFiles(e)) return;
+        e.preventDefault();
+        dragDepth.current++;
+        setIsDragging(true);
+      }}
+      onDragOver={(e) => {
+        if (disabled || !hasFiles(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+      }}
+      onDragLeave={() => {
+        dragDepth.current = Math.max(0, dragDepth.current - 1);
+        if (dragDepth.current === 0) setIsDragging(false);
+      }}
+      onDrop={(e) => {
+        if (disabled || !hasFiles(e)) return;
+        e.preventDefault();
+        dragDepth.current = 0;
+        setIsDragging(false);
+        handleFile(e.dataTransfer.files[0]);
+      }}
+    >
+      {children}
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex flex-col items-center justify-center border-2 border-blue-400 border-dashed rounded-lg bg-blue-50/90 pointer-events-none">
+          <FileUp className="w-10 h-10 mb-3 text-blue-500" />
+          <p className="text-sm font-semibold text-blue-700">Drop to import</p>
+        </div>
+      )}
+      {!disabled && (
+        <label
+          htmlFor="document-import"
+          className="flex items-center justify-center gap-3 w-full mt-3 py-4 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100"
+        >
+          <FileUp className="w-6 h-6 text-gray-400" />
+          <div>
+            <p className="text-sm text-gray-500">
+              {isImporting ? (
+                <span className="font-semibold">Importing...</span>
+              ) : (
+                <>
+                  <span className="font-semibold">Click to import a file</span> or drag and drop
+                </>
+              )}
+            </p>
+            <p className="text-xs text-gray-500">Markdown, HTML, Word (DOCX) or plain text</p>
+          </div>
+        </label>
+      )}
+      <input
+        type="file"
+        id="document-import"
+        accept={IMPORT_EXTENSIONS.join(',')}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="hidden"
+        ref={fileInputRef}
+        disabled={disabled || isImporting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import mermaid from 'mermaid';
+import { AnimationSection, KnowledgeGraph } from '@/lib/types';
+import { generateKnowledgeGraph } from '@/lib/graph/generateKnowledgeGraph';
+import { ENTITY_TYPE_COLORS, ENTITY_TYPE_LABELS, graphToMermaid } from '@/lib/graph/knowledgeGraph';
+import { sectionElementId } from '@/lib/markdown/remarkSectionDiagrams';
+
+interface KnowledgeGraphViewProps {
+  markdown: string;
+  sections: AnimationSection[];
+}
+
+// Mermaid gives flowchart nodes DOM ids like "flowchart-E3-12"
+const NODE_ID_PATTERN = /flowchart-(E\d+)-/;
+
+const scrollToSection = (index: number) => {
+  document.getElementById(sectionElementId(index))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+};
+
+// Entities and relationships across the whole report; clicking an entity lists the sections that mention it
+export default function KnowledgeGraphView({ markdown, sections }: KnowledgeGraphViewProps) {
+  const elementRef = useRef<HTMLDivElement>(null);
+  const [diagramId] = useState(`mermaid-graph-${Math.random().toString(36).substring(2, 9)}`);
+  const [graph, setGraph] = useState<KnowledgeGraph | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Sections are re-created whenever a diagram is edited; only new content should rebuild the graph
+  const sectionsRef = useRef(sections);
+  sectionsRef.current = sections;
+  const sectionCount = sections.length;
+
+  useEffect(() => {
+    if (!markdown.trim()) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setSelectedId(null);
+
+    const renderGraph = async () => {
+      try {
+        const nextGraph = await generateKnowledgeGraph(markdown, sectionsRef.current);
+        if (cancelled) return;
+        setGraph(nextGraph);
+        if (nextGraph.entities.length === 0) {
+          setIsLoading(false);
+          return;
+        }
+
+        const { svg } = await mermaid.render(diagramId, graphToMermaid(nextGraph));
+        if (cancelled) return;
+        if (elementRef.current) {
+          elementRef.current.innerHTML = svg;
+        }
+        setIsLoading(false);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error rendering knowledge graph:', err);
+        setError('Failed to render the knowledge graph');
+        setIsLoading(false);
+      }
+    };
+
+    renderGraph();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [markdown, sectionCount, diagramId]);
+
+  // Dim everything that isn't the selected entity or one of its neighbours
+  useEffect(() => {
+    if (!elementRef.current || !graph) return;
+    const related = new Set(selectedId ? [selectedId] : []);
+    graph.relationships.forEach(edge => {
+      if (edge.source === selectedId) related.add(edge.target);
+      if (edge.target === selectedId) related.add(edge.source);
+    });
+
+    elementRef.current.querySelectorAll<SVGGElement>('g.node').forEach(node => {
+      const id = node.id.match(NODE_ID_PATTERN)?.[1];
+      node.style.opacity = !selectedId || (id && related.has(id)) ? '1' : '0.3';
+    });
+  }, [selectedId, graph, isLoading]);
+
+  const handleDiagramClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const node = (e.target as Element).closest('g.node');
+    const id = node?.id.match(NODE_ID_PATTERN)?.[1];
+    setSelectedId(id && id !== selectedId ? id : null);
+  };
+
+  const selected = graph?.entities.find(entity => entity.id === selectedId);
+
+  if (!isLoading && !error && graph?.entities.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center p-4">
+        No recurring entities were found in this report.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mermaid-diagram p-4 bg-white rounded-lg shadow">
+      {isLoading && (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+      {error && (
+        <div className="text-red-500 text-center p-4">
+          {error}
+        </div>
+      )}
+      <div
+        ref={elementRef}
+        onClick={handleDiagramClick}
+        className={`mermaid-container flex justify-center [&_g.node]:cursor-pointer ${isLoading || error ? 'hidden' : ''}`}
+      ></div>
+
+      {graph && !isLoading && !error && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {graph.entities.map(entity => (
+              <button
+                key={entity.id}
+                onClick={() => setSelectedId(entity.id === selectedId ? null : entity.id)}
+                title={ENTITY_TYPE_LABELS[entity.type]}
+                style={{ backgroundColor: ENTITY_TYPE_COLORS[entity.type].fill, borderColor: ENTITY_TYPE_COLORS[entity.type].stroke }}
+                className={`px-2 py-0.5 text-xs text-gray-800 border rounded-full ${
+                  entity.id === selectedId ? 'ring-2 ring-blue-500' : ''
+                }`}
+              >
+                {entity.name}
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="text-sm text-gray-700">
+              <p className="font-medium">
+                {selected.name}
+                {selected.aliases.length > 0 && (
+                  <span className="font-normal text-gray-500"> · also {selected.aliases.join(', ')}</span>
+                )}
+              </p>
+              {selected.sectionIndices.length > 0 ? (
+                <ul className="mt-1 space-y-1">
+                  {selected.sectionIndices.map(index => (
+                    <li key={index}>
+                      <a
+                        href={`#${sectionElementId(index)}`}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          scrollToSection(index);
+                        }}
+                        className="text-blue-700 hover:underline"
+                      >
+                        {sections[index]?.heading}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-1 text-gray-500">Not named directly in any section.</p>
+              )}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            {graph.entities.length} entities, {graph.relationships.length} relationships
+            {graph.source === 'heuristic' ? ' · offline fallback' : ''} · click an entity to find where it is mentioned
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useEffect, useMemo, useState, useRef } from 'react';
+import mermaid from 'mermaid';
+import { ChartMapping, CustomDiagram, DIAGRAM_TYPE_LABELS, GeneratedDiagram } from '@/lib/types';
+import { generateDiagram } from '@/lib/diagrams/generateDiagram';
+import { generateDataDiagram, suggestDefaultMapping } from '@/lib/diagrams/charts';
+import { findDataTables } from '@/lib/diagrams/dataExtraction';
+import { generateTimelineDiagram } from '@/lib/diagrams/timeline';
+import { buildDiagramTemplate } from '@/lib/diagrams/templates';
+import { describeRepairs, validateDiagram } from '@/lib/diagrams/validate';
+import { stripClickDirectives } from '@/lib/diagrams/repairs';
+import { DIAGRAM_CODE_ATTRIBUTE } from '@/lib/export/diagrams';
+import DiagramEditor from './DiagramEditor';
+import ChartMappingEditor from './ChartMappingEditor';
+
+// Initialize Mermaid. Diagrams come from the model, collaborators and share links, so Mermaid
+// sanitizes labels and ignores click handlers and links in them
+mermaid.initialize({
+  startOnLoad: false,
+  theme: 'default',
+  securityLevel: 'strict',
+  flowchart: {
+    useMaxWidth: true,
+    htmlLabels: true,
+    curve: 'basis'
+  },
+  sequence: {
+    useMaxWidth: true,
+    showSequenceNumbers: true,
+    actorMargin: 50,
+    boxMargin: 10,
+    boxTextMargin: 5,
+    noteMargin: 10,
+    messageMargin: 35,
+    mirrorActors: false
+  },
+  mindmap: {
+    useMaxWidth: true,
+    padding: 16
+  },
+  gantt: {
+    titleTopMargin: 25,
+    barHeight: 20,
+    barGap: 4,
+    topPadding: 50
+  }
+});
+
+interface MermaidDiagramProps {
+  content: string;
+  heading: string;
+  customDiagram?: CustomDiagram;
+  onCustomDiagramChange?: (diagram: CustomDiagram | null) => void;
+  chartMapping?: ChartMapping;
+  onChartMappingChange?: (mapping: ChartMapping | null) => void;
+}
+
+export default function MermaidDiagram({
+  content,
+  heading,
+  customDiagram,
+  onCustomDiagramChange,
+  chartMapping,
+  onChartMappingChange
+}: MermaidDiagramProps) {
+  const elementRef = useRef<HTMLDivElement>(null);
+  const [diagram, setDiagram] = useState<GeneratedDiagram | null>(null);
+  const [diagramId] = useState(`mermaid-${Math.random().toString(36).substring(2, 9)}`);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isMappingData, setIsMappingData] = useState(false);
+  const customCode = customDiagram?.code;
+  const dataTables = useMemo(() => findDataTables(content), [content]);
+  // Compared by value so a re-created but identical mapping doesn't re-render the chart
+  const chartMappingKey = chartMapping ? JSON.stringify(chartMapping) : '';
+
+  useEffect(() => {
+    if (!content && !customCode) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    // Until the new diagram renders, the old one's code no longer matches the section
+    elementRef.current?.removeAttribute(DIAGRAM_CODE_ATTRIBUTE);
+
+    const generateAndValidate = async () => {
+      // Tables, figures and chronologies are charted directly; everything else goes to the model
+      const mapping: ChartMapping | undefined = chartMappingKey ? JSON.parse(chartMappingKey) : undefined;
+      const generated = generateDataDiagram({ heading, content, chartMapping: mapping })
+        ?? generateTimelineDiagram({ heading, content })
+        ?? (await generateDiagram({ heading, content }));
+      const validated = await validateDiagram(generated, { heading, content });
+      if (!cancelled) setDiagram(validated);
+      return validated.code;
+    };
+
+    const renderDiagram = async () => {
+      try {
+        // Hand-edited code is rendered as written; only generated code gets repaired
+        const code = stripClickDirectives(customCode ?? (await generateAndValidate()));
+        const { svg } = await mermaid.render(diagramId, code);
+
+        if (cancelled) return;
+        if (elementRef.current) {
+          elementRef.current.innerHTML = svg;
+          // Exporters re-render diagrams from the exact code shown here
+          elementRef.current.setAttribute(DIAGRAM_CODE_ATTRIBUTE, code);
+          setIsLoading(false);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error rendering diagram:', err);
+        elementRef.current?.removeAttribute(DIAGRAM_CODE_ATTRIBUTE);
+        setError(customCode ? 'Failed to render your diagram. Edit it to fix the syntax.' : 'Failed to render diagram');
+        setIsLoading(false);
+      }
+    };
+
+    renderDiagram();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [content, heading, diagramId, customCode, chartMappingKey]);
+
+  const handleSave = (edited: CustomDiagram) => {
+    onCustomDiagramChange?.(edited);
+    setIsEditing(false);
+  };
+
+  const handleReset = () => {
+    onCustomDiagramChange?.(null);
+    setIsEditing(false);
+  };
+
+  const handleMappingSave = (mapping: ChartMapping) => {
+    onChartMappingChange?.(mapping);
+    setIsMappingData(false);
+  };
+
+  const handleMappingReset = () => {
+    onChartMappingChange?.(null);
+    setIsMappingData(false);
+  };
+
+  const initialMapping = (chartMapping && dataTables[chartMapping.tableIndex] ? chartMapping : null)
+    ?? suggestDefaultMapping(dataTables);
+  const canMapData = !!onChartMappingChange && !customDiagram && !!initialMapping;
+
+  return (
+    <div className="mermaid-diagram p-4 bg-white rounded-lg shadow">
+      {onCustomDiagramChange && !isEditing && !isMappingData && !isLoading && (
+        <div className="flex justify-end gap-2 mb-2">
+          {canMapData && (
+            <button
+              onClick={() => setIsMappingData(true)}
+              className="px-3 py-1 text-xs text-blue-700 bg-blue-50 rounded hover:bg-blue-100"
+            >
+              Chart data
+            </button>
+          )}
+          <button
+            onClick={() => setIsEditing(true)}
+            className="px-3 py-1 text-xs text-blue-700 bg-blue-50 rounded hover:bg-blue-100"
+          >
+            Edit diagram
+          </button>
+        </div>
+      )}
+      {isMappingData && initialMapping && (
+        <ChartMappingEditor
+          tables={dataTables}
+          initialMapping={initialMapping}
+          isCustomized={!!chartMapping}
+          onSave={handleMappingSave}
+          onReset={handleMappingReset}
+          onCancel={() => setIsMappingData(false)}
+        />
+      )}
+      {isEditing && (
+        <DiagramEditor
+          section={{ heading, content }}
+          initialType={customDiagram?.type ?? diagram?.type ?? 'flowchart'}
+          initialCode={customDiagram?.code ?? diagram?.code ?? buildDiagramTemplate('flowchart', { heading, content })}
+          isCustomized={!!customDiagram}
+          onSave={handleSave}
+          onReset={handleReset}
+          onCancel={() => setIsEditing(false)}
+        />
+      )}
+      {isLoading && !isEditing && (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+      {error && !isEditing && (
+        <div className="text-red-500 text-center p-4">
+          {error}
+        </div>
+      )}
+      <div ref={elementRef} className={`mermaid-container flex justify-center ${isLoading || isEditing ? 'hidden' : ''}`}></div>
+      {!isLoading && !error && !isEditing && customDiagram && (
+        <p className="mt-2 text-xs text-gray-500">
+          <span className="font-medium">{DIAGRAM_TYPE_LABELS[customDiagram.type]}</span> · edited by hand
+        </p>
+      )}
+      {diagram && !isLoading && !error && !isEditing && !customDiagram && (
+        <div className="mt-2 text-xs text-gray-500">
+          <p title={diagram.rationale}>
+            <span className="font-medium">{DIAGRAM_TYPE_LABELS[diagram.type]}</span>
+            {diagram.source === 'heuristic' ? ' · offline fallback' : ` · ${diagram.rationale}`}
+          </p>
+          {diagram.fallbackFrom && (
+            <p className="text-amber-600">
+              The generated {DIAGRAM_TYPE_LABELS[diagram.fallbackFrom].toLowerCase()} could not be rendered, so a simpler diagram is shown.
+            </p>
+          )}
+          {diagram.repairs && diagram.repairs.length > 0 && (
+            <p className="text-amber-600">Auto-repaired: {describeRepairs(diagram.repairs).join(', ')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
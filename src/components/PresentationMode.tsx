@@ -0,0 +1,246 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight, LayoutGrid, Maximize, NotebookText, X } from 'lucide-react';
+import { Slide } from '@/lib/types';
+import SlideDiagram from './SlideDiagram';
+
+interface PresentationModeProps {
+  title: string;
+  slides: Slide[];
+  onClose: () => void;
+}
+
+// Keys sent by keyboards and presentation clickers, which mostly emulate Page Up and Page Down
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'];
+
+const formatElapsed = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const keyPointVariants = {
+  hidden: { opacity: 0, y: 12 },
+  visible: (index: number) => ({ opacity: 1, y: 0, transition: { delay: 0.15 + index * 0.12 } }),
+};
+
+// Full-screen slides, one per section, with diagrams revealed a node at a time
+export default function PresentationMode({ title, slides, onClose }: PresentationModeProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(0);
+  // Revealed diagram steps on the current slide; past the end means fully revealed
+  const [step, setStep] = useState(0);
+  const [direction, setDirection] = useState(1);
+  const [stepCounts, setStepCounts] = useState<Record<number, number>>({});
+  const [showNotes, setShowNotes] = useState(false);
+  const [showOverview, setShowOverview] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  const slide = slides[index];
+  const lastStep = (stepCounts[index] ?? 1) - 1;
+  const currentStep = Math.min(step, lastStep);
+
+  const goTo = useCallback((target: number, revealAll = false) => {
+    if (target < 0 || target >= slides.length) return;
+    setDirection(target >= index ? 1 : -1);
+    setIndex(target);
+    setStep(revealAll ? Number.MAX_SAFE_INTEGER : 0);
+    setShowOverview(false);
+  }, [index, slides.length]);
+
+  const next = useCallback(() => {
+    if (currentStep < lastStep) {
+      setStep(currentStep + 1);
+    } else {
+      goTo(index + 1);
+    }
+  }, [currentStep, lastStep, goTo, index]);
+
+  // Going back steps out of the reveal first, then lands on the previous slide fully revealed
+  const previous = useCallback(() => {
+    if (currentStep > 0) {
+      setStep(currentStep - 1);
+    } else {
+      goTo(index - 1, true);
+    }
+  }, [currentStep, goTo, index]);
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      containerRef.current?.requestFullscreen?.().catch(() => {});
+    }
+  }, []);
+
+  useEffect(() => {
+    // Opening the presentation counts as the user gesture fullscreen needs
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+    const timer = setInterval(() => setElapsed(seconds => seconds + 1), 1000);
+    return () => {
+      clearInterval(timer);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.key === 'Escape') {
+        if (showOverview) setShowOverview(false);
+        else onClose();
+      } else if (e.key === 'o' || e.key === 'g') {
+        setShowOverview(open => !open);
+      } else if (e.key === 's' || e.key === 'n') {
+        setShowNotes(open => !open);
+      } else if (e.key === 'f') {
+        toggleFullscreen();
+      } else if (showOverview) {
+        return;
+      } else if (e.key === 'Home') {
+        goTo(0);
+      } else if (e.key === 'End') {
+        goTo(slides.length - 1, true);
+      } else if (e.key === ' ' && e.shiftKey) {
+        previous();
+      } else if (NEXT_KEYS.includes(e.key)) {
+        next();
+      } else if (PREVIOUS_KEYS.includes(e.key)) {
+        previous();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [showOverview, onClose, toggleFullscreen, goTo, next, previous, slides.length]);
+
+  const handleStepCount = useCallback((slideIndex: number, count: number) => {
+    setStepCounts(prev => (prev[slideIndex] === count ? prev : { ...prev, [slideIndex]: count }));
+  }, []);
+
+  if (!slide) return null;
+
+  return (
+    <div ref={containerRef} className="fixed inset-0 z-50 flex flex-col bg-gray-900 text-gray-100">
+      <div className="flex items-center justify-between px-6 py-3 text-sm text-gray-400">
+        <span className="truncate">{title}</span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setShowOverview(open => !open)} title="Overview (O)" className="p-2 rounded hover:bg-gray-800 hover:text-white">
+            <LayoutGrid className="w-5 h-5" />
+          </button>
+          <button onClick={() => setShowNotes(open => !open)} title="Speaker notes (S)" className="p-2 rounded hover:bg-gray-800 hover:text-white">
+            <NotebookText className="w-5 h-5" />
+          </button>
+          <button onClick={toggleFullscreen} title="Full screen (F)" className="p-2 rounded hover:bg-gray-800 hover:text-white">
+            <Maximize className="w-5 h-5" />
+          </button>
+          <button onClick={onClose} title="Exit (Esc)" className="p-2 rounded hover:bg-gray-800 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {showOverview ? (
+        <div className="flex-1 overflow-y-auto px-6 pb-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+            {slides.map((overviewSlide, slideIndex) => (
+              <button
+                key={overviewSlide.sectionIndex}
+                onClick={() => goTo(slideIndex)}
+                className={`flex flex-col aspect-video p-3 text-left bg-white text-gray-900 rounded-lg overflow-hidden ring-offset-2 ring-offset-gray-900 hover:ring-2 hover:ring-blue-400 ${
+                  slideIndex === index ? 'ring-2 ring-blue-500' : ''
+                }`}
+              >
+                <span className="text-xs text-gray-400">{slideIndex + 1}</span>
+                <span className="text-sm font-semibold line-clamp-2">{overviewSlide.heading}</span>
+                {overviewSlide.diagramCode ? (
+                  <div className="flex-1 min-h-0 mt-2 pointer-events-none">
+                    <SlideDiagram code={overviewSlide.diagramCode} step={Number.MAX_SAFE_INTEGER} animated={false} />
+                  </div>
+                ) : (
+                  <span className="mt-2 text-xs text-gray-500 line-clamp-4">{overviewSlide.keyPoints.join(' ')}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 flex items-center justify-center px-6 pb-4">
+          <div className="relative w-full max-w-[calc((100vh-10rem)*16/9)] aspect-video overflow-hidden rounded-lg bg-white text-gray-900 shadow-2xl">
+            <AnimatePresence initial={false} custom={direction} mode="wait">
+              <motion.div
+                key={index}
+                custom={direction}
+                initial={{ opacity: 0, x: direction * 80 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: direction * -80 }}
+                transition={{ duration: 0.3, ease: 'easeOut' }}
+                className="absolute inset-0 flex flex-col p-[4%]"
+              >
+                <h2 className={`font-bold text-gray-900 ${slide.depth === 1 ? 'text-4xl' : 'text-3xl'}`}>{slide.heading}</h2>
+                <div className={`flex-1 min-h-0 mt-6 flex gap-8 ${slide.diagramCode ? '' : 'items-center'}`}>
+                  {slide.keyPoints.length > 0 && (
+                    <ul className={`space-y-3 ${slide.diagramCode ? 'w-2/5 text-lg' : 'w-full text-2xl space-y-5'}`}>
+                      {slide.keyPoints.map((point, pointIndex) => (
+                        <motion.li
+                          key={pointIndex}
+                          custom={pointIndex}
+                          variants={keyPointVariants}
+                          initial="hidden"
+                          animate="visible"
+                          className="flex gap-3 text-gray-700"
+                        >
+                          <span className="mt-[0.6em] h-2 w-2 flex-shrink-0 rounded-full bg-blue-500" />
+                          <span>{point}</span>
+                        </motion.li>
+                      ))}
+                    </ul>
+                  )}
+                  {slide.diagramCode && (
+                    <div className="flex-1 min-w-0">
+                      <SlideDiagram
+                        code={slide.diagramCode}
+                        step={currentStep}
+                        onStepCount={count => handleStepCount(index, count)}
+                      />
+                    </div>
+                  )}
+                </div>
+              </motion.div>
+            </AnimatePresence>
+          </div>
+        </div>
+      )}
+
+      {showNotes && !showOverview && (
+        <div className="h-48 flex-shrink-0 flex gap-6 border-t border-gray-700 bg-gray-800 px-6 py-4">
+          <div className="flex-1 overflow-y-auto whitespace-pre-line text-base leading-relaxed text-gray-200">
+            {slide.notes || <span className="text-gray-500">No notes for this slide.</span>}
+          </div>
+          <div className="w-56 flex-shrink-0 space-y-2 text-sm text-gray-400">
+            <p className="text-2xl font-mono text-gray-100">{formatElapsed(elapsed)}</p>
+            {slides[index + 1] && <p>Next: <span className="text-gray-200">{slides[index + 1].heading}</span></p>}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4 px-6 py-3 text-sm text-gray-400">
+        <button onClick={previous} disabled={index === 0 && currentStep === 0} className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-30">
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <div className="flex-1 h-1 rounded bg-gray-700">
+          <div className="h-1 rounded bg-blue-500 transition-all" style={{ width: `${((index + 1) / slides.length) * 100}%` }} />
+        </div>
+        <span className="tabular-nums">
+          {index + 1} / {slides.length}
+          {lastStep > 0 && <span className="ml-2 text-gray-500">({currentStep + 1}/{lastStep + 1})</span>}
+        </span>
+        <button onClick={next} disabled={index === slides.length - 1 && currentStep === lastStep} className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-30">
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { createContext, useContext, useMemo, useState } from 'react';
+import ReactMarkdown, { Components, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkFrontmatter from 'remark-frontmatter';
+import rehypeHighlight from 'rehype-highlight';
+import 'highlight.js/styles/github.css';
+import { AnimationSection, ChartMapping, CustomDiagram, Source } from '@/lib/types';
+import { remarkSectionDiagrams } from '@/lib/markdown/remarkSectionDiagrams';
+import { sourceElementId, sourceMarker, sourcesForSection } from '@/lib/markdown/citations';
+import { DiagramNode, diagramNodeAt } from '@/lib/comments/anchors';
+import MermaidDiagram from './MermaidDiagram';
+
+interface ReportDocumentProps {
+  markdown: string;
+  sections: AnimationSection[];
+  sources?: Source[];
+  onCustomDiagramChange?: (index: number, diagram: CustomDiagram | null) => void;
+  onChartMappingChange?: (index: number, mapping: ChartMapping | null) => void;
+  // Names of the other people looking at each section, by section index
+  sectionViewers?: Record<number, string[]>;
+  // Unresolved review threads on each section, by section index
+  openThreadCounts?: Record<number, number>;
+  // Starts a review thread on a section, or on one node of its diagram
+  onComment?: (index: number, node: DiagramNode | null) => void;
+  onShowComments?: (index: number) => void;
+}
+
+interface SectionDiagramContextType {
+  sections: AnimationSection[];
+  sources: Source[];
+  onCustomDiagramChange?: (index: number, diagram: CustomDiagram | null) => void;
+  onChartMappingChange?: (index: number, mapping: ChartMapping | null) => void;
+  sectionViewers: Record<number, string[]>;
+  openThreadCounts: Record<number, number>;
+  onComment?: (index: number, node: DiagramNode | null) => void;
+  onShowComments?: (index: number) => void;
+  // The section whose diagram is waiting for a node to be clicked to comment on
+  pickingSection: number | null;
+  setPickingSection: (index: number | null) => void;
+}
+
+// Passed through context so the markdown components can stay stable between renders;
+// new component functions would remount every diagram on each edit
+const SectionDiagramContext = createContext<SectionDiagramContextType>({
+  sections: [],
+  sources: [],
+  sectionViewers: {},
+  openThreadCounts: {},
+  pickingSection: null,
+  setPickingSection: () => {},
+});
+
+const SectionDiagram = ({ index }: { index: number }) => {
+  const {
+    sections,
+    sources,
+    onCustomDiagramChange,
+    onChartMappingChange,
+    sectionViewers,
+    openThreadCounts,
+    onComment,
+    onShowComments,
+    pickingSection,
+    setPickingSection
+  } = useContext(SectionDiagramContext);
+  const section = sections[index];
+  if (!section) return null;
+  const sectionSources = sourcesForSection(sources, index);
+  const viewers = sectionViewers[index] ?? [];
+  const openThreads = openThreadCounts[index] ?? 0;
+  const isPicking = pickingSection === index;
+
+  // Clicks on the diagram pick the node under them instead of doing what they normally would
+  const handlePick = (e: React.MouseEvent) => {
+    const node = diagramNodeAt(e.target as Element);
+    if (!node || !onComment) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setPickingSection(null);
+    onComment(index, node);
+  };
+
+  return (
+    <div className="not-prose mt-4 mb-6 space-y-4 bg-gray-50 p-4 rounded-lg" data-diagram-section={index}>
+      {viewers.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+          <span>Viewing:</span>
+          {viewers.map(name => (
+            <span key={name} className="px-1.5 py-0.5 text-purple-800 bg-purple-100 rounded">{name}</span>
+          ))}
+        </div>
+      )}
+      {onComment && (
+        <div className="flex flex-wrap items-center justify-end gap-2 text-xs">
+          {openThreads > 0 && (
+            <button
+              onClick={() => onShowComments?.(index)}
+              className="px-2 py-1 text-amber-800 bg-amber-100 rounded hover:bg-amber-200"
+            >
+              {openThreads} open {openThreads === 1 ? 'comment' : 'comments'}
+            </button>
+          )}
+          <button
+            onClick={() => onComment(index, null)}
+            className="px-3 py-1 text-blue-700 bg-blue-50 rounded hover:bg-blue-100"
+          >
+            Comment
+          </button>
+          <button
+            onClick={() => setPickingSection(isPicking ? null : index)}
+            className="px-3 py-1 text-blue-700 bg-blue-50 rounded hover:bg-blue-100"
+          >
+            {isPicking ? 'Cancel' : 'Comment on a node'}
+          </button>
+        </div>
+      )}
+      {isPicking && <p className="text-xs text-blue-700">Click a node in the diagram to comment on it.</p>}
+      <div onClickCapture={isPicking ? handlePick : undefined} className={isPicking ? 'cursor-crosshair' : undefined}>
+        <MermaidDiagram
+          content={section.content}
+          heading={section.heading}
+          customDiagram={section.customDiagram}
+          onCustomDiagramChange={onCustomDiagramChange && ((diagram) => onCustomDiagramChange(index, diagram))}
+          chartMapping={section.chartMapping}
+          onChartMappingChange={onChartMappingChange && ((mapping) => onChartMappingChange(index, mapping))}
+        />
+      </div>
+      {sectionSources.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+          <span>Sources:</span>
+          {sectionSources.map(source => (
+            <a
+              key={source.id}
+              href={`#${sourceElementId(source)}`}
+              title={source.url ? `${source.title} (${source.url})` : source.title}
+              className="px-1.5 py-0.5 font-mono text-blue-700 bg-blue-50 rounded hover:bg-blue-100"
+            >
+              {sourceMarker(source)}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const components: Components = {
+  div: ({ node, ...props }) => {
+    const sectionIndex = node?.properties?.dataSectionIndex;
+    if (sectionIndex !== undefined) {
+      return <SectionDiagram index={Number(sectionIndex)} />;
+    }
+    return <div {...props} />;
+  },
+  a: ({ node, ...props }) =>
+    props.href?.startsWith('#') ? <a {...props} /> : <a {...props} target="_blank" rel="noopener noreferrer" />,
+};
+
+export default function ReportDocument({
+  markdown,
+  sections,
+  sources = [],
+  onCustomDiagramChange,
+  onChartMappingChange,
+  sectionViewers = {},
+  openThreadCounts = {},
+  onComment,
+  onShowComments
+}: ReportDocumentProps) {
+  const [pickingSection, setPickingSection] = useState<number | null>(null);
+  const remarkPlugins = useMemo<Options['remarkPlugins']>(
+    () => [remarkGfm, remarkFrontmatter, [remarkSectionDiagrams, { sections }]],
+    [sections]
+  );
+
+  return (
+    <SectionDiagramContext.Provider
+      value={{
+        sections,
+        sources,
+        onCustomDiagramChange,
+        onChartMappingChange,
+        sectionViewers,
+        openThreadCounts,
+        onComment,
+        onShowComments,
+        pickingSection,
+        setPickingSection
+      }}
+    >
+      <div className="prose prose-slate max-w-none prose-pre:bg-gray-50 prose-pre:text-gray-800 prose-pre:border prose-pre:border-gray-200 prose-table:text-sm">
+        <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={[rehypeHighlight]} components={components}>
+          {markdown}
+        </ReactMarkdown>
+      </div>
+    </SectionDiagramContext.Provider>
+  );
+}
@@ -0,0 +1,344 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Library, Report, ReportFilters, ReportSort } from '@/lib/types';
+import { ReportCursor, getReportRepository } from '@/lib/storage/reportRepository';
+import { parseTags } from '@/lib/library/search';
+
+interface ReportLibraryProps {
+  userId: string;
+  selectedReportId?: string;
+  // Bumped by the page after a save, restore or delete so the first page is read again
+  refreshKey: number;
+  onLoad: (report: Report) => void;
+  onDelete: (reportId: string) => Promise<void>;
+}
+
+const SORT_LABELS: Record<ReportSort, string> = {
+  updatedAt: 'Recently updated',
+  createdAt: 'Recently created',
+  title: 'Title',
+  diagramCount: 'Most diagrams',
+};
+
+const DATE_FILTERS = [
+  { label: 'Any time', days: 0 },
+  { label: 'Past week', days: 7 },
+  { label: 'Past month', days: 30 },
+  { label: 'Past year', days: 365 },
+];
+
+const DIAGRAM_FILTERS = [0, 1, 5, 10];
+
+const selectClassName = 'border border-gray-300 rounded px-2 py-1 text-sm bg-white';
+
+// Searchable, filterable list of a user's reports, read a page at a time
+export default function ReportLibrary({ userId, selectedReportId, refreshKey, onLoad, onDelete }: ReportLibraryProps) {
+  const [library, setLibrary] = useState<Library>({ tags: [], folders: [] });
+  const [filters, setFilters] = useState<ReportFilters>({ sort: 'updatedAt' });
+  const [searchInput, setSearchInput] = useState('');
+  const [reports, setReports] = useState<Report[]>([]);
+  const [cursor, setCursor] = useState<ReportCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isIndexed, setIsIndexed] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
+  const [folderInput, setFolderInput] = useState('');
+  const [isSavingInfo, setIsSavingInfo] = useState(false);
+
+  // Also indexes reports saved before the library existed, so it has to finish before the first query
+  useEffect(() => {
+    let cancelled = false;
+    getReportRepository()
+      .then(repository => repository.getLibrary(userId))
+      .then(loaded => {
+        if (!cancelled) setLibrary(loaded);
+      })
+      .catch(err => console.error('Error loading library:', err))
+      .finally(() => {
+        if (!cancelled) setIsIndexed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!isIndexed) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getReportRepository()
+      .then(repository => repository.queryReports(userId, filters))
+      .then(page => {
+        if (cancelled) return;
+        setReports(page.reports);
+        setCursor(page.cursor);
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        setError(err.message);
+        setReports([]);
+        setCursor(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, filters, refreshKey, isIndexed]);
+
+  const handleLoadMore = async () => {
+    if (!cursor) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await (await getReportRepository()).queryReports(userId, filters, cursor);
+      setReports(prev => [...prev, ...page.reports]);
+      setCursor(page.cursor);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const updateFilters = (changes: Partial<ReportFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ search: searchInput.trim() || undefined });
+  };
+
+  const startEditing = (report: Report) => {
+    setEditingId(report.id ?? null);
+    setTagsInput((report.tags ?? []).join(', '));
+    setFolderInput(report.folder ?? '');
+  };
+
+  const handleSaveInfo = async (report: Report) => {
+    if (!report.id) return;
+    const tags = parseTags(tagsInput);
+    const folder = folderInput.trim() || undefined;
+
+    setIsSavingInfo(true);
+    try {
+      await (await getReportRepository()).updateReportLibraryInfo(report.id, userId, { tags, folder });
+      setReports(prev => prev.map(r => (r.id === report.id ? { ...r, tags, folder } : r)));
+      setLibrary(prev => ({
+        tags: Array.from(new Set([...prev.tags, ...tags])).sort(),
+        folders: folder ? Array.from(new Set([...prev.folders, folder])).sort() : prev.folders,
+      }));
+      setEditingId(null);
+    } catch (err) {
+      console.error('Error updating tags and folder:', err);
+      setError('Failed to update tags and folder');
+    } finally {
+      setIsSavingInfo(false);
+    }
+  };
+
+  const hasFilters = Boolean(filters.search || filters.tag || filters.folder || filters.updatedWithinDays || filters.minDiagrams);
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search titles and content"
+          className="flex-1 border border-gray-300 rounded px-3 py-1.5 text-sm"
+        />
+        <button type="submit" className="px-4 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700">
+          Search
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={filters.folder ?? ''}
+          onChange={(e) => updateFilters({ folder: e.target.value || undefined })}
+          className={selectClassName}
+        >
+          <option value="">All folders</option>
+          {library.folders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+        </select>
+        <select
+          value={filters.tag ?? ''}
+          onChange={(e) => updateFilters({ tag: e.target.value || undefined })}
+          className={selectClassName}
+        >
+          <option value="">All tags</option>
+          {library.tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+        <select
+          value={filters.updatedWithinDays ?? 0}
+          onChange={(e) => updateFilters({ updatedWithinDays: Number(e.target.value) || undefined })}
+          className={selectClassName}
+        >
+          {DATE_FILTERS.map(({ label, days }) => <option key={days} value={days}>{label}</option>)}
+        </select>
+        <select
+          value={filters.minDiagrams ?? 0}
+          onChange={(e) => updateFilters({ minDiagrams: Number(e.target.value) || undefined })}
+          className={selectClassName}
+        >
+          {DIAGRAM_FILTERS.map(count => (
+            <option key={count} value={count}>{count === 0 ? 'Any number of diagrams' : `${count}+ diagrams`}</option>
+          ))}
+        </select>
+        <select
+          value={filters.sort}
+          onChange={(e) => updateFilters({ sort: e.target.value as ReportSort })}
+          className={`${selectClassName} ml-auto`}
+        >
+          {Object.entries(SORT_LABELS).map(([sort, label]) => <option key={sort} value={sort}>{label}</option>)}
+        </select>
+        {hasFilters && (
+          <button
+            onClick={() => {
+              setSearchInput('');
+              setFilters({ sort: filters.sort });
+            }}
+            className="text-blue-600 hover:text-blue-800 underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : error ? (
+        <div className="text-red-500 text-center py-4">{error}</div>
+      ) : reports.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">
+          {hasFilters ? 'No reports match these filters' : 'No reports yet. Create a new report to get started.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {reports.map(report => (
+            <div
+              key={report.id}
+              className={`p-4 rounded-lg ${report.id === selectedReportId ? 'bg-blue-50' : 'bg-gray-50'}`}
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-medium truncate">{report.title}</h3>
+                  <p className="text-sm text-gray-500">
+                    Updated {report.updatedAt.toLocaleDateString()}
+                    {report.version ? ` · version ${report.version}` : ''}
+                    {` · ${report.diagramCount} ${report.diagramCount === 1 ? 'diagram' : 'diagrams'}`}
+                  </p>
+                  {(report.folder || (report.tags ?? []).length > 0) && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {report.folder && (
+                        <button
+                          onClick={() => updateFilters({ folder: report.folder })}
+                          className="px-2 py-0.5 text-xs text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+                        >
+                          {report.folder}
+                        </button>
+                      )}
+                      {report.tags?.map(tag => (
+                        <button
+                          key={tag}
+                          onClick={() => updateFilters({ tag })}
+                          className="px-2 py-0.5 text-xs text-blue-800 bg-blue-100 rounded-full hover:bg-blue-200"
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => onLoad(report)}
+                    className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700"
+                  >
+                    Load
+                  </button>
+                  <button
+                    onClick={() => (editingId === report.id ? setEditingId(null) : startEditing(report))}
+                    className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+                  >
+                    Organize
+                  </button>
+                  <button
+                    onClick={() => report.id && onDelete(report.id)}
+                    className="px-3 py-1 text-sm text-white bg-red-600 rounded hover:bg-red-700"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {editingId === report.id && (
+                <div className="mt-3 flex flex-wrap items-end gap-2 text-sm">
+                  <label className="flex flex-col gap-1">
+                    <span className="text-gray-600">Folder</span>
+                    <input
+                      value={folderInput}
+                      onChange={(e) => setFolderInput(e.target.value)}
+                      list={`folders-${report.id}`}
+                      placeholder="None"
+                      className="border border-gray-300 rounded px-2 py-1"
+                    />
+                    <datalist id={`folders-${report.id}`}>
+                      {library.folders.map(folder => <option key={folder} value={folder} />)}
+                    </datalist>
+                  </label>
+                  <label className="flex flex-col gap-1 flex-1 min-w-[12rem]">
+                    <span className="text-gray-600">Tags, separated by commas</span>
+                    <input
+                      value={tagsInput}
+                      onChange={(e) => setTagsInput(e.target.value)}
+                      placeholder={library.tags.slice(0, 3).join(', ') || 'energy, policy'}
+                      className="border border-gray-300 rounded px-2 py-1"
+                    />
+                  </label>
+                  <button
+                    onClick={() => handleSaveInfo(report)}
+                    disabled={isSavingInfo}
+                    className="px-3 py-1 text-white bg-green-600 rounded hover:bg-green-700 disabled:bg-green-400"
+                  >
+                    {isSavingInfo ? 'Saving...' : 'Save'}
+                  </button>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {cursor && (
+            <div className="flex justify-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+                className="px-4 py-2 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+              >
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
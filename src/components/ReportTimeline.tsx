@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import mermaid from 'mermaid';
+import { AnimationSection, DIAGRAM_TYPE_LABELS } from '@/lib/types';
+import { buildReportTimeline } from '@/lib/diagrams/timeline';
+
+interface ReportTimelineProps {
+  sections: AnimationSection[];
+  title: string;
+}
+
+// Whole-report chronology built from the dated events in every section
+export default function ReportTimeline({ sections, title }: ReportTimelineProps) {
+  const elementRef = useRef<HTMLDivElement>(null);
+  const [diagramId] = useState(`mermaid-timeline-${Math.random().toString(36).substring(2, 9)}`);
+  const [error, setError] = useState<string | null>(null);
+  const timeline = buildReportTimeline(sections, title || 'Report timeline');
+  const code = timeline?.code;
+
+  useEffect(() => {
+    if (!code) return;
+    let cancelled = false;
+
+    mermaid.render(diagramId, code)
+      .then(({ svg }) => {
+        if (cancelled || !elementRef.current) return;
+        elementRef.current.innerHTML = svg;
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error rendering report timeline:', err);
+        setError('Failed to render the report timeline');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, diagramId]);
+
+  if (!timeline) {
+    return (
+      <p className="text-sm text-gray-500 text-center p-4">
+        No dated events were found in this report.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mermaid-diagram p-4 bg-white rounded-lg shadow">
+      {error ? (
+        <div className="text-red-500 text-center p-4">{error}</div>
+      ) : (
+        <div ref={elementRef} className="mermaid-container flex justify-center"></div>
+      )}
+      <p className="mt-2 text-xs text-gray-500">
+        <span className="font-medium">{DIAGRAM_TYPE_LABELS[timeline.type]}</span> · dated events from every section, in order
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useState } from 'react';
+import { AnimationSection, CommentAnchor, CommentThread } from '@/lib/types';
+import { sectionElementId } from '@/lib/markdown/remarkSectionDiagrams';
+import { partialMention, splitMentions } from '@/lib/comments/mentions';
+import { normalizeEmail } from '@/lib/collaboration/collaborators';
+
+type ThreadFilter = 'open' | 'resolved' | 'mentions';
+
+const FILTER_LABELS: Record<ThreadFilter, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  mentions: 'Mentioning you',
+};
+
+interface ReviewSidebarProps {
+  threads: CommentThread[];
+  sections: AnimationSection[];
+  // Where each thread's section is now, by thread id; null once it can't be found with confidence
+  threadSections: Record<string, number | null>;
+  // The section or diagram node a new thread is being started on
+  newThread: { sectionIndex: number; anchor: CommentAnchor } | null;
+  // Only this section's threads are listed while it's set
+  focusedSection: number | null;
+  // Emails that can be @mentioned
+  people: string[];
+  userEmail: string | null;
+  canDelete: (thread: CommentThread) => boolean;
+  onCreate: (body: string) => Promise<void>;
+  onCancelNew: () => void;
+  onReply: (thread: CommentThread, body: string) => Promise<void>;
+  onResolve: (thread: CommentThread, resolved: boolean) => Promise<void>;
+  onDelete: (thread: CommentThread) => Promise<void>;
+  onClearFocus: () => void;
+}
+
+const scrollToSection = (index: number) =>
+  document.getElementById(sectionElementId(index))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+
+const anchorLabel = (anchor: CommentAnchor, sectionIndex: number | null, sections: AnimationSection[]) => {
+  const heading = (sectionIndex !== null && sections[sectionIndex]?.heading) || anchor.heading;
+  return anchor.nodeLabel ? `${heading} · ${anchor.nodeLabel}` : heading;
+};
+
+const CommentBody = ({ body }: { body: string }) => (
+  <p className="whitespace-pre-wrap break-words text-gray-800">
+    {splitMentions(body).map((part, index) =>
+      part.mention ? <span key={index} className="font-medium text-blue-700">{part.text}</span> : part.text
+    )}
+  </p>
+);
+
+interface CommentComposerProps {
+  people: string[];
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// A comment box that suggests people to mention after an @
+const CommentComposer = ({ people, placeholder, submitLabel, onSubmit, onCancel }: CommentComposerProps) => {
+  const [body, setBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const typed = partialMention(body);
+  const suggestions = typed === null ? [] : people.filter(email => email.includes(typed.toLowerCase())).slice(0, 5);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) return;
+    setIsSending(true);
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+    } catch {
+      // Reported by the caller; the text stays so it can be sent again
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit();
+        }}
+        placeholder={placeholder}
+        rows={3}
+        className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map(email => (
+            <button
+              key={email}
+              onClick={() => setBody(body.replace(/@[^\s]*$/, `@${email} `))}
+              className="px-2 py-0.5 text-xs text-blue-800 bg-blue-50 rounded hover:bg-blue-100"
+            >
+              @{email}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button onClick={onCancel} className="px-3 py-1 text-xs text-gray-700 bg-gray-200 rounded hover:bg-gray-300">
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={handleSubmit}
+          disabled={isSending || !body.trim()}
+          className="px-3 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {isSending ? 'Sending...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Review threads on the report's sections and diagram nodes, with replies and resolving
+export default function ReviewSidebar({
+  threads,
+  sections,
+  threadSections,
+  newThread,
+  focusedSection,
+  people,
+  userEmail,
+  canDelete,
+  onCreate,
+  onCancelNew,
+  onReply,
+  onResolve,
+  onDelete,
+  onClearFocus
+}: ReviewSidebarProps) {
+  const [filter, setFilter] = useState<ThreadFilter>('open');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const mentionedEmail = userEmail ? normalizeEmail(userEmail) : null;
+
+  const matchesFilter = (thread: CommentThread) => {
+    if (filter === 'mentions') {
+      return !!mentionedEmail && thread.comments.some(comment => comment.mentions.includes(mentionedEmail));
+    }
+    return thread.resolved === (filter === 'resolved');
+  };
+
+  // In the order of the report, with threads on removed sections last
+  const sectionOrder = (thread: CommentThread) => threadSections[thread.id] ?? Number.MAX_SAFE_INTEGER;
+  const listed = threads
+    .filter(thread => matchesFilter(thread) && (focusedSection === null || threadSections[thread.id] === focusedSection))
+    .sort((a, b) => sectionOrder(a) - sectionOrder(b));
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800">Comments</h2>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as ThreadFilter)}
+          className="border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+        >
+          {Object.entries(FILTER_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      </div>
+
+      {newThread && (
+        <div className="p-3 bg-blue-50 rounded-lg space-y-2">
+          <p className="text-xs text-gray-600">
+            New comment on <span className="font-medium">{anchorLabel(newThread.anchor, newThread.sectionIndex, sections)}</span>
+          </p>
+          <CommentComposer
+            people={people}
+            placeholder="Comment, and @mention people by email"
+            submitLabel="Comment"
+            onSubmit={onCreate}
+            onCancel={onCancelNew}
+          />
+        </div>
+      )}
+
+      {focusedSection !== null && sections[focusedSection] && (
+        <p className="text-xs text-gray-500">
+          Showing comments on {sections[focusedSection].heading}.{' '}
+          <button onClick={onClearFocus} className="text-blue-600 hover:text-blue-800 underline">Show all</button>
+        </p>
+      )}
+
+      {listed.length === 0 ? (
+        <p className="text-gray-500">
+          {filter === 'open' ? 'No open comments. Use Comment on a section to start one.' : 'No comments here.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {listed.map(thread => {
+            const sectionIndex = threadSections[thread.id];
+            return (
+              <li key={thread.id} className={`p-3 rounded-lg border ${thread.resolved ? 'bg-gray-50 border-gray-200' : 'bg-white border-amber-200'}`}>
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  {sectionIndex !== null ? (
+                    <button
+                      onClick={() => scrollToSection(sectionIndex)}
+                      className="text-left text-xs font-medium text-blue-700 hover:text-blue-900"
+                    >
+                      {anchorLabel(thread.anchor, sectionIndex, sections)}
+                    </button>
+                  ) : (
+                    <span className="text-xs text-gray-500" title="The section this was on was removed, or changed too much to be found">
+                      {anchorLabel(thread.anchor, null, sections)} (outdated)
+                    </span>
+                  )}
+                  {thread.resolved && <span className="shrink-0 text-xs text-green-700">Resolved</span>}
+                </div>
+                <div className="space-y-2">
+                  {thread.comments.map(comment => (
+                    <div key={comment.id}>
+                      <p className="text-xs text-gray-500">
+                        <span className="font-medium text-gray-700">{comment.authorName}</span> · {comment.createdAt.toLocaleString()}
+                      </p>
+                      <CommentBody body={comment.body} />
+                    </div>
+                  ))}
+                </div>
+                {replyingTo === thread.id ? (
+                  <div className="mt-2">
+                    <CommentComposer
+                      people={people}
+                      placeholder="Reply"
+                      submitLabel="Reply"
+                      onSubmit={async body => {
+                        await onReply(thread, body);
+                        setReplyingTo(null);
+                      }}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  </div>
+                ) : (
+                  <div className="mt-2 flex gap-2 text-xs">
+                    <button onClick={() => setReplyingTo(thread.id)} className="text-blue-600 hover:text-blue-800">
+                      Reply
+                    </button>
+                    <button onClick={() => onResolve(thread, !thread.resolved)} className="text-blue-600 hover:text-blue-800">
+                      {thread.resolved ? 'Reopen' : 'Resolve'}
+                    </button>
+                    {canDelete(thread) && (
+                      <button onClick={() => onDelete(thread)} className="text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
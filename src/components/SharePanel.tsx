@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Report, ReportShare } from '@/lib/types';
+import { getReportRepository } from '@/lib/storage/reportRepository';
+import { SHARE_EXPIRY_OPTIONS, shareUrl } from '@/lib/sharing/shares';
+
+interface SharePanelProps {
+  // The saved report; links show what was last saved, not unsaved edits
+  report: Report & { id: string };
+}
+
+// Creates read-only links to a report and lists the ones that still work
+export default function SharePanel({ report }: SharePanelProps) {
+  const [shares, setShares] = useState<ReportShare[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getReportRepository()
+      .then(repository => repository.getReportShares(report.id, report.userId))
+      .then(loaded => {
+        if (!cancelled) setShares(loaded);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading shares:', err);
+        setError('Failed to load share links');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [report.id, report.userId]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const expiresAt = expiryDays ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000) : undefined;
+      const share = await (await getReportRepository()).createShare(report.id, report.userId, report, expiresAt);
+      setShares(prev => [share, ...prev]);
+      await handleCopy(share.token);
+    } catch (err) {
+      console.error('Error creating share:', err);
+      setError('Failed to create a share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(current => (current === token ? null : current)), 2000);
+    } catch (err) {
+      console.error('Error copying link:', err);
+    }
+  };
+
+  const handleRevoke = async (token: string) => {
+    if (!window.confirm('Revoke this link? Anyone who has it will no longer be able to open the report.')) return;
+    try {
+      await (await getReportRepository()).revokeShare(token);
+      setShares(prev => prev.filter(share => share.token !== token));
+    } catch (err) {
+      console.error('Error revoking share:', err);
+      setError('Failed to revoke the link');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={expiryDays}
+          onChange={(e) => setExpiryDays(Number(e.target.value))}
+          className="border border-gray-300 rounded px-2 py-1 bg-white"
+        >
+          {SHARE_EXPIRY_OPTIONS.map(({ label, days }) => <option key={days} value={days}>{label}</option>)}
+        </select>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="px-4 py-1 text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-blue-400"
+        >
+          {isCreating ? 'Creating...' : 'Create link'}
+        </button>
+        <span className="text-gray-500">Anyone with the link can view the last saved version without signing in.</span>
+      </div>
+
+      {error && <div className="text-red-500 text-sm">{error}</div>}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        </div>
+      ) : shares.length === 0 ? (
+        <p className="text-sm text-gray-500">No active links.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 bg-white rounded-lg border border-gray-200">
+          {shares.map(share => (
+            <li key={share.token} className="flex flex-wrap items-center gap-2 px-4 py-2 text-sm">
+              <input
+                readOnly
+                value={shareUrl(share.token)}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-[16rem] font-mono text-xs border border-gray-200 rounded px-2 py-1 bg-gray-50"
+              />
+              <span className="text-gray-500">
+                Created {share.createdAt.toLocaleDateString()}
+                {share.expiresAt ? ` · expires ${share.expiresAt.toLocaleString()}` : ' · no expiry'}
+              </span>
+              <button
+                onClick={() => handleCopy(share.token)}
+                className="px-3 py-1 text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+              >
+                {copiedToken === share.token ? 'Copied' : 'Copy'}
+              </button>
+              <button
+                onClick={() => handleRevoke(share.token)}
+                className="px-3 py-1 text-white bg-red-600 rounded hover:bg-red-700"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
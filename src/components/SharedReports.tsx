@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Report } from '@/lib/types';
+import { getReportRepository } from '@/lib/storage/reportRepository';
+import { COLLABORATOR_ROLE_LABELS, normalizeEmail } from '@/lib/collaboration/collaborators';
+
+interface SharedReportsProps {
+  email: string;
+  selectedReportId?: string;
+  // Bumped by the page when the list may have changed, so it's read again
+  refreshKey: number;
+  onLoad: (report: Report) => void;
+}
+
+// Reports other people invited the user to, most recently updated first
+export default function SharedReports({ email, selectedReportId, refreshKey, onLoad }: SharedReportsProps) {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getReportRepository()
+      .then(repository => repository.getSharedReports(email))
+      .then(loaded => {
+        if (!cancelled) setReports(loaded);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading shared reports:', err);
+        setError(err.message || 'Failed to load reports shared with you');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [email, refreshKey]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+  if (error) {
+    return <div className="text-red-500 text-sm">{error}</div>;
+  }
+  if (reports.length === 0) {
+    return <p className="text-sm text-gray-500">No one has invited you to a report yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {reports.map(report => {
+        const role = report.collaborators?.[normalizeEmail(email)];
+        return (
+          <div
+            key={report.id}
+            className={`p-4 rounded-lg ${report.id === selectedReportId ? 'bg-blue-50' : 'bg-gray-50'}`}
+          >
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <h3 className="font-medium truncate">{report.title}</h3>
+                <p className="text-sm text-gray-500">
+                  Updated {report.updatedAt.toLocaleDateString()}
+                  {report.version ? ` · version ${report.version}` : ''}
+                  {role ? ` · ${COLLABORATOR_ROLE_LABELS[role].toLowerCase()}` : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => onLoad(report)}
+                className="shrink-0 px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700"
+              >
+                Open
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import mermaid from 'mermaid';
+import { animate } from 'framer-motion';
+import { revealSteps } from '@/lib/presentation/reveal';
+
+interface SlideDiagramProps {
+  code: string;
+  // Index of the last revealed step; everything from later steps is hidden
+  step: number;
+  // Fade parts in and out as the step changes, rather than showing them at once
+  animated?: boolean;
+  onStepCount?: (count: number) => void;
+}
+
+// Slides and overview thumbnails of the same diagram share one render
+const svgCache = new Map<string, Promise<string>>();
+let renderCount = 0;
+
+const renderSvg = (code: string): Promise<string> => {
+  let svg = svgCache.get(code);
+  if (!svg) {
+    svg = mermaid.render(`slide-diagram-${renderCount++}`, code).then(result => result.svg);
+    svg.catch(() => svgCache.delete(code));
+    svgCache.set(code, svg);
+  }
+  return svg;
+};
+
+// A section's diagram sized to fill its slide, revealed a node at a time
+export default function SlideDiagram({ code, step, animated = true, onStepCount }: SlideDiagramProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stepsRef = useRef<Element[][]>([]);
+  const stepRef = useRef(step);
+  const onStepCountRef = useRef(onStepCount);
+  const [error, setError] = useState(false);
+  stepRef.current = step;
+  onStepCountRef.current = onStepCount;
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(false);
+
+    renderSvg(code)
+      .then(svg => {
+        const container = containerRef.current;
+        if (cancelled || !container) return;
+        container.innerHTML = svg;
+        const element = container.querySelector('svg');
+        if (!element) return;
+
+        // Fit the diagram to the slide, keeping its proportions
+        element.removeAttribute('style');
+        element.setAttribute('width', '100%');
+        element.setAttribute('height', '100%');
+
+        const steps = revealSteps(element);
+        stepsRef.current = steps;
+        steps.forEach((parts, index) => {
+          parts.forEach(part => {
+            (part as SVGElement).style.opacity = index <= stepRef.current ? '1' : '0';
+          });
+        });
+        onStepCountRef.current?.(Math.max(steps.length, 1));
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error rendering slide diagram:', err);
+        setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      stepsRef.current = [];
+    };
+  }, [code]);
+
+  useEffect(() => {
+    stepsRef.current.forEach((parts, index) => {
+      const opacity = index <= step ? 1 : 0;
+      if (animated) {
+        animate(parts, { opacity }, { duration: 0.35, ease: 'easeOut' });
+      } else {
+        parts.forEach(part => {
+          (part as SVGElement).style.opacity = String(opacity);
+        });
+      }
+    });
+  }, [step, animated]);
+
+  if (error) {
+    return <div className="flex h-full items-center justify-center text-sm text-gray-400">Diagram unavailable</div>;
+  }
+  return <div ref={containerRef} className="h-full w-full" />;
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { AnimationSection, Source } from '@/lib/types';
+import { sectionElementId } from '@/lib/markdown/remarkSectionDiagrams';
+import { sourceElementId, sourceMarker } from '@/lib/markdown/citations';
+
+interface SourcesPanelProps {
+  sources: Source[];
+  sections: AnimationSection[];
+}
+
+const scrollToElement = (id: string) => {
+  document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+};
+
+// Every source cited in the report, with links to the sections that cite it
+export default function SourcesPanel({ sources, sections }: SourcesPanelProps) {
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <h2 className="text-lg font-semibold text-gray-800 mb-3">Sources</h2>
+      <ol className="space-y-3 text-sm">
+        {sources.map(source => (
+          <li key={source.id} id={sourceElementId(source)} className="scroll-mt-4">
+            <div className="flex gap-2">
+              <span className="font-mono text-xs text-gray-500 pt-0.5">{sourceMarker(source)}</span>
+              <div className="min-w-0">
+                {source.url ? (
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-700 hover:underline break-words"
+                  >
+                    {source.title}
+                  </a>
+                ) : (
+                  <span className="text-gray-800 break-words">{source.title}</span>
+                )}
+                {source.sectionIndices.length > 0 ? (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Cited in{' '}
+                    {source.sectionIndices.map((index, position) => (
+                      <span key={index}>
+                        {position > 0 && ', '}
+                        <a
+                          href={`#${sectionElementId(index)}`}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            scrollToElement(sectionElementId(index));
+                          }}
+                          className="hover:underline"
+                        >
+                          {sections[index]?.heading}
+                        </a>
+                      </span>
+                    ))}
+                  </p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-400">Not cited in any section</p>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { DiffRow, DiffRowType } from '@/lib/versions/diff';
+
+interface VersionDiffProps {
+  rows: DiffRow[];
+  leftTitle: string;
+  rightTitle: string;
+}
+
+// Unchanged lines kept around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 3;
+
+const LEFT_CLASSES: Record<DiffRowType, string> = {
+  same: '',
+  removed: 'bg-red-50',
+  changed: 'bg-red-50',
+  added: 'bg-gray-50',
+};
+
+const RIGHT_CLASSES: Record<DiffRowType, string> = {
+  same: '',
+  added: 'bg-green-50',
+  changed: 'bg-green-50',
+  removed: 'bg-gray-50',
+};
+
+type DisplayRow = DiffRow | { type: 'fold'; count: number };
+
+const foldUnchanged = (rows: DiffRow[]): DisplayRow[] => {
+  const changed = rows.map(row => row.type !== 'same');
+  const visible = rows.map((_, index) =>
+    changed.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(Boolean));
+
+  const display: DisplayRow[] = [];
+  rows.forEach((row, index) => {
+    if (visible[index]) {
+      display.push(row);
+      return;
+    }
+    const last = display[display.length - 1];
+    if (last?.type === 'fold') {
+      last.count++;
+    } else {
+      display.push({ type: 'fold', count: 1 });
+    }
+  });
+  return display;
+};
+
+export default function VersionDiff({ rows, leftTitle, rightTitle }: VersionDiffProps) {
+  if (!rows.some(row => row.type !== 'same')) {
+    return <p className="text-sm text-gray-500 p-2">No differences.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-lg">
+      <table className="w-full table-fixed font-mono text-xs leading-5">
+        <thead>
+          <tr className="bg-gray-100 text-gray-600 font-sans">
+            <th className="w-10"></th>
+            <th className="px-2 py-1 text-left font-medium">{leftTitle}</th>
+            <th className="w-10"></th>
+            <th className="px-2 py-1 text-left font-medium">{rightTitle}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {foldUnchanged(rows).map((row, index) =>
+            row.type === 'fold' ? (
+              <tr key={index} className="bg-blue-50 text-blue-700 font-sans">
+                <td colSpan={4} className="px-2 py-0.5 text-center">
+                  {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+                </td>
+              </tr>
+            ) : (
+              <tr key={index} className="align-top">
+                <td className={`px-2 text-right text-gray-400 select-none ${LEFT_CLASSES[row.type]}`}>{row.leftNumber}</td>
+                <td className={`px-2 whitespace-pre-wrap break-words ${LEFT_CLASSES[row.type]}`}>{row.left}</td>
+                <td className={`px-2 text-right text-gray-400 select-none border-l border-gray-200 ${RIGHT_CLASSES[row.type]}`}>{row.rightNumber}</td>
+                <td className={`px-2 whitespace-pre-wrap break-words ${RIGHT_CLASSES[row.type]}`}>{row.right}</td>
+              </tr>
+            )
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
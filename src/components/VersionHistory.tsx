@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ReportVersion } from '@/lib/types';
+import { getReportRepository } from '@/lib/storage/reportRepository';
+import { diffDiagrams, diffLines } from '@/lib/versions/diff';
+import VersionDiff from './VersionDiff';
+
+interface VersionHistoryProps {
+  reportId: string;
+  // Latest saved version; a change reloads the list
+  currentVersion?: number;
+  onRestore: (version: ReportVersion) => Promise<void>;
+}
+
+// Every saved version of a report, with restore and a side-by-side comparison of any two
+export default function VersionHistory({ reportId, currentVersion, onRestore }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<ReportVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [view, setView] = useState<'markdown' | 'diagrams'>('markdown');
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    getReportRepository()
+      .then(repository => repository.getReportVersions(reportId))
+      .then(loaded => {
+        if (cancelled) return;
+        setVersions(loaded);
+        // Compare the latest version with the one before it by default
+        setToVersion(loaded[0]?.version ?? null);
+        setFromVersion(loaded[1]?.version ?? null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading versions:', err);
+        setError('Failed to load version history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId, currentVersion]);
+
+  const from = versions.find(version => version.version === fromVersion);
+  const to = versions.find(version => version.version === toVersion);
+
+  const markdownRows = useMemo(
+    () => (from && to ? diffLines(from.content, to.content) : []),
+    [from, to]
+  );
+  const diagramChanges = useMemo(
+    () => (from && to && view === 'diagrams' ? diffDiagrams(from, to) : []),
+    [from, to, view]
+  );
+
+  const handleRestore = async (version: ReportVersion) => {
+    if (!window.confirm(`Restore version ${version.version}? It will be saved as a new version; nothing is deleted.`)) return;
+    setRestoringVersion(version.version);
+    try {
+      await onRestore(version);
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-red-500 text-center p-4">{error}</div>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center p-4">
+        No versions yet. Save the report to start its history.
+      </p>
+    );
+  }
+
+  const versionOptions = versions.map(version => (
+    <option key={version.version} value={version.version}>
+      Version {version.version}
+    </option>
+  ));
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-gray-200 bg-white rounded-lg border border-gray-200">
+        {versions.map(version => (
+          <li key={version.version} className="flex items-center justify-between px-4 py-2 text-sm">
+            <div className="min-w-0">
+              <span className="font-medium">Version {version.version}</span>
+              {version.version === currentVersion && (
+                <span className="ml-2 px-1.5 py-0.5 text-xs text-green-800 bg-green-100 rounded">current</span>
+              )}
+              <span className="ml-2 text-gray-500">{version.createdAt.toLocaleString()}</span>
+              <p className="text-gray-600 truncate">
+                {version.title}
+                {version.restoredFrom !== undefined && (
+                  <span className="text-gray-400"> · restored from version {version.restoredFrom}</span>
+                )}
+              </p>
+            </div>
+            {version.version !== currentVersion && (
+              <button
+                onClick={() => handleRestore(version)}
+                disabled={restoringVersion !== null}
+                className="ml-4 px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:bg-blue-400"
+              >
+                {restoringVersion === version.version ? 'Restoring...' : 'Restore'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-700">Compare</span>
+            <select
+              value={fromVersion ?? ''}
+              onChange={(e) => setFromVersion(Number(e.target.value))}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              {versionOptions}
+            </select>
+            <span className="text-gray-700">with</span>
+            <select
+              value={toVersion ?? ''}
+              onChange={(e) => setToVersion(Number(e.target.value))}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              {versionOptions}
+            </select>
+            <div className="ml-auto flex rounded overflow-hidden border border-gray-300">
+              {(['markdown', 'diagrams'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1 ${view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                >
+                  {option === 'markdown' ? 'Markdown' : 'Diagram code'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {from && to && view === 'markdown' && (
+            <VersionDiff rows={markdownRows} leftTitle={`Version ${from.version}`} rightTitle={`Version ${to.version}`} />
+          )}
+
+          {from && to && view === 'diagrams' && (
+            diagramChanges.length === 0 ? (
+              <p className="text-sm text-gray-500 p-2">No diagram changes.</p>
+            ) : (
+              <div className="space-y-4">
+                {diagramChanges.map(change => (
+                  <div key={change.heading}>
+                    <h3 className="text-sm font-medium text-gray-800 mb-1">
+                      {change.heading}
+                      {change.approximate && (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs font-normal text-amber-800 bg-amber-100 rounded">
+                          approximation
+                        </span>
+                      )}
+                    </h3>
+                    <VersionDiff rows={change.rows} leftTitle={`Version ${from.version}`} rightTitle={`Version ${to.version}`} />
+                  </div>
+                ))}
+                {diagramChanges.some(change => change.approximate) && (
+                  <p className="text-xs text-gray-500">
+                    Diagrams that weren&apos;t rendered when a version was saved, including all of those saved before
+                    rendered diagrams were kept, are compared by the diagram structure the offline generators draw,
+                    which can differ from what was shown.
+                  </p>
+                )}
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
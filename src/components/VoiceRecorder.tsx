@@ -2,12 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import { useDeepgram } from '../lib/contexts/DeepgramContext';
+import { useAuth } from '../lib/hooks/useAuth';
 import { addDocument } from '../lib/firebase/firebaseUtils';
 import { motion } from 'framer-motion';
 
 export default function VoiceRecorder() {
   const [isRecording, setIsRecording] = useState(false);
   const { connectToDeepgram, disconnectFromDeepgram, connectionState, realtimeTranscript } = useDeepgram();
+  const { user } = useAuth();
 
   const handleStartRecording = async () => {
     await connectToDeepgram();
@@ -18,9 +20,10 @@ export default function VoiceRecorder() {
     disconnectFromDeepgram();
     setIsRecording(false);
     
-    // Save the note to Firebase
-    if (realtimeTranscript) {
+    // Save the note to Firebase; rules only accept notes owned by the signed-in user
+    if (realtimeTranscript && user) {
       await addDocument('notes', {
+        userId: user.uid,
         text: realtimeTranscript,
         timestamp: new Date().toISOString(),
       });
@@ -0,0 +1,16 @@
+import { isLocalStorage } from '@/lib/storage/config';
+
+// fetch with the signed-in user's ID token, which the API routes require
+export const authorizedFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+  // Without Firebase there's no token to send; API routes only answer if the server allows unauthenticated calls
+  if (isLocalStorage) {
+    return fetch(input, init);
+  }
+  const { auth } = await import('@/lib/firebase/firebase');
+  const headers = new Headers(init.headers);
+  const idToken = await auth.currentUser?.getIdToken();
+  if (idToken) {
+    headers.set('Authorization', `Bearer ${idToken}`);
+  }
+  return fetch(input, { ...init, headers });
+};
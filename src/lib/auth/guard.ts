@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { LOCAL_USER } from '@/lib/storage/config';
+import { SESSION_COOKIE_NAME, VerifiedUser, verifyIdToken, verifySessionCookie } from './tokens';
+
+const readCookie = (req: Request, name: string): string | undefined =>
+  req.headers
+    .get('cookie')
+    ?.split(';')
+    .map(part => part.trim().split('='))
+    .find(([key]) => key === name)?.[1];
+
+// The API routes spend the server's Anthropic, OpenAI, Replicate and Deepgram keys, so they check
+// credentials whatever the storage provider. Only this server-only flag, set to exactly "true",
+// opens them to anyone who can reach the server, for running locally without Firebase.
+const ALLOW_UNAUTHENTICATED_API = process.env.ALLOW_UNAUTHENTICATED_API === 'true';
+
+// The caller's uid from a Firebase ID token in the Authorization header, or else from the session
+// cookie. With ALLOW_UNAUTHENTICATED_API every request is the local user's.
+export const getRequestUser = async (req: Request): Promise<VerifiedUser | null> => {
+  if (ALLOW_UNAUTHENTICATED_API) return LOCAL_USER;
+
+  const bearer = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const sessionCookie = readCookie(req, SESSION_COOKIE_NAME);
+
+  try {
+    if (bearer) return await verifyIdToken(bearer);
+    if (sessionCookie) return await verifySessionCookie(decodeURIComponent(sessionCookie));
+  } catch (error) {
+    console.warn('Rejected request credentials:', (error as Error).message);
+  }
+  return null;
+};
+
+// Wraps an API route handler so it only runs for a verified user, who is passed in
+export const withAuth = (handler: (req: Request, user: VerifiedUser) => Promise<Response>) =>
+  async (req: Request): Promise<Response> => {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    return handler(req, user);
+  };
@@ -0,0 +1,140 @@
+import { decodeProtectedHeader, importPKCS8, importX509, jwtVerify, KeyLike, SignJWT } from 'jose';
+
+// Verifies Firebase ID tokens and session cookies against Google's public keys, and mints session
+// cookies with a service account. Uses only fetch and Web Crypto so it runs in middleware and edge routes.
+
+const PROJECT_ID = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+
+const ID_TOKEN_CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+const SESSION_COOKIE_CERTS_URL = 'https://www.googleapis.com/identitytoolkit/v3/relyingparty/publicKeys';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const SERVICE_ACCOUNT_SCOPES = 'https://www.googleapis.com/auth/cloud-platform https://www.googleapis.com/auth/identitytoolkit';
+
+// Firebase Hosting only forwards a cookie with this name
+export const SESSION_COOKIE_NAME = '__session';
+export const SESSION_MAX_AGE_SECONDS = 5 * 24 * 60 * 60;
+
+export interface VerifiedUser {
+  uid: string;
+  email?: string;
+}
+
+interface KeySet {
+  keys: Record<string, KeyLike>;
+  expiresAt: number;
+}
+
+// Google rotates the keys; each response says how long it may be cached
+const keySets = new Map<string, KeySet>();
+
+const fetchKeys = async (url: string): Promise<Record<string, KeyLike>> => {
+  const cached = keySets.get(url);
+  if (cached && cached.expiresAt > Date.now()) return cached.keys;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Firebase public keys: ${response.status}`);
+  }
+  const certificates: Record<string, string> = await response.json();
+  const maxAge = Number(response.headers.get('cache-control')?.match(/max-age=(\d+)/)?.[1] ?? 3600);
+
+  const keys: Record<string, KeyLike> = {};
+  for (const [kid, certificate] of Object.entries(certificates)) {
+    keys[kid] = await importX509(certificate, 'RS256');
+  }
+  keySets.set(url, { keys, expiresAt: Date.now() + maxAge * 1000 });
+  return keys;
+};
+
+// The checks Firebase documents for verifying tokens without the Admin SDK
+const verifyFirebaseJwt = async (token: string, keysUrl: string, issuer: string): Promise<VerifiedUser> => {
+  if (!PROJECT_ID) {
+    throw new Error('Firebase project ID not configured');
+  }
+
+  const { alg, kid } = decodeProtectedHeader(token);
+  if (alg !== 'RS256' || !kid) {
+    throw new Error('Token has an unexpected header');
+  }
+  const key = (await fetchKeys(keysUrl))[kid];
+  if (!key) {
+    throw new Error('Token was signed with an unknown key');
+  }
+
+  const { payload } = await jwtVerify(token, key, {
+    algorithms: ['RS256'],
+    audience: PROJECT_ID,
+    issuer,
+  });
+  if (!payload.sub) {
+    throw new Error('Token has no subject');
+  }
+  if (typeof payload.auth_time !== 'number' || payload.auth_time * 1000 > Date.now()) {
+    throw new Error('Token has an invalid auth time');
+  }
+
+  return {
+    uid: payload.sub,
+    ...(typeof payload.email === 'string' && { email: payload.email }),
+  };
+};
+
+export const verifyIdToken = (idToken: string) =>
+  verifyFirebaseJwt(idToken, ID_TOKEN_CERTS_URL, `https://securetoken.google.com/${PROJECT_ID}`);
+
+export const verifySessionCookie = (sessionCookie: string) =>
+  verifyFirebaseJwt(sessionCookie, SESSION_COOKIE_CERTS_URL, `https://session.firebase.google.com/${PROJECT_ID}`);
+
+export const isServiceAccountConfigured = () =>
+  Boolean(process.env.FIREBASE_CLIENT_EMAIL && process.env.FIREBASE_PRIVATE_KEY);
+
+let accessToken: { token: string; expiresAt: number } | null = null;
+
+// OAuth access token for the service account, from a self-signed JWT assertion
+const getAccessToken = async (): Promise<string> => {
+  if (accessToken && accessToken.expiresAt > Date.now()) return accessToken.token;
+
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  // Environment variables usually hold the key with escaped newlines
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n');
+  if (!clientEmail || !privateKey) {
+    throw new Error('Firebase service account not configured');
+  }
+
+  const assertion = await new SignJWT({ scope: SERVICE_ACCOUNT_SCOPES })
+    .setProtectedHeader({ alg: 'RS256', typ: 'JWT' })
+    .setIssuer(clientEmail)
+    .setAudience(GOOGLE_TOKEN_URL)
+    .setIssuedAt()
+    .setExpirationTime('1h')
+    .sign(await importPKCS8(privateKey, 'RS256'));
+
+  const response = await fetch(GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion }),
+  });
+  if (!response.ok) {
+    throw new Error(`Service account token request failed with status ${response.status}`);
+  }
+  const result = await response.json();
+  // Refresh a minute early so a token never expires mid-request
+  accessToken = { token: result.access_token, expiresAt: Date.now() + (result.expires_in - 60) * 1000 };
+  return accessToken.token;
+};
+
+export const createSessionCookie = async (idToken: string, maxAgeSeconds = SESSION_MAX_AGE_SECONDS): Promise<string> => {
+  const response = await fetch(`https://identitytoolkit.googleapis.com/v1/projects/${PROJECT_ID}:createSessionCookie`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${await getAccessToken()}`,
+    },
+    body: JSON.stringify({ idToken, validDuration: String(maxAgeSeconds) }),
+  });
+  if (!response.ok) {
+    throw new Error(`Session cookie request failed with status ${response.status}`);
+  }
+  const { sessionCookie } = await response.json();
+  return sessionCookie;
+};
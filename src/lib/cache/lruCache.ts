@@ -0,0 +1,21 @@
+// A map that keeps only its most recently used entries, dropping the least recently used once it
+// holds more than limit
+export const createLruCache = <K, V>(limit: number) => {
+  const entries = new Map<K, V>();
+  return {
+    get: (key: K): V | undefined => {
+      if (!entries.has(key)) return undefined;
+      // Maps iterate in insertion order, so moving an entry to the end marks it most recent
+      const value = entries.get(key) as V;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set: (key: K, value: V) => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > limit) entries.delete(entries.keys().next().value as K);
+    },
+    delete: (key: K) => entries.delete(key),
+  };
+};
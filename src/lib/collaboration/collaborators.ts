@@ -0,0 +1,26 @@
+import { CollaboratorRole, Report } from '@/lib/types';
+
+export type ReportRole = 'owner' | CollaboratorRole;
+
+export const COLLABORATOR_ROLE_LABELS: Record<CollaboratorRole, string> = {
+  viewer: 'Can view',
+  editor: 'Can edit',
+};
+
+// A handful of people work on a report together; rules refuse more
+export const MAX_COLLABORATORS = 20;
+
+// Invitations are matched to the signed-in user's email, whatever case either was typed in
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+// Unsaved reports and reports in the user's own library are theirs
+export const reportRole = (report: Report | null, user: { uid: string; email: string | null }): ReportRole => {
+  if (!report?.id || report.userId === user.uid) return 'owner';
+  return (user.email && report.collaborators?.[normalizeEmail(user.email)]) || 'viewer';
+};
+
+// Reports more than one person can open are kept in sync between everyone editing them
+export const isSharedReport = (report: Report | null, user: { uid: string }) =>
+  !!report?.id && (report.userId !== user.uid || Object.keys(report.collaborators ?? {}).length > 0);
@@ -0,0 +1,209 @@
+import { AnimationSection, LiveReportState } from '@/lib/types';
+import { diffOperations } from '@/lib/versions/diff';
+import { findSections } from '@/lib/markdown/sections';
+
+// A run of base items [start, end) that an edit replaced with items; start === end for insertions
+interface Hunk {
+  start: number;
+  end: number;
+  items: string[];
+}
+
+// Where both people changed the same words at once: the later edit, which was kept, and the one it replaced
+export interface MergeConflict {
+  mine: string;
+  theirs: string;
+}
+
+export interface TextMerge {
+  text: string;
+  conflicts: MergeConflict[];
+}
+
+const toLines = (text: string) => text.split('\n');
+
+// Words, runs of whitespace and single punctuation marks, in any script. Built at runtime since the
+// compile target predates the u flag.
+const WORD_TOKEN = new RegExp('\\s+|[\\p{L}\\p{M}\\p{N}_]+|[^\\s\\p{L}\\p{M}\\p{N}_]', 'gu');
+
+const toTokens = (text: string) => text.match(WORD_TOKEN) ?? [];
+
+const sameItems = (a: string[], b: string[]) => a.length === b.length && a.every((item, index) => item === b[index]);
+
+const hunksBetween = (base: string[], edited: string[]): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | null = null;
+  for (const operation of diffOperations(base, edited)) {
+    if (operation.type === 'same') {
+      current = null;
+      index++;
+      continue;
+    }
+    if (!current) {
+      current = { start: index, end: index, items: [] };
+      hunks.push(current);
+    }
+    if (operation.type === 'removed') {
+      index++;
+      current.end = index;
+    } else {
+      current.items.push(operation.line);
+    }
+  }
+  return hunks;
+};
+
+// The base items [start, end) with the hunks that fall inside them applied
+const applyHunks = (base: string[], start: number, end: number, hunks: Hunk[]): string[] => {
+  const result: string[] = [];
+  let index = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(index, hunk.start), ...hunk.items);
+    index = hunk.end;
+  }
+  return [...result, ...base.slice(index, end)];
+};
+
+// Three-way merge of two edits of base: changes to different items are both kept, and where both
+// sides changed the same items differently, resolve decides what the region becomes
+const mergeSequences = (
+  base: string[],
+  mine: string[],
+  theirs: string[],
+  resolve: (original: string[], mine: string[], theirs: string[]) => string[]
+): string[] => {
+  const mineHunks = hunksBetween(base, mine);
+  const theirHunks = hunksBetween(base, theirs);
+  const result: string[] = [];
+  let index = 0;
+
+  while (mineHunks.length > 0 || theirHunks.length > 0) {
+    // Start a region at whichever change comes first, then grow it while changes on either side overlap it
+    const first = !theirHunks.length || (mineHunks.length > 0 && mineHunks[0].start <= theirHunks[0].start) ? mineHunks : theirHunks;
+    const start = first[0].start;
+    let end = first[0].end;
+    const regionMine: Hunk[] = [];
+    const regionTheirs: Hunk[] = [];
+    const sides: [Hunk[], Hunk[]][] = [[mineHunks, regionMine], [theirHunks, regionTheirs]];
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const [hunks, region] of sides) {
+        // Hunks are in order, so one overlaps if it starts inside the region, or at its start when both insert there
+        while (hunks.length > 0 && (hunks[0].start < end || hunks[0].start === start)) {
+          const hunk = hunks.shift()!;
+          region.push(hunk);
+          end = Math.max(end, hunk.end);
+          grew = true;
+        }
+      }
+    }
+
+    result.push(...base.slice(index, start));
+    const original = base.slice(start, end);
+    const mineRegion = applyHunks(base, start, end, regionMine);
+    const theirRegion = applyHunks(base, start, end, regionTheirs);
+    if (sameItems(mineRegion, theirRegion) || sameItems(mineRegion, original)) {
+      result.push(...theirRegion);
+    } else if (sameItems(theirRegion, original)) {
+      result.push(...mineRegion);
+    } else {
+      result.push(...resolve(original, mineRegion, theirRegion));
+    }
+    index = end;
+  }
+
+  return [...result, ...base.slice(index)];
+};
+
+// Three-way merge of the report text. Changes to different lines are both kept, and so are lines
+// both people added at the same place. Where both changed the same lines, the changes are merged
+// word by word; if they changed the same words too, or one removed lines the other edited, the
+// edit made here wins, as the later one, and the conflict is returned so it can be shown.
+export const mergeText = (base: string, mine: string, theirs: string): TextMerge => {
+  if (mine === base || mine === theirs) return { text: theirs, conflicts: [] };
+  if (theirs === base) return { text: mine, conflicts: [] };
+
+  const conflicts: MergeConflict[] = [];
+  const lines = mergeSequences(toLines(base), toLines(mine), toLines(theirs), (original, mineLines, theirLines) => {
+    if (original.length === 0) return [...theirLines, ...mineLines];
+    // Merging words into lines the other side removed would leave fragments of them behind
+    let conflicted = mineLines.length === 0 || theirLines.length === 0;
+    const merged = conflicted
+      ? mineLines
+      : mergeSequences(
+          toTokens(original.join('\n')),
+          toTokens(mineLines.join('\n')),
+          toTokens(theirLines.join('\n')),
+          (_original, mineWords) => {
+            conflicted = true;
+            return mineWords;
+          }
+        ).join('').split('\n');
+    if (conflicted) conflicts.push({ mine: mineLines.join('\n'), theirs: theirLines.join('\n') });
+    return merged;
+  });
+
+  return { text: lines.join('\n'), conflicts };
+};
+
+type Customization = Pick<AnimationSection, 'customDiagram' | 'chartMapping'>;
+
+// Diagram edits and chart mappings by section heading, the same key restoreSections matches on
+const customizationsByHeading = (sections: AnimationSection[]) => {
+  const customizations = new Map<string, string>();
+  sections.forEach(({ heading, customDiagram, chartMapping }) => {
+    if (!customizations.has(heading)) customizations.set(heading, JSON.stringify({ customDiagram, chartMapping }));
+  });
+  return customizations;
+};
+
+export interface LiveStateMerge {
+  state: LiveReportState;
+  conflicts: MergeConflict[];
+}
+
+// Merges edits made here since the last synced state with the state someone else published
+export const mergeLiveState = (base: LiveReportState, mine: LiveReportState, theirs: LiveReportState): LiveStateMerge => {
+  const { text: content, conflicts } = mergeText(base.content, mine.content, theirs.content);
+  const baseCustomizations = customizationsByHeading(base.animations);
+  const mineCustomizations = customizationsByHeading(mine.animations);
+  const theirCustomizations = customizationsByHeading(theirs.animations);
+
+  // Each section keeps its diagram edits from whichever side changed them
+  const animations = findSections(content).map(section => {
+    const changedHere = mineCustomizations.get(section.heading) !== baseCustomizations.get(section.heading);
+    const chosen = (changedHere ? mineCustomizations : theirCustomizations).get(section.heading);
+    const { customDiagram, chartMapping }: Customization = chosen ? JSON.parse(chosen) : {};
+    return {
+      ...section,
+      ...(customDiagram && { customDiagram }),
+      ...(chartMapping && { chartMapping }),
+    };
+  });
+
+  return {
+    state: {
+      title: mine.title !== base.title ? mine.title : theirs.title,
+      content,
+      animations,
+    },
+    conflicts,
+  };
+};
+
+// Where a caret at offset in before belongs in after, so text changing elsewhere doesn't move it
+export const moveCaret = (before: string, after: string, offset: number) => {
+  const shortest = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < shortest && before[prefix] === after[prefix]) prefix++;
+  if (offset <= prefix) return offset;
+  let suffix = 0;
+  while (suffix < shortest - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+  // After the change the caret keeps its distance from the end; inside it, it goes to the end of the new text
+  return Math.max(prefix, after.length - Math.min(suffix, before.length - offset));
+};
+
+export const sameLiveState = (a: LiveReportState, b: LiveReportState) =>
+  a.title === b.title && a.content === b.content && JSON.stringify(a.animations) === JSON.stringify(b.animations);
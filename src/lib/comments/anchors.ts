@@ -0,0 +1,115 @@
+import { AnimationSection, CommentAnchor, CommentThread } from '@/lib/types';
+
+// The part of a rendered diagram a comment is about
+export interface DiagramNode {
+  nodeId: string;
+  nodeLabel: string;
+}
+
+export const anchorFor = (section: AnimationSection, node?: DiagramNode | null): CommentAnchor => ({
+  heading: section.heading,
+  lineIndex: section.lineIndex,
+  endLine: section.endLine,
+  ...(node && { nodeId: node.nodeId, nodeLabel: node.nodeLabel }),
+});
+
+// Words too common in headings to say which section one is about
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'how', 'in', 'into', 'is', 'it', 'its', 'of',
+  'on', 'or', 'our', 'the', 'their', 'to', 'vs', 'what', 'why', 'with', 'chapter', 'part', 'section',
+]);
+
+// A renamed heading has to keep at least this share of its meaningful words, as Dice similarity
+const HEADING_SIMILARITY = 0.6;
+
+// A section found by its lines has to share at least this share of the longer of its and the old span
+const LINE_OVERLAP = 0.6;
+
+// Letters and digits in any script; built at runtime since the compile target predates the u flag
+const WORD = new RegExp('[\\p{L}\\p{M}\\p{N}]+', 'gu');
+
+const headingWords = (heading: string) =>
+  new Set((heading.toLowerCase().match(WORD) ?? []).filter(word => !STOPWORDS.has(word)));
+
+const headingSimilarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = Array.from(a).filter(word => b.has(word)).length;
+  return (2 * shared) / (a.size + b.size);
+};
+
+const lineOverlap = (anchor: CommentAnchor, section: AnimationSection) => {
+  const shared = Math.min(anchor.endLine, section.endLine) - Math.max(anchor.lineIndex, section.lineIndex);
+  const longest = Math.max(anchor.endLine - anchor.lineIndex, section.endLine - section.lineIndex, 1);
+  return shared / longest;
+};
+
+// The section a thread belongs to after the report was edited: the one with its heading, nearest
+// where it was if the heading repeats. A renamed heading usually keeps most of its words, so next
+// comes the heading closest to it, and last a section over nearly the same lines. Sections whose
+// heading was already in previousSections, the report the anchors were last moved to, or is close
+// to another heading there, are some other section and never count. Null when no section is a
+// confident match, such as when the section was deleted.
+export const findAnchoredSection = (
+  anchor: CommentAnchor,
+  sections: AnimationSection[],
+  previousSections: AnimationSection[] = []
+): number | null => {
+  const distance = (index: number) => Math.abs(sections[index].lineIndex - anchor.lineIndex);
+  // Picks the highest scoring section at or above the threshold, nearest where the thread was on a tie
+  const bestBy = (score: (section: AnimationSection) => number, threshold: number, candidates: number[]) => {
+    let best: number | null = null;
+    let bestScore = threshold;
+    for (const index of candidates) {
+      const sectionScore = score(sections[index]);
+      if (sectionScore > bestScore || (sectionScore === bestScore && (best === null || distance(index) < distance(best)))) {
+        best = index;
+        bestScore = sectionScore;
+      }
+    }
+    return best;
+  };
+
+  const indexes = sections.map((_, index) => index);
+  const exact = bestBy(section => (section.heading === anchor.heading ? 1 : 0), 1, indexes);
+  if (exact !== null) return exact;
+
+  const previousHeadings = new Set(previousSections.map(section => section.heading));
+  const renamed = indexes.filter(index => !previousHeadings.has(sections[index].heading));
+  const words = headingWords(anchor.heading);
+  const byWords = bestBy(section => headingSimilarity(words, headingWords(section.heading)), HEADING_SIMILARITY, renamed);
+  if (byWords !== null) return byWords;
+
+  // A heading close to another old one is that section renamed, wherever its lines ended up
+  const otherWords = previousSections.filter(section => section.heading !== anchor.heading).map(section => headingWords(section.heading));
+  const unclaimed = renamed.filter(index => {
+    const sectionWords = headingWords(sections[index].heading);
+    return !otherWords.some(other => headingSimilarity(other, sectionWords) >= HEADING_SIMILARITY);
+  });
+  return bestBy(section => lineOverlap(anchor, section), LINE_OVERLAP, unclaimed);
+};
+
+// Threads whose section moved or was renamed, with their anchor brought up to date, so they're
+// still found after later edits. Threads without a confident match keep their old anchor.
+export const reanchorThreads = (threads: CommentThread[], sections: AnimationSection[], previousSections: AnimationSection[] = []) =>
+  threads.flatMap(thread => {
+    const index = findAnchoredSection(thread.anchor, sections, previousSections);
+    if (index === null) return [];
+    const { heading, lineIndex, endLine } = sections[index];
+    const { anchor } = thread;
+    if (anchor.heading === heading && anchor.lineIndex === lineIndex && anchor.endLine === endLine) return [];
+    return [{ threadId: thread.id, anchor: { ...anchor, heading, lineIndex, endLine } }];
+  });
+
+// Mermaid ids its nodes' elements after the node, as flowchart-A-3 for node A
+const MERMAID_ID_PATTERN = /^[a-z]+-(.+)-\d+$/;
+
+// The node of a rendered Mermaid diagram that an element is part of, such as the one clicked
+export const diagramNodeAt = (target: Element): DiagramNode | null => {
+  const element = target.closest('g.node, g.mindmap-node, .actor, .task, .timeline-node, .slice');
+  const label = element?.textContent?.replace(/\s+/g, ' ').trim();
+  if (!element || !label) return null;
+  return {
+    nodeId: element.id.match(MERMAID_ID_PATTERN)?.[1] || element.id || label,
+    nodeLabel: label.length > 80 ? `${label.slice(0, 77)}...` : label,
+  };
+};
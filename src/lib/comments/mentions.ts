@@ -0,0 +1,32 @@
+import { normalizeEmail } from '@/lib/collaboration/collaborators';
+
+// People are mentioned by email, as @name@example.com
+const MENTION_PATTERN = /@([^\s@]+@[^\s@]+\.[^\s@.,;:!?)]+)/g;
+
+// The people a comment mentions, out of those who can open the report
+export const extractMentions = (body: string, people: string[]): string[] => {
+  const known = new Set(people.map(normalizeEmail));
+  const mentions = new Set<string>();
+  body.replace(MENTION_PATTERN, (match, email: string) => {
+    if (known.has(normalizeEmail(email))) mentions.add(normalizeEmail(email));
+    return match;
+  });
+  return Array.from(mentions);
+};
+
+// The comment as text and mentions, for showing mentions highlighted
+export const splitMentions = (body: string): { text: string; mention: boolean }[] => {
+  const parts: { text: string; mention: boolean }[] = [];
+  let index = 0;
+  body.replace(MENTION_PATTERN, (match, _email: string, offset: number) => {
+    if (offset > index) parts.push({ text: body.slice(index, offset), mention: false });
+    parts.push({ text: match, mention: true });
+    index = offset + match.length;
+    return match;
+  });
+  if (index < body.length) parts.push({ text: body.slice(index), mention: false });
+  return parts;
+};
+
+// The @mention being typed at the end of the text, if any, for suggesting people
+export const partialMention = (text: string): string | null => text.match(/(?:^|\s)@([^\s]*)$/)?.[1] ?? null;
@@ -9,12 +9,17 @@ import {
   setPersistence,
   inMemoryPersistence
 } from "firebase/auth";
-import { User } from "firebase/auth";
-import { auth } from "../firebase/firebase";
+import type { User } from "firebase/auth";
+import { isLocalStorage, LOCAL_USER } from "../storage/config";
+
+// What the app uses of the signed-in user, which the local storage provider's user also has
+type AuthUser = Pick<User, "uid" | "email" | "displayName">;
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   loading: boolean;
+  // Set when the server wouldn't start a session, so the user is treated as signed out
+  sessionError: string | null;
   signInWithGoogle: () => Promise<void>;
   signOut: () => Promise<void>;
 }
@@ -22,26 +27,73 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType>({
   user: null,
   loading: true,
+  sessionError: null,
   signInWithGoogle: async () => {},
   signOut: async () => {},
 });
 
+// Middleware only sees cookies, so exchange the ID token for a session cookie before treating the user as signed in
+const startSession = async (user: User) => {
+  const response = await fetch("/api/auth/session", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${await user.getIdToken()}` },
+  });
+  if (!response.ok) {
+    throw new Error(`Session request failed with status ${response.status}`);
+  }
+};
+
+const endSession = () => fetch("/api/auth/session", { method: "DELETE" });
+
+// Loaded on first use, since initializing Firebase Auth fails without a Firebase project
+const loadAuth = async () => (await import("../firebase/firebase")).auth;
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionError, setSessionError] = useState<string | null>(null);
 
   useEffect(() => {
-    // Listen for auth state changes
-    const unsubscribe = auth.onAuthStateChanged((user) => {
-      console.log("Auth state changed:", { user: user?.email });
-      setUser(user);
+    // With local storage there's no sign-in, and everything belongs to the local user
+    if (isLocalStorage) {
+      setUser(LOCAL_USER);
       setLoading(false);
+      return;
+    }
+
+    // Listen for auth state changes
+    let unsubscribe = () => {};
+    let cancelled = false;
+    loadAuth().then(auth => {
+      if (cancelled) return;
+      unsubscribe = auth.onAuthStateChanged(async (user) => {
+        console.log("Auth state changed:", { user: user?.email });
+        if (user) {
+          try {
+            await startSession(user);
+            setSessionError(null);
+          } catch (error) {
+            console.error("Error starting session:", error);
+            setSessionError("Signed in, but the server could not start a session. Please try again.");
+            setUser(null);
+            setLoading(false);
+            return;
+          }
+        }
+        setUser(user);
+        setLoading(false);
+      });
     });
 
-    return () => unsubscribe();
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, []);
 
   const signInWithGoogle = async () => {
+    if (isLocalStorage) return;
+    const auth = await loadAuth();
     const provider = new GoogleAuthProvider();
     
     try {
@@ -71,8 +123,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOutUser = async () => {
+    if (isLocalStorage) return;
     try {
-      await firebaseSignOut(auth);
+      await endSession();
+      await firebaseSignOut(await loadAuth());
     } catch (error) {
       console.error("Error signing out:", error);
       throw error;
@@ -80,7 +134,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, signInWithGoogle, signOut: signOutUser }}>
+    <AuthContext.Provider value={{ user, loading, sessionError, signInWithGoogle, signOut: signOutUser }}>
       {children}
     </AuthContext.Provider>
   );
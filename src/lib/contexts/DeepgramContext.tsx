@@ -10,6 +10,7 @@ import {
 } from "@deepgram/sdk";
 
 import { createContext, useContext, useState, ReactNode, FunctionComponent, useRef } from "react";
+import { authorizedFetch } from "@/lib/auth/authorizedFetch";
 
 interface DeepgramContextType {
   connectToDeepgram: () => Promise<void>;
@@ -25,78 +26,147 @@ interface DeepgramContextProviderProps {
   children: ReactNode;
 }
 
-const getApiKey = async (): Promise<string> => {
-  const response = await fetch("/api/deepgram", { cache: "no-store" });
+interface TemporaryKey {
+  key: string;
+  expiresAt: number;
+}
+
+// Keys from /api/deepgram are short-lived, so one is fetched for every connection
+const getTemporaryKey = async (): Promise<TemporaryKey> => {
+  const response = await authorizedFetch("/api/deepgram", { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error(`Could not get a Deepgram key (status ${response.status})`);
+  }
   const result = await response.json();
-  return result.key;
+  return { key: result.key, expiresAt: Date.parse(result.expiresAt) };
 };
 
+const DEEPGRAM_LISTEN_URL = "wss://api.deepgram.com/v1/listen";
+const MAX_RECONNECT_ATTEMPTS = 3;
+const RECONNECT_DELAY_MS = 500;
+
 const DeepgramContextProvider: FunctionComponent<DeepgramContextProviderProps> = ({ children }) => {
-  const [connection, setConnection] = useState<WebSocket | null>(null);
   const [connectionState, setConnectionState] = useState<SOCKET_STATES>(SOCKET_STATES.closed);
   const [realtimeTranscript, setRealtimeTranscript] = useState("");
   const [error, setError] = useState<string | null>(null);
   const audioRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  // True from connectToDeepgram until disconnectFromDeepgram; a socket closing in between is reconnected
+  const listeningRef = useRef(false);
+  const reconnectAttemptsRef = useRef(0);
+
+  // Each socket gets its own recorder: the audio container header is only sent at the start of a recording
+  const startRecorder = (socket: WebSocket) => {
+    if (audioRef.current?.state === "recording") {
+      audioRef.current.stop();
+    }
+    const recorder = new MediaRecorder(streamRef.current!);
+    recorder.addEventListener("dataavailable", (event) => {
+      if (event.data.size > 0 && socket.readyState === WebSocket.OPEN) {
+        socket.send(event.data);
+      }
+    });
+    recorder.start(250);
+    audioRef.current = recorder;
+  };
+
+  const openSocket = async () => {
+    let { key, expiresAt } = await getTemporaryKey();
+    // A slow round trip can leave a key that expires before the handshake
+    if (expiresAt <= Date.now()) {
+      ({ key, expiresAt } = await getTemporaryKey());
+    }
+    if (!listeningRef.current) return;
+
+    console.log("Opening WebSocket connection...");
+    const socket = new WebSocket(DEEPGRAM_LISTEN_URL, ["token", key]);
+    socketRef.current = socket;
+
+    socket.onopen = () => {
+      reconnectAttemptsRef.current = 0;
+      setConnectionState(SOCKET_STATES.open);
+      console.log("WebSocket connection opened");
+      startRecorder(socket);
+    };
+
+    socket.onmessage = (event) => {
+      const data = JSON.parse(event.data);
+      if (data.channel && data.channel.alternatives && data.channel.alternatives[0]) {
+        const newTranscript = data.channel.alternatives[0].transcript;
+        setRealtimeTranscript((prev) => prev + " " + newTranscript);
+      }
+    };
+
+    socket.onerror = (error) => {
+      // onclose follows and decides whether to reconnect
+      console.error("WebSocket error:", error);
+    };
+
+    socket.onclose = (event) => {
+      console.log("WebSocket connection closed:", event.code, event.reason);
+      if (socketRef.current !== socket) return;
+      if (listeningRef.current) {
+        // Deepgram drops the socket when its key expires or the network blips; carry on with a new key
+        reconnect();
+      } else {
+        setConnectionState(SOCKET_STATES.closed);
+      }
+    };
+  };
+
+  const reconnect = async () => {
+    if (reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      setError("Lost the connection to Deepgram. Please try again.");
+      disconnectFromDeepgram();
+      return;
+    }
+    reconnectAttemptsRef.current++;
+    setConnectionState(SOCKET_STATES.connecting);
+    if (audioRef.current?.state === "recording") {
+      audioRef.current.stop();
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * reconnectAttemptsRef.current));
+    if (!listeningRef.current) return;
+    try {
+      await openSocket();
+    } catch (error) {
+      console.error("Error reconnecting to Deepgram:", error);
+      reconnect();
+    }
+  };
 
   const connectToDeepgram = async () => {
     try {
       setError(null);
       setRealtimeTranscript("");
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      audioRef.current = new MediaRecorder(stream);
-
-      const apiKey = await getApiKey();
-
-      console.log("Opening WebSocket connection...");
-      const socket = new WebSocket("wss://api.deepgram.com/v1/listen", ["token", apiKey]);
-
-      socket.onopen = () => {
-        setConnectionState(SOCKET_STATES.open);
-        console.log("WebSocket connection opened");
-        audioRef.current!.addEventListener("dataavailable", (event) => {
-          if (event.data.size > 0 && socket.readyState === WebSocket.OPEN) {
-            socket.send(event.data);
-          }
-        });
-
-        audioRef.current!.start(250);
-      };
-
-      socket.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-        if (data.channel && data.channel.alternatives && data.channel.alternatives[0]) {
-          const newTranscript = data.channel.alternatives[0].transcript;
-          setRealtimeTranscript((prev) => prev + " " + newTranscript);
-        }
-      };
-
-      socket.onerror = (error) => {
-        console.error("WebSocket error:", error);
-        setError("Error connecting to Deepgram. Please try again.");
-        disconnectFromDeepgram();
-      };
-
-      socket.onclose = (event) => {
-        setConnectionState(SOCKET_STATES.closed);
-        console.log("WebSocket connection closed:", event.code, event.reason);
-      };
-
-      setConnection(socket);
+      setConnectionState(SOCKET_STATES.connecting);
+      streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+      listeningRef.current = true;
+      reconnectAttemptsRef.current = 0;
+      await openSocket();
     } catch (error) {
       console.error("Error starting voice recognition:", error);
       setError(error instanceof Error ? error.message : "An unknown error occurred");
-      setConnectionState(SOCKET_STATES.closed);
+      disconnectFromDeepgram();
     }
   };
 
   const disconnectFromDeepgram = () => {
-    if (connection) {
-      connection.close();
-      setConnection(null);
+    listeningRef.current = false;
+    const socket = socketRef.current;
+    socketRef.current = null;
+    if (socket) {
+      socket.close();
     }
-    if (audioRef.current) {
+    if (audioRef.current?.state === "recording") {
       audioRef.current.stop();
     }
+    audioRef.current = null;
+    // Release the microphone
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
     setRealtimeTranscript("");
     setConnectionState(SOCKET_STATES.closed);
   };
@@ -0,0 +1,191 @@
+import { AnimationSection, ChartMapping, ChartType, DIAGRAM_TYPE_LABELS, GeneratedDiagram } from '@/lib/types';
+import { DataTable, findDataTables, getNumericColumns, isYear, parseNumericValue } from './dataExtraction';
+
+const MAX_CATEGORIES = 15;
+
+// Names inside pie slices, axis labels and quadrant points can't hold most punctuation
+const chartText = (text: string, length = 40): string => {
+  const cleaned = text.replace(/["[\]{}:;#|()<>,]/g, ' ').replace(/\s+/g, ' ').trim();
+  return cleaned.length > length ? cleaned.substring(0, length - 3).trimEnd() + '...' : cleaned;
+};
+
+const rowLabel = (row: string[], rowIndex: number, labelColumn: number): string =>
+  chartText(labelColumn >= 0 ? row[labelColumn] ?? '' : '', 24) || `Row ${rowIndex + 1}`;
+
+const SCALES: [number, string][] = [
+  [1e12, 'T'],
+  [1e9, 'B'],
+  [1e6, 'M'],
+  [1e3, 'K'],
+];
+
+// Pick a common divisor so axes read "Revenue ($B)" rather than 2100000000
+const scaleFor = (values: number[]): [number, string] => {
+  const max = Math.max(...values.map(Math.abs));
+  return SCALES.find(([divisor]) => max >= divisor * 10) ?? [1, ''];
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const columnValues = (table: DataTable, column: number): (number | null)[] =>
+  table.rows.map(row => parseNumericValue(row[column] ?? '')?.value ?? null);
+
+const unitSuffix = (table: DataTable, column: number, scale: string): string => {
+  const sample = table.rows.map(row => parseNumericValue(row[column] ?? '')).find(Boolean);
+  if (sample?.unit === '%') return ' (%)';
+  if (sample?.unit === 'currency') return ` (${sample.currency}${scale})`;
+  return scale ? ` (${scale})` : '';
+};
+
+const buildPie = (table: DataTable, mapping: ChartMapping, title: string): string | null => {
+  const column = mapping.valueColumns[0];
+  if (column === undefined) return null;
+
+  const values = columnValues(table, column);
+  const slices = table.rows
+    .map((row, index) => ({ label: rowLabel(row, index, mapping.labelColumn), value: values[index] }))
+    .filter((slice): slice is { label: string; value: number } => slice.value !== null && slice.value > 0)
+    .slice(0, MAX_CATEGORIES);
+  if (slices.length < 2) return null;
+
+  return [
+    'pie showData',
+    `    title ${chartText(title, 60)}`,
+    ...slices.map(slice => `    "${slice.label}" : ${round(slice.value)}`),
+  ].join('\n');
+};
+
+const buildXyChart = (table: DataTable, mapping: ChartMapping, title: string): string | null => {
+  const columns = mapping.valueColumns.slice(0, 4);
+  if (columns.length === 0) return null;
+
+  // xy charts have no gaps, so rows without a bar are left out and so are lines missing a value
+  const rows = table.rows.filter(row => parseNumericValue(row[columns[0]] ?? '') !== null).slice(0, MAX_CATEGORIES);
+  if (rows.length === 0) return null;
+  const series = columns
+    .map(column => columnValues({ ...table, rows }, column))
+    .filter((values): values is number[] => values.every(value => value !== null));
+  const [divisor, scale] = scaleFor(series.flat());
+
+  const labelHeader = mapping.labelColumn >= 0 ? chartText(table.headers[mapping.labelColumn] ?? '', 30) : '';
+  const valueHeader = series.length === 1 ? chartText(table.headers[columns[0]] ?? 'Value', 30) : 'Value';
+
+  return [
+    'xychart-beta',
+    `    title "${chartText(title, 60)}"`,
+    `    x-axis${labelHeader ? ` "${labelHeader}"` : ''} [${rows.map((row, index) => `"${rowLabel(row, index, mapping.labelColumn)}"`).join(', ')}]`,
+    `    y-axis "${valueHeader}${unitSuffix(table, columns[0], scale)}"`,
+    // The first series is drawn as bars and any others as lines over them
+    ...series.map((values, index) =>
+      `    ${index === 0 ? 'bar' : 'line'} [${values.map(value => round(value / divisor)).join(', ')}]`
+    ),
+  ].join('\n');
+};
+
+const buildQuadrant = (table: DataTable, mapping: ChartMapping, title: string): string | null => {
+  const [xColumn, yColumn] = mapping.valueColumns;
+  if (xColumn === undefined || yColumn === undefined) return null;
+
+  const xs = columnValues(table, xColumn);
+  const ys = columnValues(table, yColumn);
+  // Quadrant charts only accept coordinates between 0 and 1
+  const normalize = (values: (number | null)[]) => {
+    const present = values.filter((value): value is number => value !== null);
+    const min = Math.min(...present);
+    const range = Math.max(...present) - min || 1;
+    return values.map(value => (value === null ? null : round(0.05 + ((value - min) / range) * 0.9)));
+  };
+  const normalizedX = normalize(xs);
+  const normalizedY = normalize(ys);
+
+  // Point names are unquoted, and Mermaid reads one starting with a digit as a number
+  const pointLabel = (row: string[], index: number) => {
+    const label = rowLabel(row, index, mapping.labelColumn);
+    return /^\d/.test(label) ? `Row ${index + 1}` : label;
+  };
+  const points = table.rows
+    .map((row, index) => ({ label: pointLabel(row, index), x: normalizedX[index], y: normalizedY[index] }))
+    .filter(point => point.x !== null && point.y !== null)
+    .slice(0, MAX_CATEGORIES);
+  if (points.length < 2) return null;
+
+  const xName = chartText(table.headers[xColumn] ?? 'X', 20);
+  const yName = chartText(table.headers[yColumn] ?? 'Y', 20);
+
+  return [
+    'quadrantChart',
+    `    title ${chartText(title, 60)}`,
+    `    x-axis Low ${xName} --> High ${xName}`,
+    `    y-axis Low ${yName} --> High ${yName}`,
+    ...points.map(point => `    ${point.label}: [${point.x}, ${point.y}]`),
+  ].join('\n');
+};
+
+export const buildChart = (table: DataTable, mapping: ChartMapping, title: string): string | null => {
+  switch (mapping.chartType) {
+    case 'pie':
+      return buildPie(table, mapping, title);
+    case 'xychart':
+      return buildXyChart(table, mapping, title);
+    case 'quadrant':
+      return buildQuadrant(table, mapping, title);
+  }
+};
+
+const looksLikeShares = (table: DataTable, column: number): boolean => {
+  const parsed = table.rows.map(row => parseNumericValue(row[column] ?? ''));
+  if (parsed.some(value => !value || value.value < 0)) return false;
+  const total = parsed.reduce((sum, value) => sum + value!.value, 0);
+  const isPercent = parsed.every(value => value!.unit === '%');
+  return (isPercent && total > 90 && total <= 101) || /share|split|breakdown|distribution|mix|%/i.test(table.headers[column] ?? '');
+};
+
+// Choose a sensible chart for a table: shares become a pie, everything else an xy chart
+export const suggestChartMapping = (table: DataTable, tableIndex: number): ChartMapping | null => {
+  const numericColumns = getNumericColumns(table);
+  if (numericColumns.length === 0) return null;
+
+  const labelColumn = table.headers.findIndex((_, column) => !numericColumns.includes(column));
+  const hasYears = labelColumn >= 0 && table.rows.every(row => isYear(row[labelColumn] ?? ''));
+
+  let chartType: ChartType = 'xychart';
+  if (numericColumns.length === 1 && !hasYears && table.rows.length <= 8 && looksLikeShares(table, numericColumns[0])) {
+    chartType = 'pie';
+  }
+
+  // One y axis, so only plot columns measured in the same unit as the first
+  const unitOf = (column: number) => table.rows.map(row => parseNumericValue(row[column] ?? '')).find(Boolean)?.unit;
+  const sameUnit = numericColumns.filter(column => unitOf(column) === unitOf(numericColumns[0]));
+
+  return { tableIndex, chartType, labelColumn, valueColumns: chartType === 'pie' ? [numericColumns[0]] : sameUnit };
+};
+
+export const suggestDefaultMapping = (tables: DataTable[]): ChartMapping | null => {
+  for (let index = 0; index < tables.length; index++) {
+    const mapping = suggestChartMapping(tables[index], index);
+    if (mapping) return mapping;
+  }
+  return null;
+};
+
+// Chart the section's tables or figures, or return null so the other generators take over
+export const generateDataDiagram = (
+  section: Pick<AnimationSection, 'heading' | 'content' | 'chartMapping'>
+): GeneratedDiagram | null => {
+  const tables = findDataTables(section.content);
+  const mapping = section.chartMapping && tables[section.chartMapping.tableIndex]
+    ? section.chartMapping
+    : suggestDefaultMapping(tables);
+  if (!mapping) return null;
+
+  const table = tables[mapping.tableIndex];
+  const code = buildChart(table, mapping, section.heading);
+  if (!code) return null;
+
+  return {
+    type: mapping.chartType,
+    code,
+    rationale: `${DIAGRAM_TYPE_LABELS[mapping.chartType]} of ${table.fromText ? table.caption.toLowerCase() : table.caption}.`,
+    source: 'data'
+  };
+};
@@ -0,0 +1,208 @@
+import { toString } from 'mdast-util-to-string';
+import type { Table } from 'mdast';
+import { parseMarkdown } from '@/lib/markdown/sections';
+
+export interface DataTable {
+  caption: string;
+  headers: string[];
+  rows: string[][];
+  // True when the table was assembled from figures in the prose rather than a Markdown table
+  fromText: boolean;
+}
+
+export interface NumericValue {
+  value: number;
+  unit: '%' | 'currency' | 'number';
+  currency?: string;
+}
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  t: 1e12,
+  tn: 1e12,
+  trillion: 1e12,
+};
+
+const NUMBER_PATTERN =
+  /^\s*(\()?([-−+]?)\s*([$€£¥])?\s*((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)\s*(%|k|mn|m|bn|b|tn|t|thousand|million|billion|trillion)?\)?(?![\w.])/i;
+
+// Parse a table cell or figure like "$2.1B", "34%", "1,234" or "(12.5)" into a number
+export const parseNumericValue = (text: string): NumericValue | null => {
+  const match = text.replace(/\*|_/g, '').match(NUMBER_PATTERN);
+  if (!match) return null;
+
+  const [, parenthesis, sign, currency, digits, suffix] = match;
+  let value = parseFloat(digits.replace(/,/g, ''));
+  if (Number.isNaN(value)) return null;
+
+  const normalizedSuffix = suffix?.toLowerCase();
+  if (normalizedSuffix && normalizedSuffix !== '%') {
+    value *= MULTIPLIERS[normalizedSuffix];
+  }
+  // Accounting-style (12) and minus signs both mean negative
+  if (parenthesis || sign === '-' || sign === '−') {
+    value = -value;
+  }
+
+  if (normalizedSuffix === '%') return { value, unit: '%' };
+  if (currency) return { value, unit: 'currency', currency };
+  return { value, unit: 'number' };
+};
+
+export const isYear = (text: string): boolean => /^\s*(1[89]|20)\d{2}\s*$/.test(text);
+
+export const extractTables = (content: string): DataTable[] => {
+  const tree = parseMarkdown(content);
+  const tables: DataTable[] = [];
+
+  const visit = (node: { type: string; children?: unknown[] }) => {
+    if (node.type === 'table') {
+      const [headerRow, ...bodyRows] = (node as Table).children;
+      if (headerRow && bodyRows.length > 0) {
+        tables.push({
+          caption: `Table ${tables.length + 1}`,
+          headers: headerRow.children.map(cell => toString(cell).trim()),
+          rows: bodyRows.map(row => row.children.map(cell => toString(cell).trim())),
+          fromText: false,
+        });
+      }
+      return;
+    }
+    (node.children as { type: string; children?: unknown[] }[] | undefined)?.forEach(visit);
+  };
+  visit(tree);
+
+  return tables;
+};
+
+interface NumericFact {
+  label: string;
+  year?: string;
+  value: NumericValue;
+  raw: string;
+}
+
+const FIGURE_PATTERN =
+  /([$€£¥]\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:k|mn|m|bn|b|tn|t|thousand|million|billion|trillion))?\b|\d[\d,]*(?:\.\d+)?\s?%|\d[\d,]*(?:\.\d+)?\s(?:thousand|million|billion|trillion)\b)/gi;
+
+const LABEL_STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'by', 'at', 'in', 'on', 'for', 'from', 'with', 'and', 'or', 'was', 'were', 'is', 'are',
+  'be', 'been', 'has', 'have', 'had', 'grew', 'rose', 'fell', 'reached', 'increased', 'decreased', 'declined', 'about',
+  'around', 'approximately', 'nearly', 'almost', 'over', 'under', 'roughly', 'some', 'its', 'their', 'accounts',
+  'account', 'accounted', 'share', 'up', 'down', 'while', 'whereas', 'than', 'more', 'less', 'total', 'worth',
+  'holds', 'hold', 'held', 'captures', 'captured', 'controls', 'represents', 'represented', 'makes', 'made',
+  'comprises', 'contributes', 'contributed', 'generates', 'generated', 'earned', 'posted', 'reported', 'hit',
+  'totaled', 'totalled', 'stood', 'stands', 'came', 'amounted', 'just', 'only', 'expected', 'projected',
+]);
+
+// Words just before a figure, minus filler, make a usable label ("cloud revenue" from "cloud revenue grew to $2B")
+const labelBefore = (text: string): string => {
+  const words = text
+    .replace(/[^A-Za-z\u00C0-\u024F0-9\s'-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  const label: string[] = [];
+  for (let i = words.length - 1; i >= 0 && label.length < 4; i--) {
+    const word = words[i];
+    if (/^[\d.,]+$/.test(word) || LABEL_STOPWORDS.has(word.toLowerCase())) {
+      if (label.length > 0) break;
+      continue;
+    }
+    label.unshift(word);
+  }
+  return label.join(' ');
+};
+
+export const extractNumericFacts = (content: string): NumericFact[] => {
+  const facts: NumericFact[] = [];
+  const sentences = content
+    .replace(/```[\s\S]*?```/g, ' ')
+    .split(/(?<=[.!?;])\s+|\n+/)
+    // Tables are charted separately
+    .filter(sentence => !sentence.trim().startsWith('|'));
+
+  sentences.forEach((sentence) => {
+    // "up from $1.6B in 2022" has no subject of its own, so it reuses the sentence's last label
+    let sentenceLabel = '';
+    const clauses = sentence.split(/,\s+(?:and\s+|while\s+|whereas\s+)?|\s+and\s+(?=[^,]*\d)/);
+
+    clauses.forEach((clause) => {
+      const year = clause.match(/\b(?:in|by|for|during|of)\s+((?:1[89]|20)\d{2})\b/i)?.[1];
+      let lastIndex = 0;
+      for (const match of Array.from(clause.matchAll(FIGURE_PATTERN))) {
+        const value = parseNumericValue(match[0]);
+        if (!value) continue;
+        const label = labelBefore(clause.substring(lastIndex, match.index)) || sentenceLabel;
+        lastIndex = (match.index ?? 0) + match[0].length;
+        if (!label) continue;
+        sentenceLabel = label;
+        facts.push({ label, year, value, raw: match[0] });
+      }
+    });
+  });
+
+  return facts;
+};
+
+// Turn figures found in the prose into a table so they can be charted like any other data
+const factsToTable = (facts: NumericFact[]): DataTable | null => {
+  // A value reported for several years is a time series
+  const byYear = facts.filter(fact => fact.year && fact.value.unit !== '%');
+  const years = new Set(byYear.map(fact => fact.year));
+  if (years.size >= 2) {
+    const series = Array.from(years)
+      .sort()
+      .map(year => byYear.find(fact => fact.year === year)!);
+    return {
+      caption: 'Figures by year from the text',
+      headers: ['Year', series[0].label],
+      rows: series.map(fact => [fact.year!, fact.raw]),
+      fromText: true,
+    };
+  }
+
+  const percentages = facts.filter(fact => fact.value.unit === '%');
+  const amounts = facts.filter(fact => fact.value.unit !== '%');
+  const group = percentages.length >= amounts.length ? percentages : amounts;
+  if (group.length < 2) return null;
+
+  const seen = new Set<string>();
+  const unique = group.filter(fact => {
+    const key = fact.label.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (unique.length < 2) return null;
+
+  return {
+    caption: 'Figures from the text',
+    headers: ['Item', group === percentages ? 'Percent' : 'Value'],
+    rows: unique.map(fact => [fact.label, fact.raw]),
+    fromText: true,
+  };
+};
+
+export const findDataTables = (content: string): DataTable[] => {
+  const tables = extractTables(content);
+  const fromText = factsToTable(extractNumericFacts(content));
+  return fromText ? [...tables, fromText] : tables;
+};
+
+// Columns where most cells are numbers; year columns are labels, not values
+export const getNumericColumns = (table: DataTable): number[] =>
+  table.headers
+    .map((_, column) => column)
+    .filter(column => {
+      const cells = table.rows.map(row => row[column] ?? '').filter(cell => cell.trim());
+      if (cells.length === 0 || cells.every(isYear)) return false;
+      const numeric = cells.filter(cell => parseNumericValue(cell) !== null);
+      return numeric.length / cells.length >= 0.6;
+    });
@@ -0,0 +1,241 @@
+export type DatePrecision = 'year' | 'half' | 'quarter' | 'month' | 'day';
+
+export interface DateSpan {
+  // ISO dates (YYYY-MM-DD), so spans sort as strings and drop straight into Gantt charts
+  start: string;
+  end: string;
+  precision: DatePrecision;
+  // Normalized display text such as "Q3 2022", "Mar 2021" or "2019–2022"
+  label: string;
+  isRange: boolean;
+}
+
+export interface DatedEvent {
+  span: DateSpan;
+  label: string;
+  // Heading of the section the event came from, used to group the report-wide view
+  group?: string;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const YEAR = '((?:1[5-9]|20)\\d{2})';
+const DASH = '\\s*(?:–|—|-|to|through|until)\\s*';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const monthIndex = (name: string) => MONTHS.findIndex(month => month.startsWith(name.toLowerCase().replace('.', '').substring(0, 3)));
+const lastDay = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const isoDate = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+const yearSpan = (year: number): Omit<DateSpan, 'isRange'> => ({
+  start: isoDate(year, 1, 1),
+  end: isoDate(year, 12, 31),
+  precision: 'year',
+  label: String(year),
+});
+
+const monthsSpan = (year: number, firstMonth: number, lastMonth: number, precision: DatePrecision, label: string) => ({
+  start: isoDate(year, firstMonth, 1),
+  end: isoDate(year, lastMonth, lastDay(year, lastMonth)),
+  precision,
+  label,
+});
+
+const quarterSpan = (year: number, quarter: number) =>
+  monthsSpan(year, quarter * 3 - 2, quarter * 3, 'quarter', `Q${quarter} ${year}`);
+
+const monthSpan = (year: number, month: number) =>
+  monthsSpan(year, month, month, 'month', `${MONTH_NAMES[month - 1]} ${year}`);
+
+const daySpan = (year: number, month: number, day: number) => {
+  const date = isoDate(year, month, Math.min(day, lastDay(year, month)));
+  return { start: date, end: date, precision: 'day' as const, label: `${MONTH_NAMES[month - 1]} ${day}, ${year}` };
+};
+
+const range = (from: Omit<DateSpan, 'isRange'>, to: Omit<DateSpan, 'isRange'>): DateSpan => ({
+  start: from.start,
+  end: to.end,
+  precision: from.precision,
+  label: `${from.label}–${to.label}`,
+  isRange: true,
+});
+
+const single = (span: Omit<DateSpan, 'isRange'>): DateSpan => ({ ...span, isRange: false });
+
+interface DatePattern {
+  pattern: RegExp;
+  parse: (match: RegExpExecArray) => DateSpan | null;
+}
+
+// Most specific first: where matches overlap, the earlier pattern wins
+const DATE_PATTERNS: DatePattern[] = [
+  {
+    // 2021-03-15, optionally followed by another ISO date as the end of a range
+    pattern: new RegExp(`\\b${YEAR}-(\\d{2})-(\\d{2})(?:${DASH}${YEAR}-(\\d{2})-(\\d{2}))?\\b`, 'gi'),
+    parse: ([, year, month, day, endYear, endMonth, endDay]) => {
+      const from = daySpan(Number(year), Number(month), Number(day));
+      if (Number(month) < 1 || Number(month) > 12) return null;
+      return endYear ? range(from, daySpan(Number(endYear), Number(endMonth), Number(endDay))) : single(from);
+    },
+  },
+  {
+    // March 15, 2021 or March 15th 2021
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+${YEAR}\\b`, 'gi'),
+    parse: ([, month, day, year]) => single(daySpan(Number(year), monthIndex(month) + 1, Number(day))),
+  },
+  {
+    // 15 March 2021
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH}\\s+${YEAR}\\b`, 'gi'),
+    parse: ([, day, month, year]) => single(daySpan(Number(year), monthIndex(month) + 1, Number(day))),
+  },
+  {
+    // March–June 2021, March 2021 or March 2021 to June 2022
+    pattern: new RegExp(`\\b${MONTH}(?:\\s+${YEAR})?(?:${DASH}${MONTH})?\\s+${YEAR}\\b`, 'gi'),
+    parse: ([, month, firstYear, endMonth, year]) => {
+      const from = monthSpan(Number(firstYear ?? year), monthIndex(month) + 1);
+      return endMonth ? range(from, monthSpan(Number(year), monthIndex(endMonth) + 1)) : single(from);
+    },
+  },
+  {
+    // Q3 2022, Q3'22, Q1–Q3 2023
+    pattern: new RegExp(`\\bQ([1-4])(?:${DASH}Q([1-4]))?\\s*(?:'(\\d{2})|(?:of\\s+)?${YEAR})\\b`, 'gi'),
+    parse: ([, quarter, endQuarter, shortYear, year]) => {
+      const fullYear = year ? Number(year) : 2000 + Number(shortYear);
+      const from = quarterSpan(fullYear, Number(quarter));
+      return endQuarter ? range(from, quarterSpan(fullYear, Number(endQuarter))) : single(from);
+    },
+  },
+  {
+    // 2022 Q3
+    pattern: new RegExp(`\\b${YEAR}\\s*Q([1-4])\\b`, 'gi'),
+    parse: ([, year, quarter]) => single(quarterSpan(Number(year), Number(quarter))),
+  },
+  {
+    // H1 2023
+    pattern: new RegExp(`\\bH([12])\\s*(?:'(\\d{2})|${YEAR})\\b`, 'gi'),
+    parse: ([, half, shortYear, year]) => {
+      const fullYear = year ? Number(year) : 2000 + Number(shortYear);
+      return single(monthsSpan(fullYear, half === '1' ? 1 : 7, half === '1' ? 6 : 12, 'half', `H${half} ${fullYear}`));
+    },
+  },
+  {
+    // 2019–2022, 2019-22, from 2019 to 2022, between 2019 and 2022
+    pattern: new RegExp(`\\b(?:(?:from|between)\\s+)?${YEAR}(?:${DASH}|\\s+and\\s+)(\\d{4}|\\d{2})\\b(?!\\s*%)`, 'gi'),
+    parse: ([text, year, endYear]) => {
+      // "and" only joins a range after "between"
+      if (/\sand\s/i.test(text) && !/^between/i.test(text)) return null;
+      const from = Number(year);
+      const to = endYear.length === 2 ? Math.floor(from / 100) * 100 + Number(endYear) : Number(endYear);
+      return to > from ? range(yearSpan(from), yearSpan(to)) : null;
+    },
+  },
+  {
+    // A bare year, but not an amount like $2019 or 2019%
+    pattern: new RegExp(`(?<![$€£¥\\d.,])\\b${YEAR}\\b(?![%.,]?\\d)(?!\\s*%)`, 'gi'),
+    parse: ([, year]) => single(yearSpan(Number(year))),
+  },
+];
+
+export interface DateMatch {
+  index: number;
+  length: number;
+  span: DateSpan;
+}
+
+export const findDates = (text: string): DateMatch[] => {
+  const matches: DateMatch[] = [];
+
+  DATE_PATTERNS.forEach(({ pattern, parse }) => {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (matches.some(existing => start < existing.index + existing.length && end > existing.index)) continue;
+      const span = parse(match);
+      if (span) matches.push({ index: start, length: match[0].length, span });
+    }
+  });
+
+  return matches.sort((a, b) => a.index - b.index);
+};
+
+const FILLER_WORDS = 'in|on|by|during|since|from|between|until|through|as of|around|circa|early|mid|late|of|and|then';
+const LEADING_FILLER = new RegExp(`^(?:(?:${FILLER_WORDS})\\b|[,:\\-–—])(?:\\s*(?:(?:${FILLER_WORDS})\\b|[,:\\-–—]))*\\s*`, 'i');
+const TRAILING_FILLER = new RegExp(`(?:\\s+(?:${FILLER_WORDS}|the)|\\s*[,:\\-–—])+$`, 'i');
+
+// Strip the date and the prepositions around it, keeping what happened
+const cleanLabel = (text: string): string => {
+  const cleaned = text
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/\(\s*\)/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([:,;])/g, '$1')
+    .trim()
+    .replace(LEADING_FILLER, '')
+    .replace(TRAILING_FILLER, '')
+    .replace(/^[^A-Za-zÀ-ɏ0-9]+|[^A-Za-zÀ-ɏ0-9)%]+$/g, '')
+    .trim();
+  return cleaned.charAt(0).toUpperCase() + cleaned.substring(1);
+};
+
+const CLAUSE_SEPARATOR = /[,;]\s+|\s+(?:and then|and|then|before|after|while)\s+/gi;
+const FILLER_BEFORE_DATE = new RegExp(`(?:\\b(?:${FILLER_WORDS}|the)\\s*)+$`, 'i');
+
+// Split a sentence into clauses, except where a separator is part of a date ("March 15, 2018", "between 2019 and 2022")
+const splitClauses = (line: string, dates: DateMatch[]): string[] => {
+  const clauses: string[] = [];
+  let clauseStart = 0;
+  for (const separator of Array.from(line.matchAll(CLAUSE_SEPARATOR))) {
+    const index = separator.index ?? 0;
+    if (dates.some(date => index >= date.index && index < date.index + date.length)) continue;
+    clauses.push(line.substring(clauseStart, index));
+    clauseStart = index + separator[0].length;
+  }
+  clauses.push(line.substring(clauseStart));
+  return clauses.filter(clause => clause.trim());
+};
+
+// Remove every date, and the preposition leading into it, so only the event text is left
+const removeDates = (clause: string, dates: DateMatch[]): string =>
+  [...dates].reverse().reduce(
+    (text, date) => text.substring(0, date.index).replace(FILLER_BEFORE_DATE, '') + ' ' + text.substring(date.index + date.length),
+    clause
+  );
+
+export const extractDatedEvents = (content: string, group?: string): DatedEvent[] => {
+  const events: DatedEvent[] = [];
+  const lines = content
+    .replace(/```[\s\S]*?```/g, ' ')
+    // Table rows read like "2019, Founded"
+    .replace(/^\s*\|(.*)\|\s*$/gm, (_, cells: string) => cells.split('|').map(cell => cell.trim()).join(', '))
+    .split(/(?<=[.!?])\s+|\n+/);
+
+  lines.forEach((line) => {
+    const clauses = splitClauses(line, findDates(line));
+
+    clauses.forEach((clause, index) => {
+      const dates = findDates(clause);
+      if (dates.length === 0) return;
+
+      let label = cleanLabel(removeDates(clause, dates));
+
+      // "In 2019, the company launched X": the date sits in its own clause before the event
+      if (!label && index + 1 < clauses.length && findDates(clauses[index + 1]).length === 0) {
+        label = cleanLabel(clauses[index + 1]);
+      }
+      if (!label) return;
+
+      // A clause with several dates keeps the first; separate events are usually separate clauses
+      events.push({ span: dates[0].span, label, group });
+    });
+  });
+
+  return events;
+};
+
+export const sortEvents = (events: DatedEvent[]): DatedEvent[] =>
+  [...events].sort((a, b) => a.span.start.localeCompare(b.span.start) || a.span.end.localeCompare(b.span.end));
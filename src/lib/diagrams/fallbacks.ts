@@ -0,0 +1,36 @@
+import { AnimationSection, GeneratedDiagram } from '@/lib/types';
+import { generateHeuristicDiagram } from './heuristics';
+import { buildDiagramTemplate, toLabel } from './templates';
+
+type SectionText = Pick<AnimationSection, 'heading' | 'content'>;
+
+const hubFlowchart = (section: SectionText): GeneratedDiagram => ({
+  type: 'flowchart',
+  code: buildDiagramTemplate('flowchart', section),
+  rationale: 'Key points of the section linked to its heading.',
+  source: 'heuristic'
+});
+
+const plainMindmap = (section: SectionText): GeneratedDiagram => ({
+  type: 'mindmap',
+  code: buildDiagramTemplate('mindmap', section),
+  rationale: 'Key points of the section as a mind map.',
+  source: 'heuristic'
+});
+
+const headingOnly = (section: SectionText): GeneratedDiagram => ({
+  type: 'flowchart',
+  code: `graph TD\n    H["${toLabel(section.heading || 'No content to visualize')}"]`,
+  rationale: 'Nothing else in the section could be drawn.',
+  source: 'heuristic'
+});
+
+// Alternatives to try, best first, once a diagram can't be repaired
+export const buildFallbackChain = (failed: GeneratedDiagram, section: SectionText): GeneratedDiagram[] => {
+  const chain: GeneratedDiagram[] = [];
+  if (failed.source === 'llm') {
+    chain.push(generateHeuristicDiagram(section));
+  }
+  chain.push(hubFlowchart(section), plainMindmap(section), headingOnly(section));
+  return chain.filter(candidate => candidate.code !== failed.code);
+};
@@ -0,0 +1,52 @@
+import { AnimationSection, GeneratedDiagram } from '@/lib/types';
+import { generateHeuristicDiagram } from './heuristics';
+import { authorizedFetch } from '@/lib/auth/authorizedFetch';
+import { createLruCache } from '@/lib/cache/lruCache';
+
+// Generated diagrams keyed by heading and content, so re-renders don't hit the model again. Every
+// edit to a section makes a new key, so only the most recent are kept.
+const diagramCache = createLruCache<string, Promise<GeneratedDiagram>>(200);
+
+const requestDiagram = async (section: Pick<AnimationSection, 'heading' | 'content'>): Promise<GeneratedDiagram> => {
+  const response = await authorizedFetch('/api/anthropic/diagram', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ heading: section.heading, content: section.content })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Diagram request failed with status ${response.status}`);
+  }
+
+  const result = await response.json();
+  if (!result.code?.trim()) {
+    throw new Error('Model returned an empty diagram');
+  }
+
+  return {
+    type: result.type,
+    code: result.code,
+    rationale: result.rationale || '',
+    source: 'llm'
+  };
+};
+
+export const generateDiagram = (section: Pick<AnimationSection, 'heading' | 'content'>): Promise<GeneratedDiagram> => {
+  // Skip the network entirely when offline
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return Promise.resolve(generateHeuristicDiagram(section));
+  }
+
+  const cacheKey = `${section.heading}\u0000${section.content}`;
+  const cached = diagramCache.get(cacheKey);
+  if (cached) return cached;
+
+  const pending = requestDiagram(section).catch((error) => {
+    console.warn('Falling back to heuristic diagram:', error);
+    diagramCache.delete(cacheKey);
+    return generateHeuristicDiagram(section);
+  });
+
+  diagramCache.set(cacheKey, pending);
+  return pending;
+};
@@ -0,0 +1,165 @@
+import { AnimationSection, DiagramType, GeneratedDiagram } from '@/lib/types';
+import { buildEventDiagram, findSectionEvents } from './timeline';
+
+export const generateMermaidCode = (content: string, heading: string): string => {
+  // Sanitize inputs to prevent Mermaid syntax errors
+  const sanitizeText = (text: string) => {
+    return text
+      .replace(/"/g, "'")
+      .replace(/[[\]]/g, '')
+      .replace(/[()]/g, '')
+      // Mermaid entity codes for punctuation that ends labels or statements
+      .replace(/[#;:|{}]/g, char => `#${char.charCodeAt(0)};`)
+      .trim();
+  };
+
+  // Helper to check if content contains certain keywords
+  const containsKeywords = (text: string, keywords: string[]): boolean => {
+    return keywords.some(keyword => text.toLowerCase().includes(keyword.toLowerCase()));
+  };
+
+  // Check for trade agreements or partnerships
+  if (containsKeywords(content, ['agreement', 'partnership', 'trade', 'collaboration'])) {
+    let flowchartCode = 'graph LR\n';
+    flowchartCode += `    A(("${sanitizeText(heading)}"))\n`;
+    
+    // Extract key entities
+    const entities = content
+      .split(/[,.;]/)
+      .filter(s => s.trim().length > 0)
+      .slice(0, 4)
+      .map(s => sanitizeText(s.trim()));
+
+    entities.forEach((entity, index) => {
+      flowchartCode += `    A --> B${index}["${entity}"]\n`;
+      flowchartCode += `    style B${index} fill:#e1f5fe,stroke:#01579b\n`;
+    });
+    
+    flowchartCode += `    style A fill:#0277bd,stroke:#01579b,color:#fff\n`;
+    return flowchartCode;
+  }
+
+  // Check for market analysis or opportunities
+  if (containsKeywords(content, ['market', 'growth', 'opportunity', 'expansion'])) {
+    let flowchartCode = 'graph TD\n';
+    flowchartCode += `    M(("${sanitizeText(heading)}"))\n`;
+    
+    const opportunities = content
+      .split(/[.!?]/)
+      .filter(s => s.trim().length > 0 && containsKeywords(s, ['growth', 'opportunity', 'potential', 'market']))
+      .slice(0, 4)
+      .map(s => sanitizeText(s.trim()));
+
+    opportunities.forEach((opp, index) => {
+      flowchartCode += `    M --> O${index}["${opp}"]\n`;
+      flowchartCode += `    style O${index} fill:#f3e5f5,stroke:#4a148c\n`;
+    });
+    
+    flowchartCode += `    style M fill:#7b1fa2,stroke:#4a148c,color:#fff\n`;
+    return flowchartCode;
+  }
+
+  // Check for competitive analysis or comparison
+  if (containsKeywords(content, ['competitive', 'versus', 'vs', 'compared', 'competition'])) {
+    let comparisonCode = 'graph TB\n';
+    comparisonCode += `    subgraph Comparison\n`;
+    
+    const aspects = content
+      .split(/[.!?]/)
+      .filter(s => s.trim().length > 0)
+      .slice(0, 3)
+      .map(s => sanitizeText(s.trim()));
+
+    aspects.forEach((aspect, index) => {
+      comparisonCode += `    A${index}["${aspect}"]\n`;
+    });
+    
+    for (let i = 0; i < aspects.length - 1; i++) {
+      comparisonCode += `    A${i} --> A${i + 1}\n`;
+    }
+    
+    comparisonCode += `    end\n`;
+    comparisonCode += `    style Comparison fill:#f5f5f5,stroke:#333,stroke-width:2px\n`;
+    aspects.forEach((_, index) => {
+      comparisonCode += `    style A${index} fill:#e8eaf6,stroke:#1a237e\n`;
+    });
+    
+    return comparisonCode;
+  }
+
+  // Check for sequential processes or steps
+  if (containsKeywords(content, ['step', 'process', 'timeline', 'sequence', 'first', 'then', 'finally', 'history', 'roadmap', 'milestone'])) {
+    // Chronologies go on a timeline in date order rather than being chained sentence by sentence
+    const events = findSectionEvents({ heading, content });
+    if (events.length >= 2) {
+      return buildEventDiagram(events, heading).code;
+    }
+
+    let sequenceCode = 'graph TD\n';
+    
+    const steps = content
+      .split(/[.!?]/)
+      .filter(s => s.trim().length > 0)
+      .slice(0, 5)
+      .map(s => sanitizeText(s.trim()));
+
+    steps.forEach((step, index) => {
+      sequenceCode += `    S${index}["${step}"]\n`;
+      if (index > 0) {
+        sequenceCode += `    S${index-1} --> S${index}\n`;
+      }
+    });
+    
+    steps.forEach((_, index) => {
+      sequenceCode += `    style S${index} fill:#fff3e0,stroke:#e65100\n`;
+    });
+    
+    return sequenceCode;
+  }
+
+  // Default to a mind map for strategic overviews and general content
+  const keyPoints = content
+    .split(/[.!?]/)
+    .filter(s => s.trim().length > 0)
+    .slice(0, 5);
+
+  if (keyPoints.length > 0) {
+    let mindmapCode = 'mindmap\n';
+    mindmapCode += `  root((${sanitizeText(heading)}))\n`;
+    
+    keyPoints.forEach((point, index) => {
+      const nodeText = sanitizeText(point.substring(0, 50) + (point.length > 50 ? '...' : ''));
+      mindmapCode += `    ${nodeText}\n`;
+    });
+    
+    return mindmapCode;
+  }
+
+  // Fallback to a simple node if no content can be processed
+  return 'graph TD\n    A["No content to visualize"]';
+};
+
+// Infer the diagram type from the Mermaid declaration on the first line
+export const detectDiagramType = (code: string): DiagramType => {
+  const declaration = code.trim().split('\n')[0].trim().toLowerCase();
+
+  if (declaration.startsWith('mindmap')) return 'mindmap';
+  if (declaration.startsWith('sequencediagram')) return 'sequence';
+  if (declaration.startsWith('timeline')) return 'timeline';
+  if (declaration.startsWith('gantt')) return 'gantt';
+  if (declaration.startsWith('pie')) return 'pie';
+  if (declaration.startsWith('quadrantchart')) return 'quadrant';
+  if (declaration.startsWith('xychart')) return 'xychart';
+  return 'flowchart';
+};
+
+// Keyword-based diagram used when the model is unavailable or returns nothing usable
+export const generateHeuristicDiagram = (section: Pick<AnimationSection, 'heading' | 'content'>): GeneratedDiagram => {
+  const code = generateMermaidCode(section.content, section.heading);
+  return {
+    type: detectDiagramType(code),
+    code,
+    rationale: 'Chosen by keyword matching on the section text.',
+    source: 'heuristic'
+  };
+};
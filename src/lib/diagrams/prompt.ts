@@ -0,0 +1,37 @@
+import { DIAGRAM_TYPES } from '@/lib/types';
+
+// Sections longer than this are truncated before being sent to the model
+export const MAX_SECTION_CHARS = 6000;
+
+export const DIAGRAM_SYSTEM_PROMPT = `You turn sections of research reports into a single Mermaid diagram.
+
+Choose the diagram type that best fits the section:
+- flowchart: causes and effects, processes, relationships between actors
+- mindmap: overviews with several loosely related themes
+- sequence: interactions or exchanges between parties over time
+- timeline: dated events or phases
+- gantt: schedules or roadmaps with start and end dates
+- pie: shares of a whole expressed as percentages or amounts
+- quadrant: items compared on two dimensions
+- xychart: numeric series over time or across categories
+
+Rules for the Mermaid code:
+- Output valid Mermaid 11 syntax only, without code fences.
+- Wrap every node label in double quotes and never use double quotes inside a label.
+- Keep labels under 60 characters and use at most 12 nodes.
+- Do not add styling, click handlers or HTML.
+
+The rationale is one sentence explaining why the type suits the section.`;
+
+export const buildDiagramPrompt = (heading: string, content: string): string => {
+  const body = content.length > MAX_SECTION_CHARS
+    ? content.substring(0, MAX_SECTION_CHARS) + '\n[truncated]'
+    : content;
+
+  return `Allowed diagram types: ${DIAGRAM_TYPES.join(', ')}
+
+Section heading: ${heading}
+
+Section content:
+${body}`;
+};
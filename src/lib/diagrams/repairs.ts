@@ -0,0 +1,410 @@
+export interface RepairPass {
+  name: string;
+  description: string;
+  apply: (code: string) => string;
+}
+
+export const MAX_LABEL_LENGTH = 60;
+export const MAX_STATEMENTS = 40;
+
+// Characters that end or change the meaning of an unquoted label, and existing entities to leave alone
+const ESCAPABLE = /(#(?:[a-z]+|\d+);)|([#;:|{}()[\]"<>])/gi;
+
+export const escapeMermaidText = (text: string): string =>
+  text.replace(ESCAPABLE, (match, entity) => entity ?? `#${match.charCodeAt(0)};`);
+
+// Click handlers and links on nodes; diagrams here are only for reading, and their code can come
+// from anyone who can edit or share a report
+const CLICK_DIRECTIVE = /^[ \t]*click[ \t].*(?:\n|$)/gim;
+
+export const stripClickDirectives = (code: string): string => code.replace(CLICK_DIRECTIVE, '');
+
+const escapeQuotes = (text: string): string => text.replace(/"/g, '#quot;');
+
+const declaration = (code: string): 'flowchart' | 'mindmap' | 'other' => {
+  const first = code.trimStart().split('\n')[0].trim().toLowerCase();
+  if (/^(graph|flowchart)\b/.test(first)) return 'flowchart';
+  if (first === 'mindmap') return 'mindmap';
+  return 'other';
+};
+
+const isQuoted = (label: string): boolean => label.length >= 2 && label.startsWith('"') && label.endsWith('"');
+
+const quote = (label: string): string => `"${escapeQuotes(label.trim())}"`;
+
+// Identifier generator that skips names already used in the diagram
+const identifierFactory = (code: string) => {
+  let next = 0;
+  return () => {
+    while (new RegExp(`\\bn${next}\\b`).test(code)) next++;
+    return `n${next++}`;
+  };
+};
+
+const truncateText = (text: string): string => {
+  if (text.length <= MAX_LABEL_LENGTH) return text;
+  // Don't leave half an entity at the cut
+  return text.substring(0, MAX_LABEL_LENGTH - 3).replace(/#\w*$/, '').trimEnd() + '...';
+};
+
+const truncateLabel = (label: string): string =>
+  isQuoted(label) ? `"${truncateText(label.slice(1, -1))}"` : truncateText(label);
+
+// ---------------------------------------------------------------------------
+// Flowchart statements
+
+interface FlowNode {
+  kind: 'node';
+  id: string;
+  open: string;
+  label: string | null;
+  close: string;
+  suffix: string;
+}
+
+interface FlowEdge {
+  kind: 'edge';
+  op: string;
+  label: string | null;
+}
+
+interface FlowSeparator {
+  kind: 'separator';
+}
+
+type FlowPart = FlowNode | FlowEdge | FlowSeparator;
+
+interface FlowStatement {
+  indent: string;
+  parts: FlowPart[];
+}
+
+// Longest openers first so `((` wins over `(`
+const FLOW_SHAPES: [string, string][] = [
+  ['(((', ')))'],
+  ['((', '))'],
+  ['([', '])'],
+  ['[[', ']]'],
+  ['[(', ')]'],
+  ['{{', '}}'],
+  ['[/', '/]'],
+  ['[\\', '\\]'],
+  ['[/', '\\]'],
+  ['[\\', '/]'],
+  ['[', ']'],
+  ['(', ')'],
+  ['{', '}'],
+  ['>', ']'],
+];
+
+const FLOW_DIRECTIVE = /^\s*(graph|flowchart|subgraph|end|style|classDef|class|click|linkStyle|direction|%%)\b/;
+const FLOW_EDGE = /^<?(?:-{2,}|={2,}|-\.+-|~{3})>?(?:[ox](?=\s))?/;
+const FLOW_INLINE_EDGE_TEXT = /(?:^|\s)(?:--|==)\s+[^>|]+?\s*(?:-->|==>|---|===)/;
+const AFTER_NODE = /^\s*(?:$|&|:::|<?(?:-{2,}|={2,}|-\.+-|~{3}))/;
+const RESERVED_IDS = new Set(['end', 'graph', 'flowchart', 'subgraph', 'style', 'class', 'classdef', 'click', 'linkstyle', 'default', 'direction']);
+
+const isEdgeStart = (text: string): boolean => FLOW_EDGE.test(text);
+
+const findCloser = (line: string, start: number, close: string): number => {
+  const quoted = line[start] === '"';
+  let fallback = -1;
+  let index = line.indexOf(close, start);
+  while (index !== -1) {
+    if (AFTER_NODE.test(line.substring(index + close.length))) {
+      if (!quoted || line[index - 1] === '"') return index;
+      if (fallback === -1) fallback = index;
+    }
+    index = line.indexOf(close, index + 1);
+  }
+  return fallback;
+};
+
+const parseFlowStatement = (line: string): FlowStatement | null => {
+  if (!line.trim() || FLOW_DIRECTIVE.test(line) || FLOW_INLINE_EDGE_TEXT.test(line)) return null;
+
+  const indent = line.match(/^\s*/)![0];
+  const parts: FlowPart[] = [];
+  let pos = indent.length;
+
+  while (pos < line.length) {
+    // Node reference: everything up to a shape opener, edge, separator or class suffix
+    let id = '';
+    while (pos < line.length) {
+      const rest = line.substring(pos);
+      if ('[({>&'.includes(line[pos]) || rest.startsWith(':::') || isEdgeStart(rest)) break;
+      id += line[pos];
+      pos++;
+    }
+    id = id.trim();
+    if (!id) return null;
+
+    const node: FlowNode = { kind: 'node', id, open: '', label: null, close: '', suffix: '' };
+    const shape = FLOW_SHAPES.find(([open]) => line.startsWith(open, pos));
+    if (shape) {
+      const [open, close] = shape;
+      const closeIndex = findCloser(line, pos + open.length, close);
+      if (closeIndex === -1) return null;
+      node.open = open;
+      node.close = close;
+      node.label = line.substring(pos + open.length, closeIndex);
+      pos = closeIndex + close.length;
+    }
+
+    const suffix = line.substring(pos).match(/^:::[\w-]+/);
+    if (suffix) {
+      node.suffix = suffix[0];
+      pos += suffix[0].length;
+    }
+    parts.push(node);
+
+    pos += line.substring(pos).match(/^\s*/)![0].length;
+    if (pos >= line.length) break;
+
+    if (line[pos] === '&') {
+      parts.push({ kind: 'separator' });
+      pos++;
+      continue;
+    }
+
+    const op = line.substring(pos).match(FLOW_EDGE);
+    if (!op) return null;
+    pos += op[0].length;
+
+    const edge: FlowEdge = { kind: 'edge', op: op[0], label: null };
+    const labelStart = line.substring(pos).match(/^\s*\|/);
+    if (labelStart) {
+      const start = pos + labelStart[0].length;
+      const end = line[start] === '"' ? line.indexOf('"|', start + 1) + 1 : line.indexOf('|', start);
+      if (end <= 0) return null;
+      edge.label = line.substring(start, end);
+      pos = end + 1;
+    }
+    parts.push(edge);
+    pos += line.substring(pos).match(/^\s*/)![0].length;
+  }
+
+  return { indent, parts };
+};
+
+const formatFlowStatement = (statement: FlowStatement): string =>
+  statement.indent +
+  statement.parts
+    .map((part) => {
+      if (part.kind === 'separator') return ' & ';
+      if (part.kind === 'edge') return ` ${part.op}${part.label !== null ? `|${part.label}|` : ''} `;
+      return `${part.id}${part.open}${part.label ?? ''}${part.close}${part.suffix}`;
+    })
+    .join('')
+    .replace(/\s+&\s+/g, ' & ')
+    .replace(/ {2,}/g, ' ');
+
+const mapFlowStatements = (code: string, map: (statement: FlowStatement, index: number) => FlowStatement | null): string => {
+  let index = 0;
+  return code
+    .split('\n')
+    .flatMap((line, lineNumber) => {
+      if (lineNumber === 0) return [line];
+      const statement = parseFlowStatement(line);
+      if (!statement) return [line];
+      const mapped = map(statement, index++);
+      return mapped ? [formatFlowStatement(mapped)] : [];
+    })
+    .join('\n');
+};
+
+const mapFlowLabels = (code: string, map: (label: string) => string): string =>
+  mapFlowStatements(code, (statement) => ({
+    ...statement,
+    parts: statement.parts.map((part) =>
+      part.kind !== 'separator' && part.label !== null ? { ...part, label: map(part.label) } : part
+    ),
+  }));
+
+const rewriteFlowIdentifiers = (code: string): string => {
+  const renamed = new Map<string, string>();
+  const nextId = identifierFactory(code);
+  const rename = (id: string) => {
+    if (!renamed.has(id)) renamed.set(id, nextId());
+    return renamed.get(id)!;
+  };
+
+  const rewritten = mapFlowStatements(code, (statement) => ({
+    ...statement,
+    parts: statement.parts.map((part) => {
+      if (part.kind !== 'node') return part;
+      if (/^[A-Za-z_][\w-]*$/.test(part.id) && !part.id.endsWith('-') && !RESERVED_IDS.has(part.id.toLowerCase())) {
+        return part;
+      }
+      // Keep the original text visible when the node had no explicit label
+      if (part.label === null) {
+        return { ...part, id: rename(part.id), open: '[', label: quote(part.id), close: ']' };
+      }
+      return { ...part, id: rename(part.id) };
+    }),
+  }));
+
+  if (renamed.size === 0) return rewritten;
+
+  // Point style and class directives at the new identifiers; click directives are never rendered
+  return rewritten
+    .split('\n')
+    .map((line) => {
+      const directive = line.match(/^(\s*(?:style|class)\s+)([^\s]+)(.*)$/);
+      if (!directive) return line;
+      const ids = directive[2].split(',').map((id) => renamed.get(id) ?? id);
+      return `${directive[1]}${ids.join(',')}${directive[3]}`;
+    })
+    .join('\n');
+};
+
+const truncateFlowchart = (code: string): string =>
+  mapFlowStatements(code, (statement, index) =>
+    index >= MAX_STATEMENTS
+      ? null
+      : {
+          ...statement,
+          parts: statement.parts.map((part) =>
+            part.kind !== 'separator' && part.label !== null ? { ...part, label: truncateLabel(part.label) } : part
+          ),
+        }
+  );
+
+// ---------------------------------------------------------------------------
+// Mindmap nodes
+
+const MINDMAP_SHAPES: [string, string][] = [
+  ['((', '))'],
+  ['))', '(('],
+  ['{{', '}}'],
+  ['[', ']'],
+  ['(', ')'],
+  [')', '('],
+];
+
+interface MindmapNode {
+  indent: string;
+  id: string;
+  open: string;
+  text: string;
+  close: string;
+}
+
+const parseMindmapNode = (line: string): MindmapNode | null => {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('%%') || trimmed.startsWith('::')) return null;
+
+  const indent = line.match(/^\s*/)![0];
+  for (const [open, close] of MINDMAP_SHAPES) {
+    const openIndex = trimmed.indexOf(open);
+    const id = trimmed.substring(0, openIndex);
+    if (openIndex !== -1 && trimmed.endsWith(close) && !/\s/.test(id) && openIndex + open.length <= trimmed.length - close.length) {
+      return { indent, id, open, text: trimmed.substring(openIndex + open.length, trimmed.length - close.length), close };
+    }
+  }
+  return { indent, id: '', open: '', text: trimmed, close: '' };
+};
+
+const mapMindmapNodes = (code: string, map: (node: MindmapNode, index: number) => MindmapNode | null): string => {
+  let index = 0;
+  return code
+    .split('\n')
+    .flatMap((line, lineNumber) => {
+      if (lineNumber === 0) return [line];
+      const node = parseMindmapNode(line);
+      if (!node) return [line];
+      const mapped = map(node, index++);
+      return mapped ? [`${mapped.indent}${mapped.id}${mapped.open}${mapped.text}${mapped.close}`] : [];
+    })
+    .join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// Passes, applied cumulatively in this order until the diagram parses
+
+export const REPAIR_PASSES: RepairPass[] = [
+  {
+    name: 'strip-fences',
+    description: 'Removed Markdown code fences',
+    apply: (code) =>
+      code
+        .replace(/^\s*```(?:mermaid)?\s*\n?/i, '')
+        .replace(/\n?```\s*$/, '')
+        .replace(/\r\n/g, '\n')
+        .trim(),
+  },
+  {
+    name: 'escape-characters',
+    description: 'Escaped special characters in labels',
+    apply: (code) => {
+      switch (declaration(code)) {
+        case 'flowchart':
+          return mapFlowLabels(code, (label) =>
+            isQuoted(label) ? `"${escapeQuotes(label.slice(1, -1))}"` : escapeMermaidText(label)
+          );
+        case 'mindmap':
+          return mapMindmapNodes(code, (node) =>
+            node.open || isQuoted(node.text) ? node : { ...node, text: escapeMermaidText(node.text) }
+          );
+        case 'other':
+          return code;
+      }
+    },
+  },
+  {
+    name: 'quote-labels',
+    description: 'Quoted node labels',
+    apply: (code) => {
+      switch (declaration(code)) {
+        case 'flowchart':
+          return mapFlowLabels(code, (label) => (isQuoted(label) ? label : quote(label)));
+        case 'mindmap': {
+          const nextId = identifierFactory(code);
+          return mapMindmapNodes(code, (node) => {
+            if (isQuoted(node.text)) return node;
+            if (node.open) return { ...node, text: quote(node.text) };
+            return { ...node, id: nextId(), open: '[', text: quote(node.text), close: ']' };
+          });
+        }
+        case 'other':
+          return code;
+      }
+    },
+  },
+  {
+    name: 'rewrite-identifiers',
+    description: 'Renamed invalid or reserved node identifiers',
+    apply: (code) => {
+      switch (declaration(code)) {
+        case 'flowchart':
+          return rewriteFlowIdentifiers(code);
+        case 'mindmap': {
+          const nextId = identifierFactory(code);
+          return mapMindmapNodes(code, (node) =>
+            node.open && !/^[\w-]*$/.test(node.id) ? { ...node, id: nextId() } : node
+          );
+        }
+        case 'other':
+          return code;
+      }
+    },
+  },
+  {
+    name: 'truncate',
+    description: 'Shortened long labels and dropped excess nodes',
+    apply: (code) => {
+      switch (declaration(code)) {
+        case 'flowchart':
+          return truncateFlowchart(code);
+        case 'mindmap':
+          return mapMindmapNodes(code, (node, index) =>
+            index >= MAX_STATEMENTS ? null : { ...node, text: isQuoted(node.text) ? truncateLabel(node.text) : truncateText(node.text) }
+          );
+        case 'other':
+          return code
+            .split('\n')
+            .slice(0, MAX_STATEMENTS + 1)
+            .join('\n');
+      }
+    },
+  },
+];
@@ -0,0 +1,101 @@
+import { AnimationSection, DiagramType } from '@/lib/types';
+import { escapeMermaidText, MAX_LABEL_LENGTH } from './repairs';
+import { buildGantt, buildTimeline, findSectionEvents } from './timeline';
+
+type SectionText = Pick<AnimationSection, 'heading' | 'content'>;
+
+const shorten = (text: string, length: number): string => {
+  const trimmed = text.trim();
+  return trimmed.length > length ? trimmed.substring(0, length - 3).trimEnd() + '...' : trimmed;
+};
+
+// Escaped label text that is safe inside a quoted Mermaid label
+export const toLabel = (text: string, length = MAX_LABEL_LENGTH): string => escapeMermaidText(shorten(text, length));
+
+// Plain text for places where Mermaid doesn't decode entities (titles, task and point names)
+const toPlainText = (text: string, length = MAX_LABEL_LENGTH): string =>
+  shorten(text.replace(/[#;:|{}()[\]"<>,]/g, ' ').replace(/\s+/g, ' '), length);
+
+export const extractKeyPoints = (content: string, limit = 5): string[] =>
+  content
+    .split(/[.!?]\s|\n/)
+    .map(s => s.replace(/^(?:[\s#>*+-]+|\d+\.\s+)+/, '').trim())
+    .filter(s => s.length > 0)
+    .slice(0, limit);
+
+// Starter code for each diagram type, seeded with the section's heading and key points
+export const buildDiagramTemplate = (type: DiagramType, section: SectionText): string => {
+  const heading = section.heading || 'Untitled section';
+  const points = extractKeyPoints(section.content);
+  if (points.length === 0) points.push(heading);
+  const events = type === 'timeline' || type === 'gantt' ? findSectionEvents(section) : [];
+
+  switch (type) {
+    case 'flowchart':
+      return [
+        'graph LR',
+        `    H(("${toLabel(heading)}"))`,
+        ...points.map((point, index) => `    H --> P${index}["${toLabel(point)}"]`),
+      ].join('\n');
+    case 'mindmap':
+      return [
+        'mindmap',
+        `  root(("${toLabel(heading)}"))`,
+        ...points.map((point, index) => `    p${index}["${toLabel(point)}"]`),
+      ].join('\n');
+    case 'sequence':
+      return [
+        'sequenceDiagram',
+        '    participant A as Party A',
+        '    participant B as Party B',
+        ...points.map((point, index) => (index % 2 === 0 ? `    A->>B: ${toLabel(point)}` : `    B-->>A: ${toLabel(point)}`)),
+      ].join('\n');
+    case 'timeline':
+      // Start from the section's own dates when it has any
+      if (events.length > 0) return buildTimeline(events, heading);
+      return [
+        'timeline',
+        `    title ${toPlainText(heading)}`,
+        ...points.map((point, index) => `    Step ${index + 1} : ${toPlainText(point)}`),
+      ].join('\n');
+    case 'gantt':
+      if (events.length > 0) return buildGantt(events, heading);
+      return [
+        'gantt',
+        `    title ${toPlainText(heading)}`,
+        '    dateFormat YYYY-MM-DD',
+        `    section ${toPlainText(heading, 30)}`,
+        ...points.map((point, index) =>
+          `    ${toPlainText(point, 40)} :t${index}, ${index === 0 ? '2024-01-01' : `after t${index - 1}`}, 30d`
+        ),
+      ].join('\n');
+    case 'pie':
+      return [
+        `pie title ${toPlainText(heading)}`,
+        ...points.map(point => `    "${toPlainText(point, 30)}" : 1`),
+      ].join('\n');
+    case 'quadrant':
+      return [
+        'quadrantChart',
+        `    title ${toPlainText(heading)}`,
+        '    x-axis Low --> High',
+        '    y-axis Low --> High',
+        '    quadrant-1 Priority',
+        '    quadrant-2 Monitor',
+        '    quadrant-3 Ignore',
+        '    quadrant-4 Quick wins',
+        ...points.map((point, index) => {
+          const position = ((index + 1) / (points.length + 1)).toFixed(2);
+          return `    ${toPlainText(point, 24)}: [${position}, ${position}]`;
+        }),
+      ].join('\n');
+    case 'xychart':
+      return [
+        'xychart-beta',
+        `    title "${toPlainText(heading)}"`,
+        `    x-axis [${points.map((_, index) => `"${index + 1}"`).join(', ')}]`,
+        '    y-axis "Value" 0 --> 10',
+        `    bar [${points.map(() => 5).join(', ')}]`,
+      ].join('\n');
+  }
+};
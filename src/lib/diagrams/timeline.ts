@@ -0,0 +1,107 @@
+import { AnimationSection, GeneratedDiagram } from '@/lib/types';
+import { DatedEvent, extractDatedEvents, sortEvents } from './dates';
+
+type SectionText = Pick<AnimationSection, 'heading' | 'content'>;
+
+const MAX_PERIODS = 12;
+const MAX_EVENTS_PER_PERIOD = 3;
+const MAX_TASKS = 20;
+// Sections need this many distinct dates before they read as a chronology
+const MIN_TIMELINE_EVENTS = 3;
+
+// Timeline and Gantt lines split on colons and treat # and ; specially, and neither decodes entities
+const plainText = (text: string, length = 50): string => {
+  const cleaned = text.replace(/[#;:|{}[\]"<>]/g, ' ').replace(/\s+/g, ' ').trim();
+  return cleaned.length > length ? cleaned.substring(0, length - 3).trimEnd() + '...' : cleaned;
+};
+
+// Drop repeats of the same event on the same date, which happen when a fact is restated
+const dedupe = (events: DatedEvent[]): DatedEvent[] => {
+  const seen = new Set<string>();
+  return events.filter(event => {
+    const key = `${event.span.start}|${event.span.end}|${event.label.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const buildTimeline = (events: DatedEvent[], title: string): string => {
+  const periods: { label: string; events: string[] }[] = [];
+  sortEvents(events).forEach(event => {
+    const last = periods[periods.length - 1];
+    if (last && last.label === event.span.label) {
+      if (last.events.length < MAX_EVENTS_PER_PERIOD) last.events.push(plainText(event.label));
+      return;
+    }
+    periods.push({ label: event.span.label, events: [plainText(event.label)] });
+  });
+
+  return [
+    'timeline',
+    `    title ${plainText(title, 60)}`,
+    ...periods.slice(0, MAX_PERIODS).map(period => `    ${plainText(period.label, 30)} : ${period.events.join(' : ')}`),
+  ].join('\n');
+};
+
+// Gantt sections keep the report-wide view grouped by where each event came from
+export const buildGantt = (events: DatedEvent[], title: string): string => {
+  const lines = [
+    'gantt',
+    `    title ${plainText(title, 60)}`,
+    '    dateFormat YYYY-MM-DD',
+    '    axisFormat %Y-%m',
+  ];
+
+  const sorted = sortEvents(events).slice(0, MAX_TASKS);
+  const groups = Array.from(new Set(sorted.map(event => event.group ?? title)));
+
+  groups.forEach(group => {
+    lines.push(`    section ${plainText(group, 30)}`);
+    sorted
+      .filter(event => (event.group ?? title) === group)
+      .forEach(event => {
+        const name = plainText(event.label, 40);
+        // Single days are milestones; everything else is a bar across its period
+        lines.push(event.span.start === event.span.end
+          ? `    ${name} :milestone, ${event.span.start}, 0d`
+          : `    ${name} :${event.span.start}, ${event.span.end}`);
+      });
+  });
+
+  return lines.join('\n');
+};
+
+// Roadmaps and phased plans have periods that span time; plain histories are points in time
+const prefersGantt = (events: DatedEvent[], title: string): boolean =>
+  events.filter(event => event.span.isRange).length >= 2 || /roadmap|schedule|plan|phase/i.test(title);
+
+export const buildEventDiagram = (events: DatedEvent[], title: string): Pick<GeneratedDiagram, 'type' | 'code'> =>
+  prefersGantt(events, title)
+    ? { type: 'gantt', code: buildGantt(events, title) }
+    : { type: 'timeline', code: buildTimeline(events, title) };
+
+export const findSectionEvents = (section: SectionText): DatedEvent[] =>
+  dedupe(extractDatedEvents(section.content, section.heading));
+
+// Chart a chronology from the section's dates, or return null so the other generators take over
+export const generateTimelineDiagram = (section: SectionText): GeneratedDiagram | null => {
+  const events = findSectionEvents(section);
+  const distinctDates = new Set(events.map(event => event.span.label));
+  if (distinctDates.size < MIN_TIMELINE_EVENTS) return null;
+
+  const { type, code } = buildEventDiagram(events, section.heading);
+  return {
+    type,
+    code,
+    rationale: `${events.length} dated events placed in order.`,
+    source: 'data'
+  };
+};
+
+// One chronology for the whole report, merging the dated events from every section
+export const buildReportTimeline = (sections: SectionText[], title: string): Pick<GeneratedDiagram, 'type' | 'code'> | null => {
+  const events = dedupe(sections.flatMap(section => extractDatedEvents(section.content, section.heading)));
+  if (events.length < 2) return null;
+  return buildEventDiagram(events, title);
+};
@@ -0,0 +1,73 @@
+import mermaid from 'mermaid';
+import { AnimationSection, GeneratedDiagram } from '@/lib/types';
+import { buildFallbackChain } from './fallbacks';
+import { REPAIR_PASSES } from './repairs';
+
+export interface MermaidValidation {
+  valid: boolean;
+  error?: string;
+}
+
+export interface RepairResult extends MermaidValidation {
+  code: string;
+  repairs: string[];
+}
+
+export const validateMermaid = async (code: string): Promise<MermaidValidation> => {
+  try {
+    await mermaid.parse(code);
+    return { valid: true };
+  } catch (error) {
+    return { valid: false, error: (error as Error).message };
+  }
+};
+
+// Apply repair passes in order, keeping each one's changes, until the code parses
+export const repairMermaid = async (code: string): Promise<RepairResult> => {
+  let validation = await validateMermaid(code);
+  if (validation.valid) {
+    return { code, valid: true, repairs: [] };
+  }
+
+  let current = code;
+  const repairs: string[] = [];
+
+  for (const pass of REPAIR_PASSES) {
+    const next = pass.apply(current);
+    if (next === current) continue;
+
+    current = next;
+    repairs.push(pass.name);
+    validation = await validateMermaid(current);
+    if (validation.valid) {
+      return { code: current, valid: true, repairs };
+    }
+  }
+
+  return { code: current, valid: false, repairs, error: validation.error };
+};
+
+export const describeRepairs = (repairs: string[]): string[] =>
+  repairs.map(name => REPAIR_PASSES.find(pass => pass.name === name)?.description ?? name);
+
+// Repair the diagram, or walk the fallback chain until something renders
+export const validateDiagram = async (
+  diagram: GeneratedDiagram,
+  section: Pick<AnimationSection, 'heading' | 'content'>
+): Promise<GeneratedDiagram> => {
+  const repaired = await repairMermaid(diagram.code);
+  if (repaired.valid) {
+    return { ...diagram, code: repaired.code, repairs: repaired.repairs };
+  }
+
+  console.warn(`Could not repair ${diagram.type} diagram:`, repaired.error);
+
+  for (const candidate of buildFallbackChain(diagram, section)) {
+    const result = await repairMermaid(candidate.code);
+    if (result.valid) {
+      return { ...candidate, code: result.code, repairs: result.repairs, fallbackFrom: diagram.type };
+    }
+  }
+
+  throw new Error(repaired.error || 'Diagram is not valid Mermaid');
+};
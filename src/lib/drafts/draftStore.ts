@@ -0,0 +1,28 @@
+import { Draft, PendingSave } from '@/lib/types';
+import { run, STORES } from '@/lib/storage/localDatabase';
+
+export const getDraft = async (userId: string): Promise<Draft | null> =>
+  (await run<Draft | undefined>(STORES.drafts, 'readonly', store => store.get(userId))) ?? null;
+
+export const saveDraft = async (draft: Omit<Draft, 'savedAt'>) => {
+  await run(STORES.drafts, 'readwrite', store => store.put({ ...draft, savedAt: new Date() }));
+};
+
+export const deleteDraft = async (userId: string) => {
+  await run(STORES.drafts, 'readwrite', store => store.delete(userId));
+};
+
+// Oldest first, the order they were made in
+export const getPendingSaves = async (userId: string): Promise<PendingSave[]> => {
+  const saves = await run<PendingSave[]>(STORES.pendingSaves, 'readonly', store => store.index('userId').getAll(userId));
+  return saves.sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime());
+};
+
+// A later save of the same report replaces the earlier one, since it holds everything the earlier one did
+export const putPendingSave = async (save: PendingSave) => {
+  await run(STORES.pendingSaves, 'readwrite', store => store.put(save));
+};
+
+export const deletePendingSave = async (key: string) => {
+  await run(STORES.pendingSaves, 'readwrite', store => store.delete(key));
+};
@@ -0,0 +1,97 @@
+import { PendingSave } from '@/lib/types';
+import { getReportRepository, isReportConflict } from '@/lib/storage/reportRepository';
+import { isLocalStorage } from '@/lib/storage/config';
+import { deletePendingSave, getPendingSaves, putPendingSave } from './draftStore';
+
+export interface SyncedSave {
+  save: PendingSave;
+  reportId: string;
+  version: number;
+  updatedAt: Date;
+}
+
+export interface SyncResult {
+  synced: SyncedSave[];
+  // Saves held back because the report changed elsewhere, until the user picks which to keep
+  conflicts: PendingSave[];
+  // Saves set aside because they can never be written as they are
+  failed: PendingSave[];
+}
+
+// Reports kept in the browser can always be saved
+export const isOffline = () => !isLocalStorage && typeof navigator !== 'undefined' && !navigator.onLine;
+
+// Firestore's code for a backend it can't reach
+export const isOfflineError = (error: unknown) =>
+  isOffline() || (error as { code?: string } | null)?.code === 'unavailable';
+
+// Firestore's codes for writes that fail the same way however often they're retried
+const FAILURE_MESSAGES: Record<string, string> = {
+  'permission-denied': "You're no longer allowed to save this report",
+  'not-found': 'The report was deleted',
+  'invalid-argument': "The report can't be saved as it is",
+};
+
+const failureOf = (error: unknown): string | null => FAILURE_MESSAGES[(error as { code?: string } | null)?.code ?? ''] ?? null;
+
+const writePendingSave = async (save: PendingSave, overwrite = false): Promise<SyncedSave> => {
+  const repository = await getReportRepository();
+  if (save.reportId) {
+    const { version, updatedAt } = await repository.updateReport(
+      save.reportId,
+      save.content,
+      overwrite ? {} : { expectedUpdatedAt: save.baseUpdatedAt }
+    );
+    return { save, reportId: save.reportId, version, updatedAt };
+  }
+  const now = new Date();
+  const reportId = await repository.saveReport({ userId: save.userId, ...save.content, createdAt: now, updatedAt: now });
+  return { save, reportId, version: 1, updatedAt: now };
+};
+
+// Writes the saves made while offline, oldest first; stops at the first one that can't reach
+// Firestore, leaving it and the rest queued for next time
+export const syncPendingSaves = async (userId: string): Promise<SyncResult> => {
+  const result: SyncResult = { synced: [], conflicts: [], failed: [] };
+  for (const save of await getPendingSaves(userId)) {
+    if (save.conflict) {
+      result.conflicts.push(save);
+      continue;
+    }
+    if (save.failure) {
+      result.failed.push(save);
+      continue;
+    }
+    try {
+      result.synced.push(await writePendingSave(save));
+      await deletePendingSave(save.key);
+    } catch (error) {
+      const failure = failureOf(error);
+      if (isReportConflict(error)) {
+        const conflict = { ...save, conflict: true };
+        await putPendingSave(conflict);
+        result.conflicts.push(conflict);
+      } else if (isOfflineError(error)) {
+        break;
+      } else if (failure) {
+        const failed = { ...save, failure };
+        await putPendingSave(failed);
+        result.failed.push(failed);
+      } else {
+        // Left queued, so nothing is lost if it fails for a reason that passes
+        console.error('Error syncing offline save:', error);
+      }
+    }
+  }
+  return result;
+};
+
+// Settles a conflict by overwriting the server's version with the offline save, or by dropping the save
+export const resolveConflict = async (save: PendingSave, keep: 'mine' | 'theirs'): Promise<SyncedSave | null> => {
+  const synced = keep === 'mine' ? await writePendingSave(save, true) : null;
+  await deletePendingSave(save.key);
+  return synced;
+};
+
+// A save that failed for good, once the user has opened it in the editor or given up on it
+export const discardFailedSave = (save: PendingSave) => deletePendingSave(save.key);
@@ -0,0 +1,116 @@
+import mermaid from 'mermaid';
+import { AnimationSection } from '@/lib/types';
+
+// Set on a section's diagram wrapper in ReportDocument and on the rendered container in MermaidDiagram
+export const DIAGRAM_SECTION_ATTRIBUTE = 'data-diagram-section';
+export const DIAGRAM_CODE_ATTRIBUTE = 'data-mermaid-code';
+
+// The Mermaid code each section's diagram was last rendered from, by section index. Sections whose
+// diagram failed to render are missing, so exporters can't attach a diagram to the wrong heading.
+export const collectDiagramCodes = (root: HTMLElement): Map<number, string> => {
+  const codes = new Map<number, string>();
+  root.querySelectorAll<HTMLElement>(`[${DIAGRAM_SECTION_ATTRIBUTE}]`).forEach(wrapper => {
+    const code = wrapper.querySelector<HTMLElement>(`[${DIAGRAM_CODE_ATTRIBUTE}]`)?.getAttribute(DIAGRAM_CODE_ATTRIBUTE);
+    if (code) codes.set(Number(wrapper.getAttribute(DIAGRAM_SECTION_ATTRIBUTE)), code);
+  });
+  return codes;
+};
+
+// What a section's diagram is generated from, so rendered code can be matched to the section it shows
+const diagramSourceKey = ({ heading, content, customDiagram, chartMapping }: AnimationSection): string =>
+  JSON.stringify([heading, content, customDiagram?.code ?? null, chartMapping ?? null]);
+
+// The rendered code of each of `sections`, taken from diagrams drawn for `renderedSections`, which can
+// be older while live edits settle. Sections whose diagram hasn't rendered from their text get ''.
+export const diagramCodesForSections = (
+  root: HTMLElement,
+  renderedSections: AnimationSection[],
+  sections: AnimationSection[]
+): string[] => {
+  const rendered = collectDiagramCodes(root);
+  const codes = new Map<string, string>();
+  renderedSections.forEach((section, index) => {
+    const code = rendered.get(index);
+    if (code) codes.set(diagramSourceKey(section), code);
+  });
+  return sections.map(section => codes.get(diagramSourceKey(section)) ?? '');
+};
+
+// HTML labels are drawn with foreignObject, which PDF, DOCX and slide exporters can't convert
+const SVG_LABELS_DIRECTIVE = '%%{init: {"htmlLabels": false, "flowchart": {"htmlLabels": false}}}%%';
+
+let exportCount = 0;
+
+export interface RenderedDiagram {
+  svg: SVGSVGElement;
+  // Size in CSS pixels, from the viewBox
+  width: number;
+  height: number;
+  dispose: () => void;
+}
+
+// Renders diagram code to an SVG element with plain text labels. The element is attached off-screen
+// because text measurement needs layout; call dispose when done with it.
+export const renderExportDiagram = async (code: string): Promise<RenderedDiagram> => {
+  const { svg } = await mermaid.render(`mermaid-export-${exportCount++}`, `${SVG_LABELS_DIRECTIVE}\n${code}`);
+
+  const container = document.createElement('div');
+  container.style.position = 'absolute';
+  container.style.left = '-10000px';
+  container.style.top = '0';
+  container.innerHTML = svg;
+  document.body.appendChild(container);
+
+  const element = container.querySelector('svg');
+  if (!element) {
+    container.remove();
+    throw new Error('Mermaid returned no SVG');
+  }
+
+  const viewBox = element.viewBox.baseVal;
+  const bounds = element.getBoundingClientRect();
+  return {
+    svg: element,
+    width: viewBox?.width || bounds.width || 800,
+    height: viewBox?.height || bounds.height || 600,
+    dispose: () => container.remove(),
+  };
+};
+
+// Standalone SVG markup, with the namespace and size that files and image decoders need
+export const svgMarkup = ({ svg, width, height }: RenderedDiagram): string => {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(height));
+  copy.style.removeProperty('max-width');
+  return new XMLSerializer().serializeToString(copy);
+};
+
+// PNG of the diagram on white, for formats that need a bitmap alongside or instead of the SVG
+export const rasterizeDiagram = async (diagram: RenderedDiagram, scale = 2): Promise<Uint8Array> => {
+  const url = URL.createObjectURL(new Blob([svgMarkup(diagram)], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error('Could not load the diagram SVG'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(diagram.width * scale);
+    canvas.height = Math.ceil(diagram.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode the diagram as PNG');
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,299 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import type { BlockContent, Definition, DefinitionContent, List, PhrasingContent, RootContent, Table as MarkdownTable } from 'mdast';
+import { ReportExport } from '@/lib/types';
+import { parseMarkdown } from '@/lib/markdown/sections';
+import { sourceMarker } from '@/lib/markdown/citations';
+import { rasterizeDiagram, renderExportDiagram, svgMarkup } from './diagrams';
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+const ORDERED_LIST = 'ordered-list';
+// Twips, as Word measures indents
+const INDENT = 720;
+// Widest an image can be on an A4 or Letter page with default margins, in pixels
+const MAX_IMAGE_WIDTH = 600;
+const MAX_IMAGE_HEIGHT = 800;
+const CODE_FONT = 'Courier New';
+const CODE_SHADING = { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' };
+const MUTED_COLOR = '6B7280';
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  color?: string;
+}
+
+type Block = Paragraph | Table;
+
+interface BlockContext {
+  // Left indent in twips, for block quotes and list item continuations
+  indent: number;
+  quote: boolean;
+  // Numbering for the first paragraph of a list item
+  list?: { bullet: { level: number } } | { numbering: { reference: string; level: number; instance: number } };
+}
+
+const renderDiagramParagraph = async (code: string, heading: string): Promise<Paragraph> => {
+  try {
+    const diagram = await renderExportDiagram(code);
+    try {
+      const scale = Math.min(MAX_IMAGE_WIDTH / diagram.width, MAX_IMAGE_HEIGHT / diagram.height, 1);
+      const transformation = { width: Math.round(diagram.width * scale), height: Math.round(diagram.height * scale) };
+      // Word 2016 and later draw the SVG; older versions and other editors show the PNG
+      const image = new ImageRun({
+        type: 'svg',
+        data: new TextEncoder().encode(svgMarkup(diagram)),
+        fallback: { type: 'png', data: await rasterizeDiagram(diagram) },
+        transformation,
+        altText: { name: heading, title: heading, description: `Diagram: ${heading}` },
+      });
+      return new Paragraph({ children: [image], alignment: AlignmentType.CENTER, spacing: { before: 120, after: 240 } });
+    } finally {
+      diagram.dispose();
+    }
+  } catch (error) {
+    console.error(`Error exporting the diagram for "${heading}":`, error);
+    return new Paragraph({ children: [new TextRun({ text: 'This diagram could not be exported.', italics: true, color: MUTED_COLOR })] });
+  }
+};
+
+// A Word document using the built-in heading, list and hyperlink styles, so it takes on the look of
+// whatever template it's pasted into, with each section's diagram as an image under its heading
+export const exportReportDocx = async ({ title, markdown, sections, sources, diagramCodes }: ReportExport): Promise<Blob> => {
+  const tree = parseMarkdown(markdown);
+  const definitions = new Map<string, Definition>();
+  tree.children.forEach(node => {
+    if (node.type === 'definition') definitions.set(node.identifier, node);
+  });
+  const sectionByLine = new Map(sections.map((section, index) => [section.lineIndex, index]));
+
+  const diagrams = new Map<number, Paragraph>();
+  for (const [index, code] of Array.from(diagramCodes.entries())) {
+    if (sections[index]) diagrams.set(index, await renderDiagramParagraph(code, sections[index].heading));
+  }
+
+  // Each ordered list restarts its numbering as a new instance of the shared definition
+  let listInstance = 0;
+
+  const textRun = (text: string, style: RunStyle, hyperlink = false) =>
+    new TextRun({
+      text,
+      bold: style.bold,
+      italics: style.italics,
+      strike: style.strike,
+      color: style.color,
+      font: style.code ? CODE_FONT : undefined,
+      shading: style.code ? CODE_SHADING : undefined,
+      style: hyperlink ? 'Hyperlink' : undefined,
+    });
+
+  const inlines = (nodes: PhrasingContent[], style: RunStyle = {}, url?: string): (TextRun | ExternalHyperlink)[] =>
+    nodes.flatMap((node): (TextRun | ExternalHyperlink)[] => {
+      switch (node.type) {
+        case 'text':
+          return [textRun(node.value.replace(/\n/g, ' '), style, !!url)];
+        case 'strong':
+          return inlines(node.children, { ...style, bold: true }, url);
+        case 'emphasis':
+          return inlines(node.children, { ...style, italics: true }, url);
+        case 'delete':
+          return inlines(node.children, { ...style, strike: true }, url);
+        case 'inlineCode':
+          return [textRun(node.value, { ...style, code: true }, !!url)];
+        case 'break':
+          return [new TextRun({ break: 1 })];
+        case 'footnoteReference':
+          return [new TextRun({ text: `[${node.label ?? node.identifier}]`, superScript: true })];
+        case 'image':
+        case 'imageReference':
+          return [textRun(`[Image${node.alt ? `: ${node.alt}` : ''}]`, { ...style, italics: true })];
+        case 'link':
+        case 'linkReference': {
+          const link = node.type === 'link' ? node.url : definitions.get(node.identifier)?.url;
+          // Word can't nest hyperlinks, so an inner link keeps the outer target
+          if (!link || url) return inlines(node.children, style, url);
+          return [new ExternalHyperlink({ link, children: inlines(node.children, style, link) as TextRun[] })];
+        }
+        case 'html':
+          return [];
+        default:
+          return 'children' in node ? inlines(node.children as PhrasingContent[], style, url) : [];
+      }
+    });
+
+  const paragraph = (children: (TextRun | ExternalHyperlink)[], context: BlockContext) =>
+    new Paragraph({
+      children,
+      ...context.list,
+      indent: context.indent && !context.list ? { left: context.indent } : undefined,
+      border: context.quote
+        ? { left: { style: BorderStyle.SINGLE, size: 12, color: 'D1D5DB', space: 8 } }
+        : undefined,
+    });
+
+  const listBlocks = (list: List, context: BlockContext, level: number): Block[] => {
+    const instance = list.ordered ? ++listInstance : undefined;
+    return list.children.flatMap(item => {
+      const numbering: BlockContext['list'] =
+        instance !== undefined
+          ? { numbering: { reference: ORDERED_LIST, level, instance } }
+          : { bullet: { level } };
+      const itemIndent = context.indent + INDENT * (level + 1);
+      return item.children.flatMap((child, index) => {
+        if (child.type === 'list') return listBlocks(child, context, level + 1);
+        const childContext = { ...context, indent: itemIndent, list: index === 0 ? numbering : undefined };
+        if (index === 0 && child.type === 'paragraph' && item.checked !== null && item.checked !== undefined) {
+          return [paragraph([new TextRun(item.checked ? '☒ ' : '☐ '), ...inlines(child.children)], childContext)];
+        }
+        return blocks(child, childContext);
+      });
+    });
+  };
+
+  const tableBlock = (node: MarkdownTable, context: BlockContext): Table =>
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      indent: context.indent ? { size: context.indent, type: WidthType.DXA } : undefined,
+      rows: node.children.map((row, rowIndex) =>
+        new TableRow({
+          tableHeader: rowIndex === 0,
+          children: row.children.map((cell, column) =>
+            new TableCell({
+              shading: rowIndex === 0 ? CODE_SHADING : undefined,
+              children: [
+                new Paragraph({
+                  children: inlines(cell.children, { bold: rowIndex === 0 }),
+                  alignment:
+                    node.align?.[column] === 'right'
+                      ? AlignmentType.RIGHT
+                      : node.align?.[column] === 'center'
+                        ? AlignmentType.CENTER
+                        : AlignmentType.LEFT,
+                }),
+              ],
+            })
+          ),
+        })
+      ),
+    });
+
+  const blocks = (node: RootContent | BlockContent | DefinitionContent, context: BlockContext): Block[] => {
+    switch (node.type) {
+      case 'heading': {
+        const heading = new Paragraph({ heading: HEADINGS[node.depth - 1], children: inlines(node.children) });
+        const sectionIndex = node.position ? sectionByLine.get(node.position.start.line - 1) : undefined;
+        const diagram = sectionIndex !== undefined ? diagrams.get(sectionIndex) : undefined;
+        return diagram ? [heading, diagram] : [heading];
+      }
+      case 'paragraph':
+        return [paragraph(inlines(node.children, context.quote ? { italics: true } : {}), context)];
+      case 'list':
+        return listBlocks(node, context, 0);
+      case 'blockquote':
+        return node.children.flatMap(child => blocks(child, { indent: context.indent + INDENT / 2, quote: true }));
+      case 'code':
+        return [
+          new Paragraph({
+            children: node.value.split('\n').map((line, index) =>
+              new TextRun({ text: line, font: CODE_FONT, size: 18, break: index > 0 ? 1 : undefined })),
+            shading: CODE_SHADING,
+            indent: context.indent ? { left: context.indent } : undefined,
+            spacing: { before: 120, after: 120 },
+          }),
+        ];
+      case 'table':
+        return [tableBlock(node, context), new Paragraph({})];
+      case 'thematicBreak':
+        return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D1D5DB', space: 1 } } })];
+      case 'footnoteDefinition':
+        return node.children.flatMap((child, index) =>
+          child.type === 'paragraph'
+            ? [new Paragraph({
+                children: [
+                  ...(index === 0 ? [new TextRun({ text: `[${node.label ?? node.identifier}] `, size: 18 })] : []),
+                  ...inlines(child.children, { color: MUTED_COLOR }),
+                ],
+              })]
+            : []);
+      default:
+        // Front matter, raw HTML and link definitions have nothing to show
+        return [];
+    }
+  };
+
+  const referenceBlocks = (): Paragraph[] =>
+    sources.length === 0
+      ? []
+      : [
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun('References')] }),
+          ...sources.flatMap(source => {
+            const citedIn = source.sectionIndices.map(index => sections[index]?.heading).filter(Boolean).join(', ');
+            const titleRun = new TextRun({ text: source.title, style: source.url ? 'Hyperlink' : undefined });
+            return [
+              new Paragraph({
+                children: [
+                  new TextRun({ text: `${sourceMarker(source)} `, bold: true }),
+                  source.url ? new ExternalHyperlink({ link: source.url, children: [titleRun] }) : titleRun,
+                ],
+                spacing: { before: 120 },
+              }),
+              ...(citedIn
+                ? [new Paragraph({ children: [new TextRun({ text: `Cited in: ${citedIn}`, color: MUTED_COLOR, size: 18 })] })]
+                : []),
+            ];
+          }),
+        ];
+
+  const document = new Document({
+    title,
+    creator: 'Deep Research Visualizer',
+    numbering: {
+      config: [
+        {
+          reference: ORDERED_LIST,
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: INDENT * (level + 1), hanging: 360 } } },
+          })),
+        },
+      ],
+    },
+    sections: [
+      {
+        children: [
+          ...tree.children.flatMap(node => blocks(node, { indent: 0, quote: false })),
+          ...referenceBlocks(),
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBlob(document);
+};
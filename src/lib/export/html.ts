@@ -0,0 +1,114 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkRehype from 'remark-rehype';
+import rehypeStringify from 'rehype-stringify';
+import type { Root as HastRoot } from 'hast';
+import { ReportExport } from '@/lib/types';
+import { remarkSectionDiagrams, sectionElementId } from '@/lib/markdown/remarkSectionDiagrams';
+import { sourceElementId, sourceMarker } from '@/lib/markdown/citations';
+import { renderExportDiagram, svgMarkup } from './diagrams';
+
+const STYLES = `
+body { margin: 0; background: #f9fafb; color: #1f2937; font: 16px/1.65 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; }
+main { max-width: 860px; margin: 0 auto; padding: 48px 32px; background: #fff; }
+h1, h2, h3, h4, h5, h6 { color: #111827; line-height: 1.3; margin: 1.6em 0 0.6em; }
+a { color: #1d4ed8; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; background: #f3f4f6; padding: 0.1em 0.3em; border-radius: 4px; }
+pre { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px 16px; overflow-x: auto; }
+pre code { background: none; padding: 0; }
+blockquote { margin: 1em 0; padding: 0 1em; border-left: 4px solid #d1d5db; color: #4b5563; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9em; margin: 1em 0; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 10px; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; }
+img { max-width: 100%; }
+hr { border: 0; border-top: 1px solid #e5e7eb; margin: 2em 0; }
+.diagram { margin: 1em 0 1.5em; padding: 16px; background: #f9fafb; border-radius: 8px; text-align: center; overflow-x: auto; }
+.diagram svg { max-width: 100%; height: auto; }
+.diagram-error { color: #6b7280; font-style: italic; font-size: 0.9em; }
+.references li { margin-bottom: 0.75em; }
+.references .cited-in { display: block; color: #6b7280; font-size: 0.85em; }
+@media print { body { background: #fff; } main { padding: 0; } .diagram { break-inside: avoid; } }
+`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Replaces the marker remarkSectionDiagrams leaves after each section heading with the section's diagram markup
+const rehypeSectionFigures = ({ figures }: { figures: Map<number, string> }) => (tree: HastRoot) => {
+  tree.children = tree.children.flatMap(node => {
+    if (node.type !== 'element' || node.properties?.dataSectionIndex === undefined) return [node];
+    const figure = figures.get(Number(node.properties.dataSectionIndex));
+    return figure ? [{ type: 'raw' as const, value: figure }] : [];
+  });
+};
+
+const renderFigure = async (code: string, heading: string): Promise<string> => {
+  try {
+    const diagram = await renderExportDiagram(code);
+    try {
+      return `<figure class="diagram" aria-label="${escapeHtml(`Diagram: ${heading}`)}">${svgMarkup(diagram)}</figure>`;
+    } finally {
+      diagram.dispose();
+    }
+  } catch (error) {
+    console.error(`Error exporting the diagram for "${heading}":`, error);
+    return '<p class="diagram-error">This diagram could not be exported.</p>';
+  }
+};
+
+const renderReferences = ({ sources, sections }: ReportExport): string => {
+  if (sources.length === 0) return '';
+  const items = sources.map(source => {
+    const title = source.url
+      ? `<a href="${escapeHtml(source.url)}" rel="noopener noreferrer">${escapeHtml(source.title)}</a>`
+      : escapeHtml(source.title);
+    const citedIn = source.sectionIndices
+      .filter(index => sections[index])
+      .map(index => `<a href="#${sectionElementId(index)}">${escapeHtml(sections[index].heading)}</a>`)
+      .join(', ');
+    return `<li id="${sourceElementId(source)}"><code>${escapeHtml(sourceMarker(source))}</code> ${title}${
+      citedIn ? `<span class="cited-in">Cited in ${citedIn}</span>` : ''
+    }</li>`;
+  });
+  return `<section class="references"><h2>References</h2><ol>${items.join('')}</ol></section>`;
+};
+
+// A single HTML file with the styles and every diagram inline, so it opens anywhere without the app
+export const exportReportHtml = async (report: ReportExport): Promise<string> => {
+  const { title, markdown, sections, diagramCodes } = report;
+
+  const figures = new Map<number, string>();
+  for (const [index, code] of Array.from(diagramCodes.entries())) {
+    if (sections[index]) figures.set(index, await renderFigure(code, sections[index].heading));
+  }
+
+  // Raw HTML written in the report is dropped, as in the app; only the generated figures are passed through
+  const body = await unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkFrontmatter, ['yaml', 'toml'])
+    .use(remarkSectionDiagrams, { sections })
+    .use(remarkRehype)
+    .use(rehypeSectionFigures, { figures })
+    .use(rehypeStringify, { allowDangerousHtml: true })
+    .process(markdown);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+${String(body)}
+${renderReferences(report)}
+</main>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,24 @@
+import { AnimationSection } from '@/lib/types';
+
+// A fence longer than any backtick run in the code, so the code can't close it early
+const fenceFor = (code: string) => {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+};
+
+// The report's Markdown with each section's diagram as a ```mermaid block under its heading,
+// which GitHub, GitLab, Obsidian and most wikis render in place
+export const exportReportMarkdown = (markdown: string, sections: AnimationSection[], diagramCodes: Map<number, string>): string => {
+  const lines = markdown.split('\n');
+
+  // From the last section up, so earlier line numbers stay valid
+  Array.from(diagramCodes.entries())
+    .filter(([index]) => sections[index])
+    .sort(([a], [b]) => sections[b].bodyStartLine - sections[a].bodyStartLine)
+    .forEach(([index, code]) => {
+      const fence = fenceFor(code);
+      lines.splice(sections[index].bodyStartLine, 0, '', `${fence}mermaid`, code.trim(), fence, '');
+    });
+
+  return lines.join('\n');
+};
@@ -0,0 +1,526 @@
+import { jsPDF } from 'jspdf';
+import 'svg2pdf.js';
+import { toString } from 'mdast-util-to-string';
+import type { BlockContent, Definition, Heading, List, PhrasingContent, Root, RootContent, Table } from 'mdast';
+import { ReportExport } from '@/lib/types';
+import { parseMarkdown } from '@/lib/markdown/sections';
+import { sourceMarker } from '@/lib/markdown/citations';
+import { renderExportDiagram } from './diagrams';
+
+// A4 in points
+const MARGIN = 72;
+const HEADER_Y = 36;
+const FOOTER_OFFSET = 30;
+const LINE_HEIGHT = 1.45;
+const BODY_SIZE = 11;
+const SMALL_SIZE = 9;
+const CODE_SIZE = 9;
+const HEADING_SIZES = [22, 18, 15, 13, 12, 11];
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const CELL_PADDING = 4;
+// Headings down to this depth go in the table of contents and bookmarks
+const TOC_DEPTH = 3;
+// Mermaid sizes diagrams in CSS pixels
+const PX_TO_PT = 0.75;
+const MAX_DIAGRAM_HEIGHT = 420;
+
+const LINK_COLOR: [number, number, number] = [29, 78, 216];
+const MUTED_COLOR: [number, number, number] = [107, 114, 128];
+
+// The built-in PDF fonts only cover Latin-1, so swap common typographic characters for plain ones
+const REPLACEMENTS: [RegExp, string][] = [
+  [/[‘’‚′]/g, "'"],
+  [/[“”„″]/g, '"'],
+  [/[–—―−]/g, '-'],
+  [/…/g, '...'],
+  [/[•·]/g, '-'],
+  [/[→↗]/g, '->'],
+  [/←/g, '<-'],
+  [/≥/g, '>='],
+  [/≤/g, '<='],
+  [/≈/g, '~'],
+  [/[  ]/g, ' '],
+];
+
+const substitute = (text: string): string =>
+  REPLACEMENTS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+
+const pdfText = (text: string): string => substitute(text).replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '');
+
+// Characters the built-in fonts can't draw, which pdfText leaves out, so the user can be told
+// before a report in another script comes out blank
+export const unsupportedPdfCharacters = (text: string): string[] =>
+  Array.from(new Set(Array.from(substitute(text)).filter(character => character.codePointAt(0)! > 0xff && !/\s/.test(character))));
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  url?: string;
+}
+
+type RunStyle = Omit<Run, 'text'>;
+
+interface TocEntry {
+  title: string;
+  depth: number;
+  pageNumber: number;
+  y: number;
+}
+
+// Builds the PDF: a title page with a clickable table of contents, then the report with each section's
+// diagram embedded as vector graphics, then the references, with bookmarks, headers and page numbers
+export const exportReportPdf = async ({ title, markdown, sections, sources, diagramCodes }: ReportExport): Promise<jsPDF> => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * MARGIN;
+  const bottom = pageHeight - MARGIN;
+
+  const tree: Root = parseMarkdown(markdown);
+  const definitions = new Map<string, Definition>();
+  tree.children.forEach(node => {
+    if (node.type === 'definition') definitions.set(node.identifier, node);
+  });
+  const sectionByLine = new Map(sections.map((section, index) => [section.lineIndex, index]));
+
+  pdf.setProperties({ title: pdfText(title), creator: 'Deep Research Visualizer' });
+
+  let y = MARGIN;
+  let textColor: [number, number, number] = [0, 0, 0];
+
+  const currentPage = () => pdf.getCurrentPageInfo().pageNumber;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom && y > MARGIN) newPage();
+  };
+
+  const setFont = (style: RunStyle, size: number) => {
+    const fontStyle = style.bold && style.italic ? 'bolditalic' : style.bold ? 'bold' : style.italic ? 'italic' : 'normal';
+    pdf.setFont(style.code ? 'courier' : 'helvetica', style.code ? 'normal' : fontStyle);
+    pdf.setFontSize(style.code ? size * 0.92 : size);
+  };
+
+  // Inline Markdown as styled runs of text
+  const inlineRuns = (nodes: PhrasingContent[], style: RunStyle = {}): Run[] =>
+    nodes.flatMap((node): Run[] => {
+      switch (node.type) {
+        case 'text':
+          return [{ ...style, text: node.value }];
+        case 'strong':
+          return inlineRuns(node.children, { ...style, bold: true });
+        case 'emphasis':
+          return inlineRuns(node.children, { ...style, italic: true });
+        case 'delete':
+          return inlineRuns(node.children, { ...style, strike: true });
+        case 'inlineCode':
+          return [{ ...style, code: true, text: node.value }];
+        case 'link':
+          return inlineRuns(node.children, { ...style, url: node.url });
+        case 'linkReference':
+          return inlineRuns(node.children, { ...style, url: definitions.get(node.identifier)?.url });
+        case 'footnoteReference':
+          return [{ ...style, text: `[${node.label ?? node.identifier}]` }];
+        case 'break':
+          return [{ ...style, text: '\n' }];
+        case 'image':
+        case 'imageReference':
+          return [{ ...style, italic: true, text: `[Image${node.alt ? `: ${node.alt}` : ''}]` }];
+        case 'html':
+          return [];
+        default:
+          return 'children' in node ? inlineRuns(node.children as PhrasingContent[], style) : [];
+      }
+    });
+
+  // Word-wraps styled runs into the column starting at x, drawing links, code backgrounds and strikethroughs
+  const writeRuns = (runs: Run[], x: number, width: number, size = BODY_SIZE) => {
+    const lineHeight = size * LINE_HEIGHT;
+    type Piece = { text: string; style: RunStyle; width: number };
+    const lines: Piece[][] = [[]];
+    let lineWidth = 0;
+
+    const push = (piece: Piece) => {
+      const line = lines[lines.length - 1];
+      if (lineWidth + piece.width > width && line.length > 0) {
+        while (line.length > 0 && !line[line.length - 1].text.trim()) line.pop();
+        lines.push([]);
+        lineWidth = 0;
+        if (!piece.text.trim()) return;
+      }
+      lines[lines.length - 1].push(piece);
+      lineWidth += piece.width;
+    };
+
+    runs.forEach(({ text, ...style }) => {
+      setFont(style, size);
+      pdfText(text).split(/(\n|\s+)/).forEach(token => {
+        if (!token) return;
+        if (token === '\n') {
+          lines.push([]);
+          lineWidth = 0;
+          return;
+        }
+        const piece = /^\s+$/.test(token) ? ' ' : token;
+        const pieceWidth = pdf.getTextWidth(piece);
+        if (pieceWidth <= width) {
+          push({ text: piece, style, width: pieceWidth });
+          return;
+        }
+        // Longer than the whole column, such as a URL: break it anywhere
+        let chunk = '';
+        Array.from(piece).forEach(char => {
+          if (pdf.getTextWidth(chunk + char) > width && chunk) {
+            push({ text: chunk, style, width: pdf.getTextWidth(chunk) });
+            chunk = '';
+          }
+          chunk += char;
+        });
+        if (chunk) push({ text: chunk, style, width: pdf.getTextWidth(chunk) });
+      });
+    });
+
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      let cursor = x;
+      line.forEach(({ text, style, width: pieceWidth }, index) => {
+        if (index === 0 && !text.trim()) return;
+        setFont(style, size);
+        const baseline = y + size;
+        if (style.code) {
+          pdf.setFillColor(243, 244, 246);
+          pdf.rect(cursor, y + size * 0.1, pieceWidth, size * 1.2, 'F');
+        }
+        pdf.setTextColor(...(style.url ? LINK_COLOR : textColor));
+        pdf.text(text, cursor, baseline);
+        if (style.url) {
+          pdf.link(cursor, y, pieceWidth, lineHeight, { url: style.url });
+        }
+        if (style.strike) {
+          pdf.setDrawColor(...textColor);
+          pdf.line(cursor, baseline - size * 0.3, cursor + pieceWidth, baseline - size * 0.3);
+        }
+        cursor += pieceWidth;
+      });
+      y += lineHeight;
+    });
+    pdf.setTextColor(...textColor);
+  };
+
+  // A vertical bar down the left of a block that may continue over several pages
+  const drawBar = (x: number, fromPage: number, fromY: number) => {
+    const toPage = currentPage();
+    pdf.setDrawColor(209, 213, 219);
+    pdf.setLineWidth(2);
+    for (let page = fromPage; page <= toPage; page++) {
+      pdf.setPage(page);
+      pdf.line(x, page === fromPage ? fromY : MARGIN, x, page === toPage ? y : bottom);
+    }
+    pdf.setLineWidth(1);
+  };
+
+  const writeDiagram = async (sectionIndex: number) => {
+    const code = diagramCodes.get(sectionIndex);
+    if (!code) return;
+
+    try {
+      const diagram = await renderExportDiagram(code);
+      try {
+        const scale = Math.min(contentWidth / (diagram.width * PX_TO_PT), MAX_DIAGRAM_HEIGHT / (diagram.height * PX_TO_PT), 1);
+        const width = diagram.width * PX_TO_PT * scale;
+        const height = diagram.height * PX_TO_PT * scale;
+        y += 6;
+        ensureSpace(height);
+        await pdf.svg(diagram.svg, { x: MARGIN + (contentWidth - width) / 2, y, width, height });
+        y += height + 12;
+      } finally {
+        diagram.dispose();
+      }
+    } catch (error) {
+      console.error(`Error exporting the diagram for section ${sectionIndex}:`, error);
+      writeRuns([{ text: 'This diagram could not be exported.', italic: true }], MARGIN, contentWidth, SMALL_SIZE);
+    }
+  };
+
+  const toc: TocEntry[] = [];
+  const outlineParents: (ReturnType<typeof pdf.outline.add> | null)[] = [];
+
+  const writeHeading = (text: string, depth: number) => {
+    const size = HEADING_SIZES[depth - 1];
+    y += depth <= 2 ? size * 0.8 : size * 0.5;
+    // Keep the heading on the same page as at least a couple of lines after it
+    ensureSpace(size * LINE_HEIGHT + BODY_SIZE * LINE_HEIGHT * 2);
+
+    if (depth <= TOC_DEPTH) {
+      toc.push({ title: text, depth, pageNumber: currentPage(), y });
+      const parent = outlineParents.slice(0, depth - 1).reverse().find(Boolean) ?? null;
+      outlineParents[depth - 1] = pdf.outline.add(parent, pdfText(text), { pageNumber: currentPage() });
+      outlineParents.length = depth;
+    }
+
+    writeRuns([{ text, bold: true }], MARGIN, contentWidth, size);
+    y += size * 0.3;
+  };
+
+  const writeTable = (table: Table, x: number, width: number) => {
+    const rows = table.children.map(row => row.children.map(cell => pdfText(toString(cell))));
+    const columnCount = Math.max(...rows.map(row => row.length));
+    const size = SMALL_SIZE;
+    const lineHeight = size * LINE_HEIGHT;
+
+    // Columns share the width in proportion to their longest cell, within limits
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(size);
+    const natural = Array.from({ length: columnCount }, (_, column) =>
+      Math.min(Math.max(...rows.map(row => pdf.getTextWidth(row[column] ?? '') + 2 * CELL_PADDING), 40), width * 0.6));
+    const total = natural.reduce((sum, value) => sum + value, 0);
+    const widths = natural.map(value => (value / total) * width);
+
+    const rowLayout = (row: string[], header: boolean) => {
+      pdf.setFont('helvetica', header ? 'bold' : 'normal');
+      const cells = widths.map((columnWidth, column) => pdf.splitTextToSize(row[column] ?? '', columnWidth - 2 * CELL_PADDING) as string[]);
+      return { cells, height: Math.max(...cells.map(lines => lines.length)) * lineHeight + 2 * CELL_PADDING };
+    };
+
+    const drawRow = (row: string[], header: boolean) => {
+      const { cells, height } = rowLayout(row, header);
+      if (y + height > bottom && y > MARGIN) {
+        newPage();
+        // Repeat the header row on each page the table continues onto
+        if (!header) drawRow(rows[0], true);
+      }
+      let cellX = x;
+      cells.forEach((lines, column) => {
+        if (header) {
+          pdf.setFillColor(243, 244, 246);
+          pdf.rect(cellX, y, widths[column], height, 'F');
+        }
+        pdf.setDrawColor(209, 213, 219);
+        pdf.rect(cellX, y, widths[column], height, 'S');
+        pdf.setFont('helvetica', header ? 'bold' : 'normal');
+        pdf.setFontSize(size);
+        pdf.setTextColor(...textColor);
+        const align = table.align?.[column];
+        lines.forEach((line, index) => {
+          const lineY = y + CELL_PADDING + size + index * lineHeight;
+          if (align === 'right') {
+            pdf.text(line, cellX + widths[column] - CELL_PADDING, lineY, { align: 'right' });
+          } else if (align === 'center') {
+            pdf.text(line, cellX + widths[column] / 2, lineY, { align: 'center' });
+          } else {
+            pdf.text(line, cellX + CELL_PADDING, lineY);
+          }
+        });
+        cellX += widths[column];
+      });
+      y += height;
+    };
+
+    rows.forEach((row, index) => drawRow(row, index === 0));
+    y += 10;
+  };
+
+  const writeList = async (list: List, x: number, width: number) => {
+    for (let index = 0; index < list.children.length; index++) {
+      const item = list.children[index];
+      ensureSpace(BODY_SIZE * LINE_HEIGHT);
+      const markerY = y + BODY_SIZE * 0.65;
+      pdf.setTextColor(...textColor);
+      pdf.setDrawColor(...textColor);
+      pdf.setFillColor(...textColor);
+      if (item.checked !== null && item.checked !== undefined) {
+        pdf.setLineWidth(0.75);
+        pdf.rect(x + 2, markerY - 4.5, 8, 8, 'S');
+        if (item.checked) pdf.line(x + 3.5, markerY - 0.5, x + 8.5, markerY - 3);
+        pdf.setLineWidth(1);
+      } else if (list.ordered) {
+        setFont({}, BODY_SIZE);
+        pdf.text(`${(list.start ?? 1) + index}.`, x, y + BODY_SIZE);
+      } else {
+        pdf.circle(x + 5, markerY, 1.8, x > MARGIN + LIST_INDENT ? 'S' : 'F');
+      }
+      for (const child of item.children) {
+        await writeBlock(child, x + LIST_INDENT, width - LIST_INDENT, true);
+      }
+    }
+    y += 4;
+  };
+
+  const writeBlock = async (node: RootContent | BlockContent, x: number, width: number, tight = false): Promise<void> => {
+    switch (node.type) {
+      case 'heading': {
+        writeHeading(toString(node), node.depth);
+        const sectionIndex = node.position ? sectionByLine.get(node.position.start.line - 1) : undefined;
+        if (sectionIndex !== undefined) await writeDiagram(sectionIndex);
+        return;
+      }
+      case 'paragraph':
+        writeRuns(inlineRuns(node.children), x, width);
+        y += tight ? 2 : 8;
+        return;
+      case 'list':
+        await writeList(node, x, width);
+        return;
+      case 'blockquote': {
+        const startPage = currentPage();
+        const startY = y;
+        const previousColor = textColor;
+        textColor = [75, 85, 99];
+        for (const child of node.children) {
+          await writeBlock(child, x + QUOTE_INDENT, width - QUOTE_INDENT);
+        }
+        textColor = previousColor;
+        const endPage = currentPage();
+        drawBar(x + 3, startPage, startY);
+        pdf.setPage(endPage);
+        return;
+      }
+      case 'code': {
+        pdf.setFont('courier', 'normal');
+        pdf.setFontSize(CODE_SIZE);
+        const lineHeight = CODE_SIZE * LINE_HEIGHT;
+        const lines = node.value.split('\n').flatMap(line => pdf.splitTextToSize(pdfText(line) || ' ', width - 12) as string[]);
+        lines.forEach(line => {
+          ensureSpace(lineHeight);
+          pdf.setFillColor(249, 250, 251);
+          pdf.rect(x, y, width, lineHeight, 'F');
+          pdf.setFont('courier', 'normal');
+          pdf.setFontSize(CODE_SIZE);
+          pdf.setTextColor(31, 41, 55);
+          pdf.text(line, x + 6, y + CODE_SIZE * 1.1);
+          y += lineHeight;
+        });
+        pdf.setTextColor(...textColor);
+        y += 10;
+        return;
+      }
+      case 'table':
+        writeTable(node, x, width);
+        return;
+      case 'thematicBreak':
+        ensureSpace(16);
+        pdf.setDrawColor(209, 213, 219);
+        pdf.line(x, y + 8, x + width, y + 8);
+        y += 16;
+        return;
+      case 'footnoteDefinition': {
+        const runs = node.children.flatMap(child => (child.type === 'paragraph' ? inlineRuns(child.children) : []));
+        writeRuns([{ text: `[${node.label ?? node.identifier}] ` }, ...runs], x, width, SMALL_SIZE);
+        y += 4;
+        return;
+      }
+      default:
+        // Front matter, raw HTML and link definitions have nothing to print
+        return;
+    }
+  };
+
+  const writeReferences = () => {
+    writeHeading('References', 1);
+    sources.forEach(source => {
+      const citedIn = source.sectionIndices.map(index => sections[index]?.heading).filter(Boolean).join(', ');
+      ensureSpace(BODY_SIZE * LINE_HEIGHT * 2);
+      writeRuns([{ text: `${sourceMarker(source)} `, bold: true }, { text: source.title }], MARGIN, contentWidth, 10);
+      if (source.url) {
+        writeRuns([{ text: source.url, url: source.url }], MARGIN + LIST_INDENT, contentWidth - LIST_INDENT, SMALL_SIZE);
+      }
+      if (citedIn) {
+        const previousColor = textColor;
+        textColor = MUTED_COLOR;
+        writeRuns([{ text: `Cited in: ${citedIn}` }], MARGIN + LIST_INDENT, contentWidth - LIST_INDENT, SMALL_SIZE);
+        textColor = previousColor;
+      }
+      y += 6;
+    });
+  };
+
+  // Title page and table of contents; their page count has to be known before the body is laid out
+  const tocHeadings = tree.children.filter((node): node is Heading => node.type === 'heading' && node.depth <= TOC_DEPTH);
+  const tocCount = tocHeadings.length + (sources.length > 0 ? 1 : 0);
+  const tocLineHeight = BODY_SIZE * LINE_HEIGHT;
+  const tocTop = MARGIN + 130;
+  const firstPageCapacity = Math.floor((bottom - tocTop) / tocLineHeight);
+  const pageCapacity = Math.floor((bottom - MARGIN) / tocLineHeight);
+  const tocPages = 1 + Math.max(0, Math.ceil((tocCount - firstPageCapacity) / pageCapacity));
+  for (let page = 1; page < tocPages; page++) pdf.addPage();
+
+  newPage();
+  for (const node of tree.children) {
+    await writeBlock(node, MARGIN, contentWidth);
+  }
+  if (sources.length > 0) {
+    newPage();
+    writeReferences();
+  }
+
+  // Fill in the title page and table of contents now that every heading has a page number
+  pdf.setPage(1);
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(26);
+  const titleLines = pdf.splitTextToSize(pdfText(title), contentWidth) as string[];
+  pdf.text(titleLines.slice(0, 2), MARGIN, MARGIN + 26);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(SMALL_SIZE);
+  pdf.setTextColor(...MUTED_COLOR);
+  pdf.text(new Date().toLocaleDateString(), MARGIN, MARGIN + 90);
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(14);
+  pdf.text('Contents', MARGIN, tocTop - 12);
+
+  let tocPage = 1;
+  let tocY = tocTop;
+  toc.forEach(entry => {
+    if (tocY + tocLineHeight > bottom) {
+      tocPage++;
+      tocY = MARGIN;
+      pdf.setPage(tocPage);
+    }
+    const indent = (entry.depth - 1) * 14;
+    const pageLabel = String(entry.pageNumber);
+    pdf.setFont('helvetica', entry.depth === 1 ? 'bold' : 'normal');
+    pdf.setFontSize(entry.depth === 1 ? BODY_SIZE : 10);
+    const labelWidth = pdf.getTextWidth(pageLabel);
+    const available = contentWidth - indent - labelWidth - 24;
+    let text = pdfText(entry.title);
+    while (pdf.getTextWidth(text) > available && text.length > 4) text = `${text.slice(0, -4)}...`;
+
+    const baseline = tocY + BODY_SIZE;
+    pdf.text(text, MARGIN + indent, baseline);
+    pdf.text(pageLabel, MARGIN + contentWidth, baseline, { align: 'right' });
+    // Dotted leader between the title and its page number
+    pdf.setDrawColor(209, 213, 219);
+    pdf.setLineDashPattern([1, 2], 0);
+    pdf.line(MARGIN + indent + pdf.getTextWidth(text) + 6, baseline - 2, MARGIN + contentWidth - labelWidth - 6, baseline - 2);
+    pdf.setLineDashPattern([], 0);
+    pdf.link(MARGIN, tocY, contentWidth, tocLineHeight, { pageNumber: entry.pageNumber, top: entry.y });
+    tocY += tocLineHeight;
+  });
+
+  // Running header with the report title and a page-numbered footer on every page after the title page
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(SMALL_SIZE);
+    pdf.setTextColor(...MUTED_COLOR);
+    let headerTitle = pdfText(title);
+    while (pdf.getTextWidth(headerTitle) > contentWidth * 0.8 && headerTitle.length > 4) headerTitle = `${headerTitle.slice(0, -4)}...`;
+    pdf.text(headerTitle, MARGIN, HEADER_Y);
+    pdf.setDrawColor(229, 231, 235);
+    pdf.line(MARGIN, HEADER_Y + 6, pageWidth - MARGIN, HEADER_Y + 6);
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - FOOTER_OFFSET, { align: 'center' });
+  }
+  pdf.setTextColor(0, 0, 0);
+
+  return pdf;
+};
@@ -0,0 +1,92 @@
+import PptxGenJS from 'pptxgenjs';
+import { ReportExport } from '@/lib/types';
+import { buildSlides } from '@/lib/presentation/slides';
+import { renderExportDiagram, svgMarkup } from './diagrams';
+
+// 16:9 widescreen, in inches
+const SLIDE_WIDTH = 13.333;
+const MARGIN = 0.5;
+const BODY_TOP = 1.4;
+const BODY_HEIGHT = 5.5;
+const BULLETS_WIDTH = 5;
+const GAP = 0.4;
+const FONT = 'Calibri';
+
+const base64 = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+// A slide per section: the heading as its title, the key points as bullets, the diagram as an SVG
+// (which PowerPoint 2019 and later keep as vectors, with a PNG preview for older versions) and
+// the section text as speaker notes
+export const exportReportPptx = async ({ title, sections, diagramCodes }: ReportExport): Promise<Blob> => {
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.title = title;
+
+  const titleSlide = pptx.addSlide();
+  titleSlide.addText(title, {
+    x: MARGIN, y: 2.4, w: SLIDE_WIDTH - 2 * MARGIN, h: 1.6,
+    fontFace: FONT, fontSize: 40, bold: true, color: '111827', valign: 'bottom',
+  });
+  titleSlide.addText(new Date().toLocaleDateString(), {
+    x: MARGIN, y: 4.1, w: SLIDE_WIDTH - 2 * MARGIN, h: 0.5,
+    fontFace: FONT, fontSize: 16, color: '6B7280',
+  });
+
+  for (const slide of buildSlides(sections, diagramCodes)) {
+    const pptSlide = pptx.addSlide();
+    pptSlide.slideNumber = { x: SLIDE_WIDTH - 1, y: 7, w: 0.6, h: 0.3, fontFace: FONT, fontSize: 10, color: '9CA3AF' };
+    pptSlide.addText(slide.heading, {
+      x: MARGIN, y: 0.35, w: SLIDE_WIDTH - 2 * MARGIN, h: 0.9,
+      fontFace: FONT, fontSize: 28, bold: true, color: '111827', valign: 'middle', fit: 'shrink',
+    });
+
+    const hasDiagram = !!slide.diagramCode;
+    const bulletsWidth = hasDiagram && slide.keyPoints.length > 0 ? BULLETS_WIDTH : SLIDE_WIDTH - 2 * MARGIN;
+    if (slide.keyPoints.length > 0) {
+      pptSlide.addText(
+        slide.keyPoints.map(point => ({ text: point, options: { bullet: true, breakLine: true } })),
+        {
+          x: MARGIN, y: BODY_TOP, w: bulletsWidth, h: BODY_HEIGHT,
+          fontFace: FONT, fontSize: hasDiagram ? 16 : 22, color: '374151', valign: 'top', paraSpaceAfter: 10, fit: 'shrink',
+        }
+      );
+    }
+
+    if (slide.diagramCode) {
+      const left = slide.keyPoints.length > 0 ? MARGIN + bulletsWidth + GAP : MARGIN;
+      const width = SLIDE_WIDTH - MARGIN - left;
+      try {
+        const diagram = await renderExportDiagram(slide.diagramCode);
+        try {
+          // Largest size that fits the space, centred in it
+          const scale = Math.min(width / diagram.width, BODY_HEIGHT / diagram.height);
+          const w = diagram.width * scale;
+          const h = diagram.height * scale;
+          pptSlide.addImage({
+            data: `data:image/svg+xml;base64,${base64(svgMarkup(diagram))}`,
+            x: left + (width - w) / 2, y: BODY_TOP + (BODY_HEIGHT - h) / 2, w, h,
+            altText: `Diagram: ${slide.heading}`,
+          });
+        } finally {
+          diagram.dispose();
+        }
+      } catch (error) {
+        console.error(`Error exporting the diagram for "${slide.heading}":`, error);
+        pptSlide.addText('This diagram could not be exported.', {
+          x: left, y: BODY_TOP, w: width, h: 0.5, fontFace: FONT, fontSize: 12, italic: true, color: '6B7280',
+        });
+      }
+    }
+
+    if (slide.notes) pptSlide.addNotes(slide.notes);
+  }
+
+  return (await pptx.write({ outputType: 'blob' })) as Blob;
+};
@@ -0,0 +1,135 @@
+import { db } from "./firebase";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  runTransaction,
+  setDoc,
+  DocumentSnapshot,
+} from "firebase/firestore";
+import { AnimationSection, LiveReportState, Presence } from "@/lib/types";
+import { MergeConflict, mergeLiveState } from "@/lib/collaboration/merge";
+import { stripClickDirectives } from "@/lib/diagrams/repairs";
+
+// A published state of the report and who published it; each publish increments the revision
+export interface LiveRevision {
+  state: LiveReportState;
+  revision: number;
+  sessionId: string;
+  updatedAt: Date;
+}
+
+// What a publish wrote, with where its edits replaced someone else's change to the same words
+export interface PublishedRevision extends LiveRevision {
+  conflicts: MergeConflict[];
+}
+
+// Everyone with a report open sees changes written here; saving still records versions on the report
+export const liveStateCollection = (reportId: string) => collection(db, 'reports', reportId, 'live');
+
+export const presenceCollection = (reportId: string) => collection(db, 'reports', reportId, 'presence');
+
+const liveStateRef = (reportId: string) => doc(liveStateCollection(reportId), 'state');
+
+// Any editor can write diagram code here, and it renders in everyone else's session, so click
+// handlers and links are dropped as it arrives
+const withoutClickDirectives = (animations: AnimationSection[]): AnimationSection[] =>
+  animations.map(section =>
+    section.customDiagram
+      ? { ...section, customDiagram: { ...section.customDiagram, code: stripClickDirectives(section.customDiagram.code) } }
+      : section
+  );
+
+const toLiveRevision = (snapshot: DocumentSnapshot): LiveRevision => {
+  const data = snapshot.data() ?? {};
+  return {
+    state: {
+      title: data.title || '',
+      content: data.content || '',
+      animations: withoutClickDirectives(data.animations || [])
+    },
+    revision: data.revision ?? 0,
+    sessionId: data.sessionId || '',
+    updatedAt: data.updatedAt?.toDate() || new Date(0)
+  };
+};
+
+export const subscribeToLiveState = (
+  reportId: string,
+  onChange: (live: LiveRevision | null) => void,
+  onError: (error: Error) => void
+) =>
+  onSnapshot(
+    liveStateRef(reportId),
+    snapshot => onChange(snapshot.exists() ? toLiveRevision(snapshot) : null),
+    onError
+  );
+
+// Publishes this session's edits made since base. If someone else published in the meantime, their
+// state is merged with these edits first, and the merged state is what's published and returned.
+export const publishLiveState = (
+  reportId: string,
+  base: LiveReportState,
+  baseRevision: number,
+  state: LiveReportState,
+  sessionId: string
+): Promise<PublishedRevision> =>
+  runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(liveStateRef(reportId));
+    const current = snapshot.exists() ? toLiveRevision(snapshot) : null;
+    const merged = current && current.revision !== baseRevision
+      ? mergeLiveState(base, state, current.state)
+      : { state, conflicts: [] };
+    const published: PublishedRevision = {
+      state: merged.state,
+      revision: (current?.revision ?? 0) + 1,
+      sessionId,
+      updatedAt: new Date(),
+      conflicts: merged.conflicts
+    };
+    transaction.set(liveStateRef(reportId), {
+      title: published.state.title,
+      content: published.state.content,
+      animations: published.state.animations,
+      revision: published.revision,
+      sessionId,
+      updatedAt: published.updatedAt
+    });
+    return published;
+  });
+
+// Presence functions
+export const updatePresence = (reportId: string, presence: Omit<Presence, 'updatedAt'>) =>
+  setDoc(doc(presenceCollection(reportId), presence.uid), {
+    name: presence.name,
+    ...(presence.email && { email: presence.email }),
+    sectionIndex: presence.sectionIndex,
+    updatedAt: new Date()
+  });
+
+export const leavePresence = (reportId: string, uid: string) =>
+  deleteDoc(doc(presenceCollection(reportId), uid));
+
+// Includes tabs closed without leaving, whose presence has stopped updating
+export const subscribeToPresence = (
+  reportId: string,
+  onChange: (presence: Presence[]) => void,
+  onError: (error: Error) => void
+) =>
+  onSnapshot(
+    presenceCollection(reportId),
+    snapshot => {
+      onChange(snapshot.docs.map(presenceDoc => {
+        const data = presenceDoc.data();
+        return {
+          uid: presenceDoc.id,
+          name: data.name || data.email || 'Someone',
+          email: data.email,
+          sectionIndex: data.sectionIndex ?? null,
+          updatedAt: data.updatedAt?.toDate() || new Date(0)
+        };
+      }));
+    },
+    onError
+  );
@@ -0,0 +1,105 @@
+import { db } from "./firebase";
+import {
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  onSnapshot,
+  setDoc,
+  updateDoc,
+  writeBatch,
+  DocumentSnapshot,
+} from "firebase/firestore";
+import { CommentAnchor, CommentThread, ReviewComment } from "@/lib/types";
+
+// Review threads are kept with the report they're about, one document each with its replies
+export const threadsCollection = (reportId: string) => collection(db, 'reports', reportId, 'threads');
+
+// Firestore rejects undefined fields, so optional ones are only written when set
+const anchorData = (anchor: CommentAnchor) => ({
+  heading: anchor.heading,
+  lineIndex: anchor.lineIndex,
+  endLine: anchor.endLine,
+  ...(anchor.nodeId && { nodeId: anchor.nodeId }),
+  ...(anchor.nodeLabel && { nodeLabel: anchor.nodeLabel })
+});
+
+const commentData = (comment: ReviewComment) => ({
+  id: comment.id,
+  authorId: comment.authorId,
+  authorName: comment.authorName,
+  ...(comment.authorEmail && { authorEmail: comment.authorEmail }),
+  body: comment.body,
+  mentions: comment.mentions,
+  createdAt: comment.createdAt
+});
+
+const toThread = (snapshot: DocumentSnapshot): CommentThread => {
+  const data = snapshot.data() ?? {};
+  return {
+    id: snapshot.id,
+    anchor: data.anchor,
+    comments: (data.comments || []).map((comment: any) => ({
+      ...comment,
+      mentions: comment.mentions || [],
+      createdAt: comment.createdAt?.toDate() || new Date()
+    })),
+    resolved: !!data.resolved,
+    resolvedBy: data.resolvedBy,
+    resolvedAt: data.resolvedAt?.toDate(),
+    createdBy: data.createdBy,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+};
+
+// Oldest first, the order they were started in
+export const subscribeToThreads = (
+  reportId: string,
+  onChange: (threads: CommentThread[]) => void,
+  onError: (error: Error) => void
+) =>
+  onSnapshot(
+    threadsCollection(reportId),
+    snapshot => onChange(snapshot.docs.map(toThread).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())),
+    onError
+  );
+
+export const createThread = async (reportId: string, anchor: CommentAnchor, comment: ReviewComment) => {
+  const threadRef = doc(threadsCollection(reportId));
+  await setDoc(threadRef, {
+    anchor: anchorData(anchor),
+    comments: [commentData(comment)],
+    resolved: false,
+    createdBy: comment.authorId,
+    createdAt: comment.createdAt,
+    updatedAt: comment.createdAt
+  });
+  return threadRef.id;
+};
+
+export const replyToThread = (reportId: string, threadId: string, comment: ReviewComment) =>
+  updateDoc(doc(threadsCollection(reportId), threadId), {
+    comments: arrayUnion(commentData(comment)),
+    updatedAt: comment.createdAt
+  });
+
+export const setThreadResolved = (reportId: string, threadId: string, resolved: boolean, userId: string) =>
+  updateDoc(doc(threadsCollection(reportId), threadId), {
+    resolved,
+    resolvedBy: resolved ? userId : deleteField(),
+    resolvedAt: resolved ? new Date() : deleteField(),
+    updatedAt: new Date()
+  });
+
+// Moves threads to where their sections are now, after a save changed the report's lines
+export const updateThreadAnchors = async (reportId: string, updates: { threadId: string; anchor: CommentAnchor }[]) => {
+  if (updates.length === 0) return;
+  const batch = writeBatch(db);
+  updates.forEach(({ threadId, anchor }) => batch.update(doc(threadsCollection(reportId), threadId), { anchor: anchorData(anchor) }));
+  await batch.commit();
+};
+
+export const deleteThread = (reportId: string, threadId: string) =>
+  deleteDoc(doc(threadsCollection(reportId), threadId));
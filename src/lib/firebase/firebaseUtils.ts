@@ -15,24 +15,26 @@ import {
   where,
   orderBy,
   getDoc,
+  runTransaction,
+  writeBatch,
+  setDoc,
+  limit,
+  startAfter,
+  arrayUnion,
+  deleteField,
+  DocumentData,
+  DocumentSnapshot,
+  QueryConstraint,
+  QueryDocumentSnapshot,
 } from "firebase/firestore";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
-
-interface AnimationSection {
-  heading: string;
-  lineIndex: number;
-  content: string;
-}
-
-interface Report {
-  id?: string;
-  userId: string;
-  title: string;
-  content: string;
-  animations: AnimationSection[];
-  createdAt: Date;
-  updatedAt: Date;
-}
+import { CollaboratorRole, Library, Report, ReportContent, ReportFilters, ReportShare, ReportSort, ReportVersion } from "@/lib/types";
+import { queryTerms, searchTermsFor } from "@/lib/library/search";
+import { createShareToken, isShareActive } from "@/lib/sharing/shares";
+import { normalizeEmail } from "@/lib/collaboration/collaborators";
+import { REPORTS_PAGE_SIZE, ReportPage, UpdateReportOptions, reportConflictError, reportNotFoundError } from "@/lib/storage/reportRepository";
+import { liveStateCollection, presenceCollection } from "./collaboration";
+import { threadsCollection } from "./comments";
 
 // Auth functions
 export const logoutUser = () => signOut(auth);
@@ -67,94 +69,430 @@ export const deleteDocument = (collectionName: string, id: string) =>
   deleteDoc(doc(db, collectionName, id));
 
 // Report functions
+const versionsCollection = (reportId: string) => collection(db, 'reports', reportId, 'versions');
+
+// Firestore rejects undefined fields, so optional ones are only written when set
+const versionData = (userId: string, version: number, content: ReportContent, restoredFrom?: number) => ({
+  version,
+  userId,
+  title: content.title,
+  content: content.content,
+  animations: content.animations,
+  ...(content.sources && { sources: content.sources }),
+  ...(content.diagramCodes && { diagramCodes: content.diagramCodes }),
+  ...(restoredFrom !== undefined && { restoredFrom }),
+  createdAt: new Date()
+});
+
+// Stored alongside the report so the library can search, sort and filter on the server
+const libraryFields = (content: ReportContent) => ({
+  searchTerms: searchTermsFor(content.title, content.content),
+  diagramCount: content.animations.length
+});
+
+const toReport = (snapshot: DocumentSnapshot): Report => {
+  const data = snapshot.data() ?? {};
+  return {
+    id: snapshot.id,
+    userId: data.userId,
+    title: data.title || '',
+    content: data.content || '',
+    animations: data.animations || [],
+    sources: data.sources,
+    version: data.version,
+    tags: data.tags || [],
+    folder: data.folder,
+    diagramCount: data.diagramCount ?? (data.animations || []).length,
+    researchFormat: data.researchFormat,
+    reasoning: data.reasoning,
+    collaborators: data.collaborators,
+    collaboratorEmails: data.collaboratorEmails,
+    ownerEmail: data.ownerEmail,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+};
+
+// Creates the report together with its first version; its timestamps are written as given, so the
+// caller knows the exact updatedAt later saves are checked against
 export const saveReport = async (report: Omit<Report, 'id'>) => {
-  const reportsRef = collection(db, 'reports');
-  return addDoc(reportsRef, {
+  const reportRef = doc(collection(db, 'reports'));
+  const batch = writeBatch(db);
+  batch.set(reportRef, {
     ...report,
-    createdAt: new Date(),
-    updatedAt: new Date()
+    ...libraryFields(report),
+    version: 1
+  });
+  batch.set(doc(versionsCollection(reportRef.id)), versionData(report.userId, 1, report));
+  await batch.commit();
+  return reportRef;
+};
+
+// Updates the report in place and records the new state as the next version
+export const updateReport = async (
+  reportId: string,
+  content: ReportContent,
+  { restoredFrom, expectedUpdatedAt }: UpdateReportOptions = {}
+): Promise<{ version: number; updatedAt: Date }> => {
+  const reportRef = doc(db, 'reports', reportId);
+  const updatedAt = new Date();
+
+  const { nextVersion, userId } = await runTransaction(db, async (transaction) => {
+    const reportDoc = await transaction.get(reportRef);
+    if (!reportDoc.exists()) {
+      throw reportNotFoundError();
+    }
+    const current = reportDoc.data();
+    const currentUpdatedAt: Date | undefined = current.updatedAt?.toDate();
+    if (expectedUpdatedAt && currentUpdatedAt && currentUpdatedAt.getTime() > expectedUpdatedAt.getTime()) {
+      throw reportConflictError();
+    }
+
+    // Reports saved before version history keep their original state as version 1
+    let version = current.version ?? 0;
+    if (version === 0) {
+      version = 1;
+      transaction.set(doc(versionsCollection(reportId)), {
+        ...versionData(current.userId, version, {
+          title: current.title || '',
+          content: current.content || '',
+          animations: current.animations || [],
+          sources: current.sources
+        }),
+        createdAt: current.updatedAt || current.createdAt || new Date()
+      });
+    }
+
+    const nextVersion = version + 1;
+    transaction.set(doc(versionsCollection(reportId)), versionData(current.userId, nextVersion, content, restoredFrom));
+    transaction.update(reportRef, {
+      title: content.title,
+      content: content.content,
+      animations: content.animations,
+      ...(content.sources && { sources: content.sources }),
+      ...(content.researchFormat && { researchFormat: content.researchFormat }),
+      ...(content.reasoning && { reasoning: content.reasoning }),
+      ...libraryFields(content),
+      version: nextVersion,
+      updatedAt
+    });
+    return { nextVersion, userId: current.userId as string };
+  });
+
+  // Only owners can update share links; an editor's save reaches them with the owner's next one
+  if (auth.currentUser?.uid === userId) {
+    await refreshShares(reportId, userId, content);
+  }
+  return { version: nextVersion, updatedAt };
+};
+
+export const getReportVersions = async (reportId: string): Promise<ReportVersion[]> => {
+  const q = query(versionsCollection(reportId), orderBy('version', 'desc'));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => {
+    const data = doc.data();
+    return {
+      ...data,
+      id: doc.id,
+      animations: data.animations || [],
+      createdAt: data.createdAt?.toDate() || new Date()
+    } as ReportVersion;
   });
 };
 
-export const getReports = async (userId: string): Promise<Report[]> => {
+const toLoadError = (error: any): Error => {
+  // Check if it's a Firebase initialization error
+  if (!db || !auth) {
+    return new Error('Firebase not initialized. Please check your configuration.');
+  }
+
+  // Queries the project has no composite index for; the indexes are listed in firestore.indexes.json
+  if (error.code === 'failed-precondition' && /index/i.test(error.message)) {
+    return new Error('This view needs a Firestore index. Deploy firestore.indexes.json and try again.');
+  }
+
+  // Network or connection errors
+  if (error.code === 'failed-precondition' || error.code === 'unavailable') {
+    return new Error('Unable to connect to the database. Please check your internet connection.');
+  }
+
+  // Permission errors
+  if (error.code === 'permission-denied') {
+    return new Error('You do not have permission to access these reports.');
+  }
+
+  // Generic error
+  return new Error(`Failed to load reports: ${error.message}`);
+};
+
+// Library functions
+// Client-side filters can reject a whole batch; stop after this many so a page can't read the entire collection
+const MAX_BATCHES_PER_PAGE = 5;
+
+// Bumped whenever libraryFields changes, so existing reports are indexed again
+const SEARCH_INDEX_VERSION = 2;
+
+// Firestore caps a batch at 500 writes
+const MAX_BATCH_WRITES = 500;
+
+const SORT_DIRECTIONS: Record<ReportSort, 'asc' | 'desc'> = {
+  updatedAt: 'desc',
+  createdAt: 'desc',
+  title: 'asc',
+  diagramCount: 'desc'
+};
+
+// One page of a user's reports. Firestore allows a single array-contains per query, so the most
+// selective filter runs on the server and the rest are checked here; firestore.indexes.json
+// lists the composite indexes these queries need.
+export const queryReports = async (
+  userId: string,
+  filters: ReportFilters,
+  cursor: QueryDocumentSnapshot | null = null,
+  pageSize = REPORTS_PAGE_SIZE
+): Promise<ReportPage> => {
+  const terms = filters.search ? queryTerms(filters.search) : [];
+  const since = filters.updatedWithinDays ? new Date(Date.now() - filters.updatedWithinDays * 24 * 60 * 60 * 1000) : null;
+
+  const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+  if (terms.length > 0) {
+    constraints.push(where('searchTerms', 'array-contains', terms[0]));
+  } else if (filters.tag) {
+    constraints.push(where('tags', 'array-contains', filters.tag));
+  } else if (filters.folder) {
+    constraints.push(where('folder', '==', filters.folder));
+  }
+  // Range filters only run on the server when they're on the sort field, which needs no extra index
+  if (since && filters.sort === 'updatedAt') {
+    constraints.push(where('updatedAt', '>=', since));
+  }
+  if (filters.minDiagrams && filters.sort === 'diagramCount') {
+    constraints.push(where('diagramCount', '>=', filters.minDiagrams));
+  }
+  constraints.push(orderBy(filters.sort, SORT_DIRECTIONS[filters.sort]));
+
+  const matches = (data: DocumentData) =>
+    terms.every(term => data.searchTerms?.includes(term)) &&
+    (!filters.tag || data.tags?.includes(filters.tag)) &&
+    (!filters.folder || data.folder === filters.folder) &&
+    (!since || data.updatedAt?.toDate() >= since) &&
+    (!filters.minDiagrams || (data.diagramCount ?? 0) >= filters.minDiagrams);
+
   try {
-    console.log('Starting getReports for userId:', userId);
-    const reportsRef = collection(db, 'reports');
-    
-    // Use a simpler query without ordering to avoid index requirements
-    const q = query(reportsRef, where('userId', '==', userId));
-    console.log('Created simple query');
-    
-    const querySnapshot = await getDocs(q);
-    console.log('Got query snapshot, number of docs:', querySnapshot.size);
-    
-    if (querySnapshot.empty) {
-      console.log('No reports found for user');
-      return [];
+    const reports: Report[] = [];
+    let last = cursor;
+    for (let batch = 0; batch < MAX_BATCHES_PER_PAGE; batch++) {
+      const pageConstraints = last ? [...constraints, startAfter(last), limit(pageSize)] : [...constraints, limit(pageSize)];
+      const snapshot = await getDocs(query(collection(db, 'reports'), ...pageConstraints));
+      for (const reportDoc of snapshot.docs) {
+        last = reportDoc;
+        if (!matches(reportDoc.data())) continue;
+        reports.push(toReport(reportDoc));
+        if (reports.length === pageSize) {
+          return { reports, cursor: reportDoc };
+        }
+      }
+      if (snapshot.size < pageSize) {
+        return { reports, cursor: null };
+      }
     }
-    
-    const reports = querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        userId: data.userId,
+    return { reports, cursor: last };
+  } catch (error: any) {
+    console.error('Error in queryReports:', error);
+    throw toLoadError(error);
+  }
+};
+
+// Reports saved before the library have no search words or diagram count; index them once
+const indexReports = async (userId: string) => {
+  const snapshot = await getDocs(query(collection(db, 'reports'), where('userId', '==', userId)));
+  for (let start = 0; start < snapshot.docs.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(start, start + MAX_BATCH_WRITES).forEach(reportDoc => {
+      const data = reportDoc.data();
+      batch.update(reportDoc.ref, libraryFields({
         title: data.title || '',
         content: data.content || '',
-        animations: data.animations || [],
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date()
-      } as Report;
+        animations: data.animations || []
+      }));
     });
-    
-    // Sort reports by createdAt on the client side
-    const sortedReports = reports.sort((a, b) => 
-      b.createdAt.getTime() - a.createdAt.getTime()
-    );
-    
-    console.log('Successfully processed reports:', sortedReports.length);
-    return sortedReports;
-  } catch (error: any) {
-    console.error('Error in getReports:', error);
-    
-    // Check if it's a Firebase initialization error
-    if (!db || !auth) {
-      throw new Error('Firebase not initialized. Please check your configuration.');
-    }
-    
-    // Network or connection errors
-    if (error.code === 'failed-precondition' || error.code === 'unavailable') {
-      throw new Error('Unable to connect to the database. Please check your internet connection.');
-    }
-    
-    // Permission errors
-    if (error.code === 'permission-denied') {
-      throw new Error('You do not have permission to access these reports.');
-    }
-    
-    // Generic error
-    throw new Error(`Failed to load reports: ${error.message}`);
+    await batch.commit();
+  }
+  await setDoc(doc(db, 'libraries', userId), { searchIndexVersion: SEARCH_INDEX_VERSION }, { merge: true });
+};
+
+export const getLibrary = async (userId: string): Promise<Library> => {
+  const libraryDoc = await getDoc(doc(db, 'libraries', userId));
+  const data = libraryDoc.data();
+  if ((data?.searchIndexVersion ?? 0) < SEARCH_INDEX_VERSION) {
+    await indexReports(userId);
   }
+  return {
+    tags: [...(data?.tags || [])].sort(),
+    folders: [...(data?.folders || [])].sort()
+  };
+};
+
+// Tags and folder are library metadata, so changing them doesn't create a new version
+export const updateReportLibraryInfo = async (
+  reportId: string,
+  userId: string,
+  { tags, folder }: { tags: string[]; folder?: string }
+) => {
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'reports', reportId), {
+    tags,
+    folder: folder || deleteField()
+  });
+  if (tags.length > 0 || folder) {
+    batch.set(doc(db, 'libraries', userId), {
+      ...(tags.length > 0 && { tags: arrayUnion(...tags) }),
+      ...(folder && { folders: arrayUnion(folder) })
+    }, { merge: true });
+  }
+  await batch.commit();
 };
 
 export const getReport = async (reportId: string): Promise<Report> => {
   const reportRef = doc(db, 'reports', reportId);
   const reportDoc = await getDoc(reportRef);
   if (!reportDoc.exists()) {
-    throw new Error('Report not found');
+    throw reportNotFoundError();
   }
-  return {
-    id: reportDoc.id,
-    ...reportDoc.data()
-  } as Report;
+  return toReport(reportDoc);
 };
 
-export const deleteReport = async (reportId: string) => {
+export const deleteReport = async (reportId: string, userId: string) => {
   const reportRef = doc(db, 'reports', reportId);
+  // Firestore doesn't delete subcollections with their parent
+  const versions = await getDocs(versionsCollection(reportId));
+  const shares = await getDocs(reportSharesQuery(reportId, userId));
+  const live = await getDocs(liveStateCollection(reportId));
+  const presence = await getDocs(presenceCollection(reportId));
+  const threads = await getDocs(threadsCollection(reportId));
+  const related = [...versions.docs, ...shares.docs, ...live.docs, ...presence.docs, ...threads.docs];
+  for (let start = 0; start < related.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    related.slice(start, start + MAX_BATCH_WRITES).forEach(snapshot => batch.delete(snapshot.ref));
+    await batch.commit();
+  }
+  // Last, since the rules look the report up to let its owner delete the rest
   await deleteDoc(reportRef);
 };
 
+// Collaboration functions
+// Reports other people invited the user to; rules only let them read reports listing their email
+export const getSharedReports = async (email: string): Promise<Report[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, 'reports'), where('collaboratorEmails', 'array-contains', email.toLowerCase()))
+    );
+    // Sorted here, since ordering on the server would need another composite index
+    return snapshot.docs.map(toReport).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  } catch (error: any) {
+    console.error('Error in getSharedReports:', error);
+    throw toLoadError(error);
+  }
+};
+
+// The emails are kept as a list too, since Firestore can only query list fields for a value
+export const updateCollaborators = (reportId: string, collaborators: Record<string, CollaboratorRole>, ownerEmail: string | null) =>
+  updateDoc(doc(db, 'reports', reportId), {
+    collaborators,
+    collaboratorEmails: Object.keys(collaborators),
+    ...(ownerEmail && { ownerEmail: normalizeEmail(ownerEmail) })
+  });
+
+// Share functions
+// Shares hold their own copy of the report so a link can be read without access to the owner's reports
+const shareContent = (content: ReportContent) => ({
+  title: content.title,
+  content: content.content,
+  animations: content.animations,
+  ...(content.sources && { sources: content.sources })
+});
+
+const toShare = (snapshot: DocumentSnapshot): ReportShare => {
+  const data = snapshot.data() ?? {};
+  return {
+    token: snapshot.id,
+    reportId: data.reportId,
+    userId: data.userId,
+    title: data.title || '',
+    content: data.content || '',
+    animations: data.animations || [],
+    sources: data.sources,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    expiresAt: data.expiresAt?.toDate(),
+    revokedAt: data.revokedAt?.toDate()
+  };
+};
+
+// Rules only let owners list shares, so the query has to filter on userId too
+const reportSharesQuery = (reportId: string, userId: string) =>
+  query(collection(db, 'shares'), where('userId', '==', userId), where('reportId', '==', reportId));
+
+export const createShare = async (
+  reportId: string,
+  userId: string,
+  content: ReportContent,
+  expiresAt?: Date
+): Promise<ReportShare> => {
+  const token = createShareToken();
+  const share = {
+    reportId,
+    userId,
+    ...shareContent(content),
+    createdAt: new Date(),
+    ...(expiresAt && { expiresAt })
+  };
+  await setDoc(doc(db, 'shares', token), share);
+  return { token, ...share };
+};
+
+// Rules refuse expired links to anyone but their owner, which to everyone else is no link at all
+export const getShare = async (token: string): Promise<ReportShare | null> => {
+  try {
+    const shareDoc = await getDoc(doc(db, 'shares', token));
+    return shareDoc.exists() ? toShare(shareDoc) : null;
+  } catch (error: any) {
+    if (error.code === 'permission-denied') return null;
+    throw error;
+  }
+};
+
+// Unexpired, unrevoked shares of a report, newest first
+export const getReportShares = async (reportId: string, userId: string): Promise<ReportShare[]> => {
+  const snapshot = await getDocs(reportSharesQuery(reportId, userId));
+  return snapshot.docs
+    .map(toShare)
+    .filter(share => isShareActive(share))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+// The document stays as a record for the owner, but only they can read it and the copied report is removed
+export const revokeShare = (token: string) =>
+  updateDoc(doc(db, 'shares', token), {
+    revokedAt: new Date(),
+    title: deleteField(),
+    content: deleteField(),
+    animations: deleteField(),
+    sources: deleteField()
+  });
+
+// Active links show the latest saved version of the report
+const refreshShares = async (reportId: string, userId: string, content: ReportContent) => {
+  const snapshot = await getDocs(reportSharesQuery(reportId, userId));
+  const active = snapshot.docs.filter(shareDoc => isShareActive(toShare(shareDoc)));
+  if (active.length === 0) return;
+
+  const batch = writeBatch(db);
+  active.forEach(shareDoc => batch.update(shareDoc.ref, shareContent(content)));
+  await batch.commit();
+};
+
 // Storage functions
-export const uploadFile = async (file: File, path: string) => {
+export const uploadFile = async (file: Blob, path: string) => {
   const storageRef = ref(storage, path);
   await uploadBytes(storageRef, file);
   return getDownloadURL(storageRef);
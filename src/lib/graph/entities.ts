@@ -0,0 +1,236 @@
+import { EntityType } from '@/lib/types';
+
+// Entities and relationships as named in the text, before they are deduplicated and given ids
+export interface ExtractedEntity {
+  name: string;
+  type: EntityType;
+  aliases: string[];
+}
+
+export interface ExtractedRelationship {
+  source: string;
+  target: string;
+  label: string;
+}
+
+export interface ExtractedGraph {
+  entities: ExtractedEntity[];
+  relationships: ExtractedRelationship[];
+}
+
+const MAX_ENTITIES = 20;
+export const MAX_RELATIONSHIPS = 30;
+// Words allowed between capitalized words of one name ("Bank of America", "Johnson & Johnson")
+const NAME_CONNECTORS = new Set(['of', '&', 'de', 'du', 'von', 'van', 'for']);
+
+// Capitalized words that start sentences or headings without naming anything
+const COMMON_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'it', 'its', 'in', 'on', 'at', 'by', 'for', 'from', 'with', 'as',
+  'and', 'but', 'or', 'so', 'yet', 'if', 'when', 'while', 'where', 'what', 'which', 'who', 'why', 'how', 'however',
+  'also', 'although', 'after', 'before', 'since', 'during', 'overall', 'meanwhile', 'moreover', 'furthermore',
+  'additionally', 'finally', 'first', 'second', 'third', 'next', 'then', 'today', 'currently', 'recently', 'key',
+  'many', 'most', 'some', 'several', 'all', 'both', 'each', 'other', 'another', 'such', 'despite', 'given', 'based',
+  'according', 'our', 'we', 'they', 'their', 'there', 'here', 'i', 'you', 'he', 'she', 'his', 'her', 'one', 'two',
+  'new', 'more', 'less', 'high', 'low', 'note', 'summary', 'conclusion', 'introduction', 'overview', 'table',
+  'figure', 'section', 'source', 'sources', 'see', 'yes', 'no', 'not', 'q1', 'q2', 'q3', 'q4', 'h1', 'h2',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november',
+  'december', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+]);
+
+const COUNTRIES = new Set([
+  'United States', 'US', 'U.S', 'USA', 'America', 'China', 'India', 'Japan', 'Germany', 'France', 'United Kingdom', 'UK',
+  'Britain', 'Italy', 'Spain', 'Canada', 'Mexico', 'Brazil', 'Argentina', 'Chile', 'Russia', 'Ukraine', 'Poland',
+  'Netherlands', 'Belgium', 'Switzerland', 'Sweden', 'Norway', 'Denmark', 'Finland', 'Ireland', 'Portugal', 'Greece',
+  'Turkey', 'Israel', 'Iran', 'Iraq', 'Saudi Arabia', 'United Arab Emirates', 'UAE', 'Qatar', 'Egypt', 'Nigeria',
+  'Kenya', 'South Africa', 'Ethiopia', 'Australia', 'New Zealand', 'Indonesia', 'Malaysia', 'Singapore', 'Thailand',
+  'Vietnam', 'Philippines', 'South Korea', 'Korea', 'North Korea', 'Taiwan', 'Hong Kong', 'Pakistan', 'Bangladesh',
+  'European Union', 'EU', 'Europe', 'Asia', 'Africa', 'Latin America', 'Middle East', 'North America',
+]);
+
+// Abbreviations that should merge into the full name rather than become entities of their own
+const CANONICAL_NAMES: Record<string, string> = {
+  US: 'United States',
+  'U.S': 'United States',
+  USA: 'United States',
+  UK: 'United Kingdom',
+  EU: 'European Union',
+  UAE: 'United Arab Emirates',
+};
+
+const COMPANY_SUFFIXES = /\b(?:Inc|Corp|Corporation|Co|Ltd|LLC|PLC|AG|SA|SE|NV|GmbH|Group|Holdings|Technologies|Technology|Systems|Labs|Motors|Bank|Capital|Partners|Ventures|Pharmaceuticals|Semiconductor|Airlines|Energy|Networks|Software|Electronics)\.?$/;
+const ORGANIZATION_WORDS = /\b(?:Ministry|Department|Agency|Commission|Council|University|Institute|Association|Organization|Organisation|Foundation|Bureau|Administration|Authority|Committee|Court|Parliament|Congress|Senate|Reserve|Fund|Forum|Alliance)\b/;
+const ORGANIZATION_ACRONYMS = new Set(['UN', 'WHO', 'IMF', 'WTO', 'OECD', 'FDA', 'SEC', 'FTC', 'NATO', 'NASA', 'ECB', 'OPEC', 'IEA', 'FCC', 'EPA', 'DOJ', 'NIH', 'CDC']);
+const TECHNOLOGY_WORDS = /\b(?:AI|ML|LLMs?|GPUs?|CPUs?|APIs?|5G|6G|IoT|SaaS|Blockchain|Cloud|Kubernetes|Quantum|Lidar|LiDAR|Robotics|Chips?|Platform|OS|Transformers?|Bitcoin|Ethereum)\b/;
+const PERSON_TITLES = /\b(?:CEO|CFO|CTO|COO|founder|co-founder|chairman|chairwoman|chair|president|minister|secretary|director|professor|analyst|economist|senator|governor|Dr|Mr|Mrs|Ms|Prof)\.?\s*$/i;
+const COMPANY_CONTEXT = /\b(?:company|companies|firm|startup|rival|competitor|vendor|supplier|manufacturer|maker|provider|subsidiary)\s*$/i;
+
+const plainMarkdown = (markdown: string): string =>
+  markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_~]/g, '');
+
+// Body sentences only: headings are title-cased throughout, so every word would look like a name
+const bodySentences = (markdown: string): string[] =>
+  plainMarkdown(markdown)
+    .split('\n')
+    .filter(line => !/^\s*(?:#{1,6}\s|\|?\s*:?-{3,})/.test(line) && !/^\s*(?:---|\+\+\+)\s*$/.test(line))
+    .flatMap(line => line.split('|'))
+    .flatMap(line => line.split(/(?<=[.!?])\s+(?=[A-Z"'(])/))
+    .map(sentence => sentence.replace(/^\s*(?:[-*+>]|\d+\.)\s+/, '').trim())
+    .filter(Boolean);
+
+const isCapitalized = (word: string): boolean => /^[A-Z0-9][A-Za-z0-9&'.-]*$/.test(word) && /[A-Za-z]/.test(word);
+const isNameWord = (word: string): boolean => isCapitalized(word) || /^[a-z]+[A-Z][A-Za-z0-9]*$/.test(word);
+const cleanWord = (word: string): string => word.replace(/^[^A-Za-z0-9&]+|[^A-Za-z0-9&]+$/g, '').replace(/['’]s$/, '');
+
+interface Candidate {
+  name: string;
+  // Text just before the name in its sentence, used to tell people and companies apart
+  before: string;
+  alias?: string;
+}
+
+const findCandidates = (sentence: string): Candidate[] => {
+  const words = sentence.split(/\s+/);
+  const candidates: Candidate[] = [];
+  let run: string[] = [];
+  let runStart = 0;
+
+  const flush = (index: number) => {
+    // Connectors can't end a name ("Bank of")
+    while (run.length > 0 && NAME_CONNECTORS.has(run[run.length - 1])) run.pop();
+    // Drop sentence starters like "However" or "The" from the front of the run
+    while (run.length > 0 && COMMON_WORDS.has(run[0].toLowerCase())) {
+      run.shift();
+      runStart++;
+    }
+    let before = words.slice(Math.max(0, runStart - 3), runStart).join(' ');
+    // "CEO Jensen Huang" names a person; the title is context, not part of the name
+    if (run.length > 1 && PERSON_TITLES.test(run[0])) {
+      before = run.shift()!;
+    }
+    if (run.length > 0 && run.length <= 5) {
+      const alias = words[index]?.match(/^\(([A-Z][A-Za-z0-9&]{1,7})\)/)?.[1];
+      candidates.push({ name: run.join(' '), before, alias });
+    }
+    run = [];
+  };
+
+  words.forEach((rawWord, index) => {
+    const word = cleanWord(rawWord);
+    // A parenthesis starts something new, usually an acronym for the name before it
+    if (rawWord.startsWith('(')) flush(index);
+    const continues = run.length > 0 && NAME_CONNECTORS.has(word) && isNameWord(cleanWord(words[index + 1] ?? ''));
+    if (word && (isNameWord(word) || continues)) {
+      if (run.length === 0) runStart = index;
+      run.push(word);
+      // Punctuation after a word ends the name ("Apple, Google")
+      if (/[,;:.!?)"]$/.test(rawWord) || /['’]s$/.test(rawWord.replace(/[^A-Za-z'’]+$/, ''))) flush(index + 1);
+      return;
+    }
+    flush(index);
+  });
+  flush(words.length);
+
+  return candidates;
+};
+
+const classify = (name: string, before: string): EntityType => {
+  if (COUNTRIES.has(name)) return 'country';
+  if (ORGANIZATION_ACRONYMS.has(name) || ORGANIZATION_WORDS.test(name)) return 'organization';
+  if (COMPANY_SUFFIXES.test(name) || COMPANY_CONTEXT.test(before)) return 'company';
+  if (PERSON_TITLES.test(before)) return 'person';
+  if (TECHNOLOGY_WORDS.test(name) || /\d/.test(name) || /^[a-z]+[A-Z]/.test(name)) return 'technology';
+  return 'other';
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches a name as a whole word, including its possessive
+export const mentionPattern = (name: string): RegExp =>
+  new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(name)}(?![A-Za-z0-9])`, 'g');
+
+// Words between two names in a sentence become the relationship label when they read like a verb phrase
+const relationshipLabel = (between: string): string => {
+  const words = between.replace(/[,;:()"]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0 || words.length > 5) return '';
+  if (words.every(word => COMMON_WORDS.has(word.toLowerCase()) || ['&', 'vs', 'versus'].includes(word.toLowerCase()))) return '';
+  if (words.some(word => /^[A-Z]/.test(word) && !COMMON_WORDS.has(word.toLowerCase()))) return '';
+  return words.filter(word => word.toLowerCase() !== 'the').join(' ');
+};
+
+// Proper-noun extraction used when the model is unavailable: capitalized runs that recur or look like names
+export const extractEntitiesHeuristically = (markdown: string): ExtractedGraph => {
+  const sentences = bodySentences(markdown);
+  const found = new Map<string, { entity: ExtractedEntity; mentions: number; order: number }>();
+
+  sentences.forEach(sentence => {
+    findCandidates(sentence).forEach(candidate => {
+      const canonical = CANONICAL_NAMES[candidate.name];
+      if (canonical) {
+        candidate = { ...candidate, name: canonical, alias: candidate.name };
+      }
+      const existing = found.get(candidate.name);
+      if (existing) {
+        existing.mentions++;
+        if (candidate.alias && !existing.entity.aliases.includes(candidate.alias)) existing.entity.aliases.push(candidate.alias);
+        if (existing.entity.type === 'other') existing.entity.type = classify(candidate.name, candidate.before);
+        return;
+      }
+      found.set(candidate.name, {
+        entity: { name: candidate.name, type: classify(candidate.name, candidate.before), aliases: candidate.alias ? [candidate.alias] : [] },
+        mentions: 1,
+        order: found.size,
+      });
+    });
+  });
+
+  // Acronyms introduced in parentheses are the same entity, not a second one
+  const aliasOf = new Map<string, string>();
+  found.forEach(({ entity }) => entity.aliases.forEach(alias => aliasOf.set(alias, entity.name)));
+  aliasOf.forEach((name, alias) => {
+    const aliasEntry = found.get(alias);
+    const entry = found.get(name);
+    if (aliasEntry && entry && alias !== name) {
+      entry.mentions += aliasEntry.mentions;
+      found.delete(alias);
+    }
+  });
+
+  // Single capitalized words seen once are usually just sentence starts
+  const entities = Array.from(found.values())
+    .filter(({ entity, mentions }) =>
+      mentions >= 2 || entity.name.includes(' ') || entity.type !== 'other' || /^[A-Z]{2,}$/.test(entity.name))
+    .sort((a, b) => b.mentions - a.mentions || a.order - b.order)
+    .slice(0, MAX_ENTITIES)
+    .map(({ entity }) => entity);
+
+  const relationships: ExtractedRelationship[] = [];
+  sentences.forEach(sentence => {
+    const mentions = entities
+      .flatMap(entity => [entity.name, ...entity.aliases].flatMap(name =>
+        Array.from(sentence.matchAll(mentionPattern(name))).map(match => ({
+          entity: entity.name,
+          start: match.index ?? 0,
+          end: (match.index ?? 0) + name.length,
+        }))
+      ))
+      .sort((a, b) => a.start - b.start);
+
+    // Neighbouring mentions are related; the words between them say how
+    for (let i = 0; i + 1 < mentions.length; i++) {
+      const [from, to] = [mentions[i], mentions[i + 1]];
+      if (from.entity === to.entity || to.start < from.end) continue;
+      relationships.push({
+        source: from.entity,
+        target: to.entity,
+        label: relationshipLabel(sentence.substring(from.end, to.start).replace(/^['’]s\b/, '')),
+      });
+    }
+  });
+
+  return { entities, relationships: relationships.slice(0, MAX_RELATIONSHIPS * 2) };
+};
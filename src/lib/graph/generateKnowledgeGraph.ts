@@ -0,0 +1,57 @@
+import { AnimationSection, KnowledgeGraph } from '@/lib/types';
+import { ExtractedGraph, extractEntitiesHeuristically } from './entities';
+import { buildKnowledgeGraph } from './knowledgeGraph';
+import { authorizedFetch } from '@/lib/auth/authorizedFetch';
+import { createLruCache } from '@/lib/cache/lruCache';
+
+// Extractions keyed by report content, so re-renders don't hit the model again. Keys are whole
+// reports, so only the last few are kept.
+const extractionCache = createLruCache<string, Promise<{ extracted: ExtractedGraph; source: KnowledgeGraph['source'] }>>(10);
+
+const requestEntities = async (markdown: string): Promise<ExtractedGraph> => {
+  const response = await authorizedFetch('/api/anthropic/entities', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ markdown })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Entity request failed with status ${response.status}`);
+  }
+
+  const result = await response.json();
+  if (!Array.isArray(result.entities) || result.entities.length === 0) {
+    throw new Error('Model returned no entities');
+  }
+
+  return { entities: result.entities, relationships: result.relationships ?? [] };
+};
+
+const extract = (markdown: string) => {
+  // Skip the network entirely when offline
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return Promise.resolve({ extracted: extractEntitiesHeuristically(markdown), source: 'heuristic' as const });
+  }
+
+  const cached = extractionCache.get(markdown);
+  if (cached) return cached;
+
+  const pending = requestEntities(markdown)
+    .then(extracted => ({ extracted, source: 'llm' as const }))
+    .catch((error) => {
+      console.warn('Falling back to heuristic entity extraction:', error);
+      extractionCache.delete(markdown);
+      return { extracted: extractEntitiesHeuristically(markdown), source: 'heuristic' as const };
+    });
+
+  extractionCache.set(markdown, pending);
+  return pending;
+};
+
+export const generateKnowledgeGraph = async (
+  markdown: string,
+  sections: Pick<AnimationSection, 'heading' | 'content'>[]
+): Promise<KnowledgeGraph> => {
+  const { extracted, source } = await extract(markdown);
+  return buildKnowledgeGraph(extracted, sections, source);
+};
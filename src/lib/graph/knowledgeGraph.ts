@@ -0,0 +1,117 @@
+import { AnimationSection, Entity, EntityRelationship, EntityType, KnowledgeGraph } from '@/lib/types';
+import { toLabel } from '@/lib/diagrams/templates';
+import { ExtractedGraph, MAX_RELATIONSHIPS, mentionPattern } from './entities';
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  company: 'Company',
+  organization: 'Organization',
+  country: 'Country or region',
+  person: 'Person',
+  technology: 'Technology',
+  other: 'Other',
+};
+
+// Fill and stroke per entity type, shared by the graph's classDefs and the legend
+export const ENTITY_TYPE_COLORS: Record<EntityType, { fill: string; stroke: string }> = {
+  company: { fill: '#e1f5fe', stroke: '#01579b' },
+  organization: { fill: '#f3e5f5', stroke: '#4a148c' },
+  country: { fill: '#e8f5e9', stroke: '#1b5e20' },
+  person: { fill: '#fff3e0', stroke: '#e65100' },
+  technology: { fill: '#e8eaf6', stroke: '#1a237e' },
+  other: { fill: '#f5f5f5', stroke: '#616161' },
+};
+
+// "The Apple Inc." and "apple" are the same entity
+const normalizeName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/^the\s+/, '')
+    .replace(/['’]s$/, '')
+    .replace(/[,.]?\s+(?:inc|corp|corporation|co|ltd|llc|plc)\.?$/, '')
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .trim();
+
+const mentions = (text: string, entity: Pick<Entity, 'name' | 'aliases'>): boolean =>
+  [entity.name, ...entity.aliases].some(name => mentionPattern(name).test(text));
+
+// Merge duplicates, give entities stable ids and link each one to the sections that mention it
+export const buildKnowledgeGraph = (
+  extracted: ExtractedGraph,
+  sections: Pick<AnimationSection, 'heading' | 'content'>[],
+  source: KnowledgeGraph['source']
+): KnowledgeGraph => {
+  const entities: Entity[] = [];
+  const byKey = new Map<string, Entity>();
+
+  extracted.entities.forEach(candidate => {
+    const names = [candidate.name, ...candidate.aliases].filter(name => name.trim());
+    const keys = names.map(normalizeName).filter(Boolean);
+    const existing = keys.map(key => byKey.get(key)).find(Boolean);
+
+    if (existing) {
+      names.forEach(name => {
+        if (name !== existing.name && !existing.aliases.includes(name)) existing.aliases.push(name);
+      });
+      if (existing.type === 'other') existing.type = candidate.type;
+      keys.forEach(key => byKey.set(key, existing));
+      return;
+    }
+
+    const entity: Entity = {
+      id: `E${entities.length}`,
+      name: candidate.name.trim(),
+      type: candidate.type,
+      aliases: candidate.aliases.filter(alias => alias.trim() && alias !== candidate.name),
+      sectionIndices: [],
+    };
+    entities.push(entity);
+    keys.forEach(key => byKey.set(key, entity));
+  });
+
+  entities.forEach(entity => {
+    entity.sectionIndices = sections
+      .map((section, index) => (mentions(`${section.heading}\n${section.content}`, entity) ? index : -1))
+      .filter(index => index !== -1);
+  });
+
+  const relationships: EntityRelationship[] = [];
+  extracted.relationships.forEach(relationship => {
+    const from = byKey.get(normalizeName(relationship.source));
+    const to = byKey.get(normalizeName(relationship.target));
+    if (!from || !to || from === to || relationships.length >= MAX_RELATIONSHIPS) return;
+
+    // One edge per pair, whichever direction it was stated in
+    const pair = [from.id, to.id].sort().join('|');
+    const existing = relationships.find(edge => [edge.source, edge.target].sort().join('|') === pair);
+    if (existing) {
+      if (!existing.label && relationship.label) existing.label = relationship.label.trim();
+      return;
+    }
+    relationships.push({ source: from.id, target: to.id, label: relationship.label.trim() });
+  });
+
+  // Entities the report never actually names and that connect to nothing only add noise
+  const connected = new Set(relationships.flatMap(edge => [edge.source, edge.target]));
+  return {
+    entities: entities.filter(entity => entity.sectionIndices.length > 0 || connected.has(entity.id)),
+    relationships,
+    source,
+  };
+};
+
+export const graphToMermaid = (graph: KnowledgeGraph): string => {
+  const usedTypes = Array.from(new Set(graph.entities.map(entity => entity.type)));
+  const ids = new Set(graph.entities.map(entity => entity.id));
+
+  return [
+    'graph LR',
+    ...graph.entities.map(entity => `    ${entity.id}["${toLabel(entity.name, 40)}"]:::${entity.type}`),
+    ...graph.relationships
+      .filter(edge => ids.has(edge.source) && ids.has(edge.target))
+      .map(edge => edge.label
+        ? `    ${edge.source} ---|"${toLabel(edge.label, 30)}"| ${edge.target}`
+        : `    ${edge.source} --- ${edge.target}`),
+    ...usedTypes.map(type =>
+      `    classDef ${type} fill:${ENTITY_TYPE_COLORS[type].fill},stroke:${ENTITY_TYPE_COLORS[type].stroke}`),
+  ].join('\n');
+};
@@ -0,0 +1,25 @@
+import { ENTITY_TYPES } from '@/lib/types';
+
+// Reports longer than this are truncated before being sent to the model
+export const MAX_REPORT_CHARS = 24000;
+
+export const ENTITY_SYSTEM_PROMPT = `You extract a knowledge graph from research reports.
+
+List the entities that matter to the report as a whole, at most 20:
+- type is one of ${ENTITY_TYPES.join(', ')}
+- name is the fullest form used in the report, exactly as written there
+- aliases are other spellings or acronyms the report uses for the same entity, exactly as written
+
+List relationships between those entities, at most 30:
+- source and target are entity names from your list
+- label is a short verb phrase such as "supplies" or "competes with", under 30 characters
+
+Prefer entities that recur across the report and relationships the report states explicitly.`;
+
+export const buildEntityPrompt = (markdown: string): string => {
+  const body = markdown.length > MAX_REPORT_CHARS
+    ? markdown.substring(0, MAX_REPORT_CHARS) + '\n[truncated]'
+    : markdown;
+
+  return `Report:\n${body}`;
+};
@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import { Draft } from '@/lib/types';
+import { deleteDraft, saveDraft } from '@/lib/drafts/draftStore';
+
+// Long enough not to write on every keystroke, short enough that a crash loses little
+const AUTOSAVE_DELAY = 1000;
+
+// Keeps the user's browser draft in step with the editor: written while there are unsaved changes
+// and removed once there are none. Nothing is written while disabled, so an old draft can be
+// offered for recovery before it's overwritten
+export const useDraftAutosave = (userId: string | undefined, draft: Omit<Draft, 'savedAt'> | null, enabled: boolean) => {
+  const latest = useRef(draft);
+  latest.current = draft;
+
+  useEffect(() => {
+    if (!userId || !enabled) return;
+    const write = () => {
+      (latest.current ? saveDraft(latest.current) : deleteDraft(userId)).catch(error =>
+        console.error('Error autosaving draft:', error)
+      );
+    };
+    const timeout = setTimeout(write, AUTOSAVE_DELAY);
+    // A tab being closed or navigated away can't wait out the delay
+    window.addEventListener('pagehide', write);
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener('pagehide', write);
+    };
+  }, [userId, draft, enabled]);
+};
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { LiveReportState } from '@/lib/types';
+import { MergeConflict, mergeLiveState, sameLiveState } from '@/lib/collaboration/merge';
+
+// Short enough that others see typing almost as it happens, long enough to send words, not keystrokes
+const PUBLISH_DELAY = 300;
+
+// How long to wait before trying again after a publish failed, as when the connection dropped
+const RETRY_DELAY = 5000;
+
+// Loaded on first use, so the local storage provider never initializes Firebase
+const loadCollaboration = () => import('@/lib/firebase/collaboration');
+
+interface LiveReportOptions {
+  // The report being edited together, or null when it isn't shared
+  reportId: string | null;
+  // When the report was last saved; live state older than that was left behind before the save
+  savedAt: Date | undefined;
+  // The editor's current state
+  state: LiveReportState;
+  // Viewers follow along without publishing
+  canEdit: boolean;
+  // Called with the editor's state merged with changes someone else published
+  onRemoteChange: (state: LiveReportState) => void;
+  // Called when edits made here replaced someone else's concurrent change to the same words
+  onConflict: (conflicts: MergeConflict[]) => void;
+}
+
+// Keeps a shared report in sync between everyone who has it open. Local edits are published a
+// moment after they're made, and others' edits are merged into the editor as they arrive, so
+// two people typing in different places both keep their changes.
+export const useLiveReport = ({ reportId, savedAt, state, canEdit, onRemoteChange, onConflict }: LiveReportOptions) => {
+  const [sessionId] = useState(() => crypto.randomUUID());
+  const [publishCount, setPublishCount] = useState(0);
+  const latest = useRef(state);
+  latest.current = state;
+  const onRemote = useRef(onRemoteChange);
+  onRemote.current = onRemoteChange;
+  const onConflicts = useRef(onConflict);
+  onConflicts.current = onConflict;
+  const savedAtRef = useRef(savedAt);
+  savedAtRef.current = savedAt;
+  const activeReport = useRef(reportId);
+  activeReport.current = reportId;
+  // The last state everyone agreed on and its revision; local edits are whatever differs from it
+  const base = useRef<LiveReportState | null>(null);
+  const revision = useRef(0);
+  const publishing = useRef(false);
+  // The newest revision that arrived while publishing, applied once the publish settles
+  const heldBack = useRef<{ state: LiveReportState; revision: number } | null>(null);
+
+  // Merges a newer revision into the editor; from is the state the editor's edits were made on
+  const applyRevision = useCallback((theirs: LiveReportState, theirRevision: number, from: LiveReportState) => {
+    if (theirRevision <= revision.current) return;
+    const { state: merged, conflicts } = mergeLiveState(from, latest.current, theirs);
+    base.current = theirs;
+    revision.current = theirRevision;
+    if (conflicts.length > 0) onConflicts.current(conflicts);
+    if (!sameLiveState(merged, latest.current)) {
+      latest.current = merged;
+      onRemote.current(merged);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!reportId) return;
+    // The editor holds the report as loaded when this starts
+    base.current = latest.current;
+    revision.current = 0;
+    heldBack.current = null;
+    let first = true;
+    let cancelled = false;
+    let unsubscribe = () => {};
+
+    loadCollaboration().then(({ subscribeToLiveState }) => {
+      if (cancelled) return;
+      unsubscribe = subscribeToLiveState(
+        reportId,
+        live => {
+          const isFirst = first;
+          first = false;
+          if (!live || !base.current) return;
+          // Left from before the report was last saved, as by someone not editing live; the next
+          // publish replaces it
+          if (isFirst && savedAtRef.current && live.updatedAt < savedAtRef.current) {
+            revision.current = live.revision;
+            return;
+          }
+          if (publishing.current) {
+            heldBack.current = live;
+            return;
+          }
+          applyRevision(live.state, live.revision, base.current);
+        },
+        error => console.error('Error following live edits:', error)
+      );
+    }).catch(error => console.error('Error loading live editing:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      base.current = null;
+    };
+  }, [reportId, applyRevision]);
+
+  useEffect(() => {
+    if (!reportId || !canEdit || !base.current || publishing.current || sameLiveState(state, base.current)) return;
+
+    const timeout = setTimeout(async () => {
+      const from = base.current;
+      if (!from || activeReport.current !== reportId) return;
+      const sent = latest.current;
+      publishing.current = true;
+      let retry = false;
+      try {
+        const { publishLiveState } = await loadCollaboration();
+        const published = await publishLiveState(reportId, from, revision.current, sent, sessionId);
+        if (published.conflicts.length > 0) onConflicts.current(published.conflicts);
+        // Typing done while the publish was in flight is kept on top of what was published
+        if (activeReport.current === reportId) applyRevision(published.state, published.revision, sent);
+      } catch (error) {
+        console.error('Error publishing live edits:', error);
+        retry = true;
+      } finally {
+        publishing.current = false;
+        const held = heldBack.current;
+        heldBack.current = null;
+        if (held && base.current && activeReport.current === reportId) applyRevision(held.state, held.revision, base.current);
+        // Runs this effect again, so edits made meanwhile are published too
+        setTimeout(() => setPublishCount(count => count + 1), retry ? RETRY_DELAY : 0);
+      }
+    }, PUBLISH_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [reportId, canEdit, state, publishCount, sessionId, applyRevision]);
+};
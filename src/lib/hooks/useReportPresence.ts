@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import { Presence } from '@/lib/types';
+
+// Open tabs refresh their presence this often; anyone not heard from in PRESENCE_TIMEOUT closed the
+// tab without leaving
+const PRESENCE_HEARTBEAT = 30 * 1000;
+const PRESENCE_TIMEOUT = 90 * 1000;
+
+const loadCollaboration = () => import('@/lib/firebase/collaboration');
+
+interface PresenceUser {
+  uid: string;
+  email: string | null;
+  displayName?: string | null;
+}
+
+// Announces the user on a shared report, with the section they're looking at, and returns everyone
+// else who has it open
+export const useReportPresence = (reportId: string | null, user: PresenceUser | null, sectionIndex: number | null) => {
+  const [presence, setPresence] = useState<Presence[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const sectionRef = useRef(sectionIndex);
+  sectionRef.current = sectionIndex;
+  const uid = user?.uid;
+  const name = user?.displayName || user?.email || 'Someone';
+  const email = user?.email ?? undefined;
+
+  useEffect(() => {
+    if (!reportId || !uid) return;
+    let cancelled = false;
+    let unsubscribe = () => {};
+    const leave = () => {
+      loadCollaboration()
+        .then(({ leavePresence }) => leavePresence(reportId, uid))
+        .catch(error => console.error('Error leaving presence:', error));
+    };
+
+    loadCollaboration().then(({ subscribeToPresence }) => {
+      if (cancelled) return;
+      unsubscribe = subscribeToPresence(
+        reportId,
+        entries => setPresence(entries.filter(entry => entry.uid !== uid)),
+        error => console.error('Error following presence:', error)
+      );
+    }).catch(error => console.error('Error loading presence:', error));
+
+    const heartbeat = setInterval(() => {
+      setNow(Date.now());
+      loadCollaboration()
+        .then(({ updatePresence }) => updatePresence(reportId, { uid, name, email, sectionIndex: sectionRef.current }))
+        .catch(error => console.error('Error updating presence:', error));
+    }, PRESENCE_HEARTBEAT);
+    window.addEventListener('pagehide', leave);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', leave);
+      leave();
+      setPresence([]);
+    };
+  }, [reportId, uid, name, email]);
+
+  // Opening the report and moving to another section are announced straight away
+  useEffect(() => {
+    if (!reportId || !uid) return;
+    loadCollaboration()
+      .then(({ updatePresence }) => updatePresence(reportId, { uid, name, email, sectionIndex }))
+      .catch(error => console.error('Error updating presence:', error));
+  }, [reportId, uid, name, email, sectionIndex]);
+
+  return presence.filter(entry => now - entry.updatedAt.getTime() < PRESENCE_TIMEOUT);
+};
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { CommentThread } from '@/lib/types';
+
+const loadComments = () => import('@/lib/firebase/comments');
+
+// The review threads on a report, kept up to date as anyone comments, replies or resolves
+export const useReportThreads = (reportId: string | null) => {
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+
+  useEffect(() => {
+    setThreads([]);
+    if (!reportId) return;
+    let cancelled = false;
+    let unsubscribe = () => {};
+    loadComments().then(({ subscribeToThreads }) => {
+      if (cancelled) return;
+      unsubscribe = subscribeToThreads(reportId, setThreads, error => console.error('Error loading comments:', error));
+    }).catch(error => console.error('Error loading comments:', error));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [reportId]);
+
+  return threads;
+};
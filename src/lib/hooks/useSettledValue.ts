@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+// The value once it has stopped changing for delay milliseconds; while disabled, the value as it is
+export const useSettledValue = <T>(value: T, delay: number, enabled: boolean): T => {
+  const [settled, setSettled] = useState(value);
+
+  useEffect(() => {
+    if (!enabled) {
+      setSettled(value);
+      return;
+    }
+    const timeout = setTimeout(() => setSettled(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay, enabled]);
+
+  return enabled ? settled : value;
+};
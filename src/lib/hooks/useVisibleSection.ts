@@ -0,0 +1,48 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// A section counts as being read once its diagram is above this fraction of the window's height
+const READING_LINE = 0.4;
+
+// The index of the section the user is reading in the rendered report, or null when it's off screen
+export const useVisibleSection = (container: RefObject<HTMLElement>, enabled: boolean) => {
+  const [sectionIndex, setSectionIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setSectionIndex(null);
+      return;
+    }
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const element = container.current;
+      const bounds = element?.getBoundingClientRect();
+      if (!element || !bounds || bounds.bottom < 0 || bounds.top > window.innerHeight) {
+        setSectionIndex(null);
+        return;
+      }
+      // Diagrams follow their section's heading, so the last one above the line is the section being read
+      let current: number | null = null;
+      element.querySelectorAll<HTMLElement>('[data-diagram-section]').forEach(diagram => {
+        if (current === null || diagram.getBoundingClientRect().top <= window.innerHeight * READING_LINE) {
+          current = Number(diagram.dataset.diagramSection);
+        }
+      });
+      setSectionIndex(current);
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    schedule();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [container, enabled]);
+
+  return sectionIndex;
+};
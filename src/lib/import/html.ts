@@ -0,0 +1,129 @@
+import { unified } from 'unified';
+import rehypeParse from 'rehype-parse';
+import rehypeRemark from 'rehype-remark';
+import remarkGfm from 'remark-gfm';
+import remarkStringify from 'remark-stringify';
+import type { Element, ElementContent, Root as HastRoot } from 'hast';
+
+// Never content: scripts, styles, embeds, page chrome and form controls
+const REMOVED_ELEMENTS = new Set([
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'canvas', 'svg',
+  'meta', 'link', 'nav', 'button', 'form', 'input', 'select', 'textarea', 'dialog',
+]);
+
+// Query parameters that only identify the click or campaign
+const TRACKING_PARAMS = /^(utm_\w+|mc_(cid|eid)|fbclid|gclid|gclsrc|dclid|msclkid|yclid|twclid|igshid|mkt_tok|_hsenc|_hsmi|hsa_\w+|_ga|_gl|srsltid|ref_src|oly_(enc|anon)_id|vero_id|trk)$/i;
+
+// Link wrappers that redirect through a tracker, and the parameter holding the real URL
+const REDIRECTS: [RegExp, string][] = [
+  [/^https?:\/\/(www\.)?google\.[a-z.]+\/url$/i, 'q'],
+  [/^https?:\/\/l\.facebook\.com\/l\.php$/i, 'u'],
+  [/^https?:\/\/[\w.-]+\.safelinks\.protection\.outlook\.com\/$/i, 'url'],
+  [/^https?:\/\/(www\.)?linkedin\.com\/redir\/redirect$/i, 'url'],
+];
+
+export const cleanUrl = (href: string): string => {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return href;
+  }
+
+  const redirect = REDIRECTS.find(([pattern]) => pattern.test(`${url.origin}${url.pathname}`));
+  const target = redirect && url.searchParams.get(redirect[1]);
+  if (target) return cleanUrl(target);
+
+  Array.from(url.searchParams.keys())
+    .filter(key => TRACKING_PARAMS.test(key))
+    .forEach(key => url.searchParams.delete(key));
+  return url.toString();
+};
+
+const styleOf = (element: Element) => String(element.properties?.style ?? '').toLowerCase().replace(/\s+/g, '');
+
+const isHidden = (element: Element) => {
+  const style = styleOf(element);
+  return (
+    element.properties?.hidden !== undefined ||
+    style.includes('display:none') ||
+    style.includes('visibility:hidden') ||
+    // Word's list bullets, which Markdown list markers replace
+    style.includes('mso-list:ignore')
+  );
+};
+
+const isTrackingImage = (element: Element) => {
+  const src = String(element.properties?.src ?? '');
+  const width = Number(element.properties?.width);
+  const height = Number(element.properties?.height);
+  // Pixels, and embedded data that would bloat the Markdown
+  return !src || src.startsWith('data:') || (width <= 1 && height <= 1);
+};
+
+const wrap = (tagName: string, children: ElementContent[]): Element => ({ type: 'element', tagName, properties: {}, children });
+
+// Strips scripts, trackers and hidden content and turns inline-styled formatting, as produced
+// by Google Docs and Word, into the tags Markdown conversion understands
+const cleanChildren = (children: ElementContent[]): ElementContent[] =>
+  children.flatMap((node): ElementContent[] => {
+    if (node.type === 'comment') return [];
+    if (node.type !== 'element') return [node];
+
+    if (REMOVED_ELEMENTS.has(node.tagName) || isHidden(node)) return [];
+    if (node.tagName === 'img' && isTrackingImage(node)) return [];
+    if (node.tagName === 'a' && typeof node.properties?.href === 'string') {
+      node.properties.href = cleanUrl(node.properties.href);
+    }
+
+    node.children = cleanChildren(node.children);
+    const style = styleOf(node);
+
+    // Google Docs wraps the whole clipboard in <b style="font-weight:normal">
+    if (node.tagName === 'b' && /font-weight:(normal|400)/.test(style)) return node.children;
+    if (node.tagName === 'span') {
+      let content: ElementContent[] = node.children;
+      if (/font-weight:(bold|[6-9]00)/.test(style)) content = [wrap('strong', content)];
+      if (style.includes('font-style:italic')) content = [wrap('em', content)];
+      if (/text-decoration[\w-]*:line-through/.test(style)) content = [wrap('del', content)];
+      return content;
+    }
+    return [node];
+  });
+
+const rehypeCleanImport = () => (tree: HastRoot) => {
+  tree.children = cleanChildren(tree.children as ElementContent[]);
+};
+
+const processor = unified()
+  .use(rehypeParse)
+  .use(rehypeCleanImport)
+  .use(rehypeRemark)
+  .use(remarkGfm)
+  .use(remarkStringify, { bullet: '-', emphasis: '*', strong: '*', fences: true, rule: '-' });
+
+// Converts an HTML document or fragment to Markdown, keeping headings, lists, tables and links
+export const htmlToMarkdown = async (html: string): Promise<string> => {
+  const markdown = String(await processor.process(html));
+  // Citation markers like [1] are escaped as possible links; they're only citations here
+  return markdown.replace(/\\\[(\^?\w+)\](?![(:[])/g, '[$1]').trim() + '\n';
+};
+
+const MARKDOWN_PATTERNS = [
+  /^#{1,6}\s/m,
+  /^\s*[-*+]\s/m,
+  /^\s*\d+\.\s/m,
+  /^\s*\|.*\|\s*$/m,
+  /^```/m,
+  /\[[^\]]+\]\([^)]+\)/,
+  /\*\*[^*\n]+\*\*/,
+];
+
+// Rich clipboard HTML is converted, except when the plain text is already Markdown or the HTML
+// is just highlighted source from a code editor
+export const shouldConvertPastedHtml = (html: string, text: string): boolean => {
+  if (!html.trim()) return false;
+  if (/white-space:\s*pre/i.test(html)) return false;
+  if (MARKDOWN_PATTERNS.some(pattern => pattern.test(text))) return false;
+  return /<(h[1-6]|table|ul|ol|blockquote|pre|strong|b|em|i|a\s)[\s>]/i.test(html);
+};
@@ -0,0 +1,44 @@
+import { htmlToMarkdown } from './html';
+
+export const IMPORT_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm', '.docx'];
+// Anything bigger is almost certainly not a report
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().match(/\.[^.]+$/)?.[0] ?? '';
+
+const normalizeText = (text: string) => text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+const docxToHtml = async (file: File): Promise<string> => {
+  const mammoth = (await import('mammoth')).default;
+  const { value, messages } = await mammoth.convertToHtml(
+    { arrayBuffer: await file.arrayBuffer() },
+    {
+      // Embedded images would end up as huge data URLs, so they're left out
+      convertImage: mammoth.images.imgElement(async () => ({ src: '' })),
+      ignoreEmptyParagraphs: true,
+    }
+  );
+  messages.filter(message => message.type === 'error').forEach(message => console.warn('DOCX import:', message.message));
+  return value;
+};
+
+// Converts a dropped or picked file to Markdown
+export const importFile = async (file: File): Promise<string> => {
+  const extension = extensionOf(file.name);
+  if (!IMPORT_EXTENSIONS.includes(extension)) {
+    throw new Error(`Can't import ${extension || 'files without an extension'}; use ${IMPORT_EXTENSIONS.join(', ')}`);
+  }
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new Error('File is too large to import');
+  }
+
+  switch (extension) {
+    case '.html':
+    case '.htm':
+      return htmlToMarkdown(await file.text());
+    case '.docx':
+      return htmlToMarkdown(await docxToHtml(file));
+    default:
+      return normalizeText(await file.text());
+  }
+};
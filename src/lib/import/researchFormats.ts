@@ -0,0 +1,228 @@
+import { toString } from 'mdast-util-to-string';
+import type { Heading, Nodes } from 'mdast';
+import { parseMarkdown } from '@/lib/markdown/sections';
+
+// A deep-research tool's export style: how to recognize it and what to fix before sectioning
+export interface ResearchFormat {
+  id: string;
+  label: string;
+  // How sure we are the report came from this tool, from 0 (not at all) to 1
+  detect: (markdown: string) => number;
+  // Rewrites the tool's quirks into plain Markdown with [n] citations
+  normalize?: (markdown: string) => string;
+}
+
+export interface NormalizedReport {
+  markdown: string;
+  format: ResearchFormat;
+  // Thinking and research-process text taken out of the findings
+  reasoning?: string;
+  // What was changed, for telling the user
+  changes: string[];
+}
+
+const CHATGPT_CITATION = /【(\d+)(?::\d+)?†[^】]*】/g;
+// Citation handles, which ChatGPT wraps in private-use characters: U+E200 opens one, U+E202
+// separates its parts and U+E201 closes it
+const CHATGPT_CITE_TOKEN = /\s*\uE200?cite(?:\uE202?turn\d+[a-z]+\d+)+\uE201?/g;
+const CHATGPT_WRAPPER = /[\uE200-\uE202]/g;
+
+export const RESEARCH_FORMATS: ResearchFormat[] = [
+  {
+    id: 'chatgpt',
+    label: 'ChatGPT deep research',
+    detect: (markdown) =>
+      /cite\uE202?turn\d+|【\d+(?::\d+)?†/.test(markdown) ? 1 : /[?&]utm_source=chatgpt\.com/.test(markdown) ? 0.8 : 0,
+    normalize: (markdown) =>
+      markdown
+        .replace(CHATGPT_CITATION, '[$1]')
+        // Internal citation handles that only resolve inside ChatGPT
+        .replace(CHATGPT_CITE_TOKEN, '')
+        .replace(CHATGPT_WRAPPER, '')
+        .replace(/\?utm_source=chatgpt\.com(?=[)\s\]]|$)/g, '')
+        .replace(/[?&]utm_source=chatgpt\.com/g, ''),
+  },
+  {
+    id: 'perplexity',
+    label: 'Perplexity',
+    detect: (markdown) =>
+      /perplexity\.ai/i.test(markdown)
+        ? 0.9
+        : /^\s*(?:\*\*)?citations:?(?:\*\*)?\s*$/im.test(markdown) && /(?:\[\d+\]){2,}/.test(markdown)
+          ? 0.7
+          : 0,
+  },
+  {
+    id: 'gemini',
+    label: 'Gemini deep research',
+    detect: (markdown) => (/^(?:#+\s*|\*\*)?works cited(?:\*\*)?\s*$/im.test(markdown) ? 0.8 : 0),
+    // Gemini writes citation numbers straight after the full stop, as in "grew rapidly.12"
+    normalize: (markdown) => markdown.replace(/([A-Za-z)])\.(\d{1,3}(?:,\s?\d{1,3})*)(?=\s|$)/g, '$1. [$2]'),
+  },
+];
+
+export const GENERIC_FORMAT: ResearchFormat = { id: 'markdown', label: 'Markdown', detect: () => 0 };
+
+export const researchFormatLabel = (id?: string): string | null =>
+  RESEARCH_FORMATS.find(format => format.id === id)?.label ?? null;
+
+export const detectResearchFormat = (markdown: string): ResearchFormat =>
+  RESEARCH_FORMATS.map(format => ({ format, score: format.detect(markdown) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)[0]?.format ?? GENERIC_FORMAT;
+
+// Headings of whole reasoning sections, and summaries of collapsed reasoning such as "Thought for 40 seconds"
+const REASONING_HEADING = /^(?:thoughts|thinking(?: process)?|thought process|reasoning(?: process| steps)?|chain of thought|research (?:plan|process|steps|activity))$/i;
+const REASONING_SUMMARY = /^(?:thought|thinking|reasoning|reasoned|chain of thought|research (?:plan|process|steps|activity)|activity)\b/i;
+const REASONING_TAGS = /<(think|thinking|reasoning)>([\s\S]*?)<\/\1>\s*/gi;
+const DETAILS_BLOCK = /<details[^>]*>\s*<summary>([\s\S]*?)<\/summary>([\s\S]*?)<\/details>\s*/gi;
+// Status lines such as "Thought for 2m 13s" or "Research completed in 8m · 25 sources"
+const STATUS_LINE = /^(?:thought|reasoned|worked) for [\w\s]+$|^research completed in .+$/gim;
+const SOURCES_LABEL = /^(?:sources|citations|references|works cited|bibliography)$/i;
+const BOLD_LINE = /^(\*\*|__)([^*_\n].*?)\1:?$/;
+
+const CODE_PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+// Code blocks and spans, as the nodes that hold them
+const codeNodes = (node: Nodes, found: Nodes[] = []) => {
+  if ((node.type === 'code' || node.type === 'inlineCode') && node.position) {
+    found.push(node);
+  } else if ('children' in node) {
+    node.children.forEach(child => codeNodes(child as Nodes, found));
+  }
+  return found;
+};
+
+// Swaps code blocks and spans for placeholders while the text around them is rewritten, so code
+// that only looks like a citation or status line is left alone. Restore puts the code back,
+// wherever the rewrite moved it.
+const setCodeAside = (markdown: string) => {
+  const code: string[] = [];
+  let text = '';
+  let index = 0;
+  codeNodes(parseMarkdown(markdown)).forEach(({ position }) => {
+    const start = position!.start.offset ?? 0;
+    const end = position!.end.offset ?? 0;
+    text += `${markdown.slice(index, start)}\u0000${code.length}\u0000`;
+    code.push(markdown.slice(start, end));
+    index = end;
+  });
+  return {
+    text: text + markdown.slice(index),
+    restore: (rewritten: string) => rewritten.replace(CODE_PLACEHOLDER, (_match, number: string) => code[Number(number)]),
+  };
+};
+
+// Takes collapsible reasoning, thinking tags and status lines out of the report
+const extractInlineReasoning = (markdown: string, reasoning: string[]): string =>
+  markdown
+    .replace(REASONING_TAGS, (_match, _tag, text: string) => {
+      reasoning.push(text.trim());
+      return '';
+    })
+    .replace(DETAILS_BLOCK, (match, summary: string, text: string) => {
+      if (!REASONING_SUMMARY.test(summary.replace(/<[^>]+>/g, '').trim())) return match;
+      reasoning.push(text.trim());
+      return '';
+    })
+    .replace(STATUS_LINE, line => {
+      reasoning.push(line.trim());
+      return '';
+    });
+
+// Bold lines standing alone between blank lines, and bare "Sources:" labels, become headings one
+// level below the deepest real heading, so reports formatted that way still split into sections
+const promotePseudoHeadings = (markdown: string): { markdown: string; promoted: number } => {
+  const lines = markdown.split('\n');
+  const tree = parseMarkdown(markdown);
+  const headings = tree.children.filter((node): node is Heading => node.type === 'heading');
+  const depth = Math.min(6, headings.length > 0 ? Math.max(...headings.map(heading => heading.depth)) + 1 : 2);
+  const firstContentLine = lines.findIndex(line => line.trim());
+  // Lines of code blocks, by index; a bold-looking line there is code
+  const codeLines = new Set<number>();
+  codeNodes(tree).forEach(({ type, position }) => {
+    if (type !== 'code') return;
+    for (let line = position!.start.line - 1; line < position!.end.line; line++) codeLines.add(line);
+  });
+
+  let promoted = 0;
+  const result = lines.map((line, index) => {
+    const trimmed = line.trim();
+    if (codeLines.has(index) || !trimmed || /^\s/.test(line)) return line;
+
+    const isolated = !lines[index - 1]?.trim() && (index + 1 >= lines.length || !lines[index + 1]?.trim() || !BOLD_LINE.test(lines[index + 1].trim()));
+    const bold = trimmed.match(BOLD_LINE);
+    const label = trimmed.replace(/:$/, '');
+    let text: string | null = null;
+    if (bold && isolated && bold[2].length <= 100 && !/[.!?]$/.test(bold[2].trim())) {
+      text = bold[2].trim().replace(/:$/, '');
+    } else if (SOURCES_LABEL.test(label) && !lines[index - 1]?.trim()) {
+      text = label;
+    }
+    if (!text) return line;
+
+    promoted++;
+    // A bold first line in a report without headings is its title
+    const level = headings.length === 0 && index === firstContentLine && !SOURCES_LABEL.test(text) ? 1 : depth;
+    return `${'#'.repeat(level)} ${text}`;
+  });
+
+  return { markdown: result.join('\n'), promoted };
+};
+
+// Moves sections headed "Reasoning", "Thinking process" and the like, with their subsections, out of the report
+const extractReasoningSections = (markdown: string, reasoning: string[]): string => {
+  const lines = markdown.split('\n');
+  const headings = parseMarkdown(markdown).children.filter((node): node is Heading => node.type === 'heading' && !!node.position);
+  const removed = new Set<number>();
+
+  headings.forEach((heading, index) => {
+    if (!REASONING_HEADING.test(toString(heading).trim().replace(/:$/, ''))) return;
+    const start = heading.position!.start.line - 1;
+    if (removed.has(start)) return;
+    const next = headings.slice(index + 1).find(candidate => candidate.depth <= heading.depth);
+    const end = next ? next.position!.start.line - 1 : lines.length;
+    reasoning.push(lines.slice(start + 1, end).join('\n').trim());
+    for (let line = start; line < end; line++) removed.add(line);
+  });
+
+  return lines.filter((_, index) => !removed.has(index)).join('\n');
+};
+
+// Recognizes which tool wrote the report and rewrites it into the Markdown the visualizer expects.
+// Reasoning is only taken out of reports recognized as a tool's, since an ordinary report can have
+// a "Research process" section or a line that reads like a status.
+export const normalizeResearchReport = (input: string): NormalizedReport => {
+  const { text, restore } = setCodeAside(input);
+  const format = detectResearchFormat(text);
+  const changes: string[] = [];
+  const reasoning: string[] = [];
+  const isToolReport = format !== GENERIC_FORMAT;
+
+  let rewritten = format.normalize ? format.normalize(text) : text;
+  if (rewritten !== text) changes.push(`Converted ${format.label} citations`);
+  if (isToolReport) rewritten = extractInlineReasoning(rewritten, reasoning);
+  let markdown = restore(rewritten);
+
+  // A report of the user's own that already has headings is laid out the way they meant it
+  const hasHeadings = parseMarkdown(markdown).children.some(node => node.type === 'heading');
+  if (isToolReport || !hasHeadings) {
+    const promotion = promotePseudoHeadings(markdown);
+    markdown = promotion.markdown;
+    if (promotion.promoted > 0) {
+      changes.push(`Turned ${promotion.promoted} bold line${promotion.promoted === 1 ? '' : 's'} into headings`);
+    }
+  }
+  if (isToolReport) markdown = extractReasoningSections(markdown, reasoning);
+
+  const reasoningText = reasoning.map(restore).filter(Boolean).join('\n\n');
+  if (reasoningText) changes.push('Moved the reasoning out of the findings');
+
+  return {
+    // Untouched reports are returned as they were, whitespace and all
+    markdown: changes.length > 0 ? markdown.replace(/\n{3,}/g, '\n\n').trim() + '\n' : input,
+    format,
+    ...(reasoningText && { reasoning: reasoningText }),
+    changes,
+  };
+};
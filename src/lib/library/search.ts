@@ -0,0 +1,39 @@
+// Firestore can't search text, so each report stores the distinct words of its title and content
+// and a search asks for reports whose word list contains the query's words
+
+// Keeps a long report's document well under Firestore's per-document index entry limit
+export const MAX_SEARCH_TERMS = 3000;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'which', 'will', 'with',
+]);
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+// Anything but letters, marks and digits of any script; vowel signs are marks, and part of words in
+// many scripts. Built at runtime since the compile target predates the u flag.
+const WORD_SEPARATOR = new RegExp('[^\\p{L}\\p{M}\\p{N}]+', 'u');
+
+export const tokenize = (text: string): string[] =>
+  text
+    .replace(URL_PATTERN, ' ')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .split(WORD_SEPARATOR)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word));
+
+// Title words first so they survive the cap on very long reports
+export const searchTermsFor = (title: string, content: string): string[] =>
+  Array.from(new Set([...tokenize(title), ...tokenize(content)])).slice(0, MAX_SEARCH_TERMS);
+
+// Distinct query words, longest first: the longest is usually the most selective one to query on
+export const queryTerms = (search: string): string[] =>
+  Array.from(new Set(tokenize(search))).sort((a, b) => b.length - a.length);
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(normalizeTag).filter(Boolean)));
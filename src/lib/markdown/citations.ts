@@ -0,0 +1,207 @@
+import { toString } from 'mdast-util-to-string';
+import type { Heading, Nodes, Root, RootContent } from 'mdast';
+import { AnimationSection, Source } from '@/lib/types';
+import { parseMarkdown } from './sections';
+
+// Headings of the reference lists deep-research tools append to their reports
+const REFERENCE_HEADING = /^(?:references?|sources?|bibliography|citations?|works cited|notes|footnotes)$/i;
+const URL_PATTERN = /https?:\/\/[^\s<>)\]]+[^\s<>)\].,;:'"]/;
+// [1], [2, 3] and [4-6] in running text that no reference definition turned into a link
+const NUMBERED_CITATION = /\[(\d{1,3}(?:\s*[,–-]\s*\d{1,3})*)\]/g;
+// "[1] ...", "[^note]: ..." or "1. ..." at the start of a reference entry written as plain text
+const ENTRY_MARKER = /^\s*(?:\[\^?([A-Za-z0-9][\w-]*)\]:?|(\d{1,3})[.):])\s*(?=\S)/;
+
+interface SourceEntry {
+  label?: string;
+  title?: string;
+  url?: string;
+  order: number;
+}
+
+const normalizeLabel = (label: string): string => label.replace(/^\^/, '').trim().toLowerCase();
+
+const hostname = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+const firstUrl = (node: Nodes): string | undefined => {
+  if (node.type === 'link') return node.url;
+  if ('children' in node) {
+    for (const child of node.children) {
+      const url = firstUrl(child as Nodes);
+      if (url) return url;
+    }
+  }
+  return toString(node).match(URL_PATTERN)?.[0];
+};
+
+// Title text from a reference entry, minus its marker and any bare URL
+const entryTitle = (text: string, url?: string): string =>
+  text
+    .replace(ENTRY_MARKER, '')
+    .replace(url ?? URL_PATTERN, '')
+    .replace(URL_PATTERN, '')
+    .replace(/\s*[-–—:,.]*\s*(?:available at|retrieved from|accessed)?\s*[-–—:,.]*\s*$/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const expandNumbers = (list: string): string[] =>
+  list.split(/\s*,\s*/).flatMap(part => {
+    const [from, to] = part.split(/\s*[–-]\s*/).map(Number);
+    if (!to || to < from || to - from > 20) return [String(from)];
+    return Array.from({ length: to - from + 1 }, (_, offset) => String(from + offset));
+  });
+
+const isReferenceHeading = (node: Heading): boolean => REFERENCE_HEADING.test(toString(node).trim());
+
+// Top-level nodes under a references heading, up to the next heading of the same or higher level
+const referenceBlocks = (tree: Root): RootContent[] => {
+  const blocks: RootContent[] = [];
+  let depth: number | null = null;
+  tree.children.forEach(node => {
+    if (node.type === 'heading') {
+      if (isReferenceHeading(node)) {
+        depth = node.depth;
+        return;
+      }
+      if (depth !== null && node.depth <= depth) depth = null;
+    }
+    if (depth !== null) blocks.push(node);
+  });
+  return blocks;
+};
+
+// Parse inline links, numbered footnotes and reference lists into sources, noting which sections cite each one
+export const extractSources = (markdown: string, sections: AnimationSection[]): Source[] => {
+  const tree = parseMarkdown(markdown);
+  const entries: SourceEntry[] = [];
+  const byLabel = new Map<string, SourceEntry>();
+  const byUrl = new Map<string, SourceEntry>();
+
+  const addEntry = (entry: Omit<SourceEntry, 'order'>): SourceEntry => {
+    const existing = (entry.label && byLabel.get(normalizeLabel(entry.label))) || (entry.url && byUrl.get(entry.url));
+    if (existing) {
+      existing.label ??= entry.label;
+      existing.url ??= entry.url;
+      if (!existing.title || (existing.url && existing.title === hostname(existing.url))) {
+        existing.title = entry.title || existing.title;
+      }
+      if (existing.label) byLabel.set(normalizeLabel(existing.label), existing);
+      if (existing.url) byUrl.set(existing.url, existing);
+      return existing;
+    }
+    const created = { ...entry, order: entries.length };
+    entries.push(created);
+    if (created.label) byLabel.set(normalizeLabel(created.label), created);
+    if (created.url) byUrl.set(created.url, created);
+    return created;
+  };
+
+  // Reference definitions ([1]: https://...) and footnote definitions ([^1]: text)
+  const collectDefinitions = (node: Nodes) => {
+    if (node.type === 'definition') {
+      addEntry({ label: node.label ?? node.identifier, url: node.url, title: node.title ?? undefined });
+      return;
+    }
+    if (node.type === 'footnoteDefinition') {
+      const url = firstUrl(node);
+      addEntry({ label: node.label ?? node.identifier, url, title: entryTitle(toString(node), url) || undefined });
+      return;
+    }
+    if ('children' in node) node.children.forEach(child => collectDefinitions(child as Nodes));
+  };
+  collectDefinitions(tree);
+
+  // Entries in a "References" or "Sources" list
+  const references = referenceBlocks(tree);
+  references.forEach(block => {
+    const items = block.type === 'list'
+      ? block.children.map((item, index) => ({ node: item as Nodes, number: block.ordered ? (block.start ?? 1) + index : undefined }))
+      : block.type === 'paragraph'
+        ? toString(block).split('\n').map(line => ({ node: { type: 'text', value: line } as Nodes, number: undefined }))
+        : [];
+
+    items.forEach(({ node, number }) => {
+      const text = toString(node).trim();
+      if (!text) return;
+      const url = firstUrl(node);
+      const marker = text.match(ENTRY_MARKER);
+      const label = marker?.[1] ?? marker?.[2] ?? (number !== undefined ? String(number) : undefined);
+      addEntry({ label, url, title: entryTitle(text, url) || undefined });
+    });
+  });
+
+  // Walk each section's body for footnote references, [n] markers and links
+  const citingSections = new Map<SourceEntry, Set<number>>();
+  const cite = (entry: SourceEntry | undefined, sectionIndex: number) => {
+    if (!entry) return;
+    if (!citingSections.has(entry)) citingSections.set(entry, new Set());
+    citingSections.get(entry)!.add(sectionIndex);
+  };
+
+  const referenceNodes = new Set<RootContent>(references);
+  const sectionIndexAt = (line: number) =>
+    sections.findIndex(section => line >= section.lineIndex && line < section.endLine);
+
+  const collectCitations = (node: Nodes, sectionIndex: number) => {
+    switch (node.type) {
+      case 'definition':
+      case 'footnoteDefinition':
+        return;
+      case 'footnoteReference':
+      case 'linkReference':
+        cite(byLabel.get(normalizeLabel(node.label ?? node.identifier)), sectionIndex);
+        break;
+      case 'link':
+        if (/^https?:/.test(node.url)) {
+          cite(byUrl.get(node.url) ?? addEntry({ url: node.url, title: toString(node).trim() || hostname(node.url) }), sectionIndex);
+        }
+        return;
+      case 'text':
+        Array.from(node.value.matchAll(NUMBERED_CITATION))
+          .flatMap(match => expandNumbers(match[1]))
+          .forEach(label => cite(byLabel.get(label), sectionIndex));
+        return;
+    }
+    if ('children' in node) node.children.forEach(child => collectCitations(child as Nodes, sectionIndex));
+  };
+
+  tree.children.forEach(node => {
+    if (referenceNodes.has(node) || !node.position) return;
+    const sectionIndex = sectionIndexAt(node.position.start.line - 1);
+    if (sectionIndex === -1 || REFERENCE_HEADING.test(sections[sectionIndex].heading)) return;
+    collectCitations(node, sectionIndex);
+  });
+
+  // Numbered sources in citation order first, then plain links in the order they appear
+  const numbered = entries.filter(entry => entry.label).sort((a, b) => {
+    const [numberA, numberB] = [Number(a.label), Number(b.label)];
+    if (!Number.isNaN(numberA) && !Number.isNaN(numberB)) return numberA - numberB;
+    return a.order - b.order;
+  });
+  const linked = entries.filter(entry => !entry.label);
+
+  return [...numbered, ...linked].map((entry, index) => {
+    const source: Source = {
+      id: `S${index + 1}`,
+      title: entry.title || (entry.url ? hostname(entry.url) : `Source ${entry.label}`),
+      sectionIndices: Array.from(citingSections.get(entry) ?? []).sort((a, b) => a - b),
+    };
+    // Firestore rejects undefined fields, so only set the optional ones that exist
+    if (entry.label) source.label = entry.label;
+    if (entry.url) source.url = entry.url;
+    return source;
+  });
+};
+
+export const sourcesForSection = (sources: Source[], sectionIndex: number): Source[] =>
+  sources.filter(source => source.sectionIndices.includes(sectionIndex));
+
+export const sourceElementId = (source: Source) => `source-${source.id}`;
+
+// How a source is referred to in badges and lists: its citation number, or an arrow for a plain link
+export const sourceMarker = (source: Source) => (source.label ? `[${source.label}]` : '↗');
@@ -0,0 +1,27 @@
+import type { Root, RootContent } from 'mdast';
+import { AnimationSection } from '@/lib/types';
+
+export const sectionElementId = (index: number) => `section-${index}`;
+
+// Remark plugin that gives each section heading an anchor id and inserts a marker
+// element after it, which the renderer swaps for the section's diagram
+export const remarkSectionDiagrams = ({ sections }: { sections: AnimationSection[] }) => (tree: Root) => {
+  const sectionIndexByLine = new Map(sections.map((section, index) => [section.lineIndex, index]));
+
+  tree.children = tree.children.flatMap((node) => {
+    if (node.type !== 'heading' || !node.position) return [node];
+
+    const index = sectionIndexByLine.get(node.position.start.line - 1);
+    if (index === undefined) return [node];
+
+    node.data = { ...node.data, hProperties: { ...node.data?.hProperties, id: sectionElementId(index) } };
+
+    // Unknown mdast nodes become whatever hName says when converted to HTML
+    const marker = {
+      type: 'sectionDiagram',
+      data: { hName: 'div', hProperties: { dataSectionIndex: index } }
+    } as unknown as RootContent;
+
+    return [node, marker];
+  });
+};
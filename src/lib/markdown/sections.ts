@@ -0,0 +1,79 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkFrontmatter from 'remark-frontmatter';
+import { toString } from 'mdast-util-to-string';
+import type { Heading, Root } from 'mdast';
+import { AnimationSection } from '@/lib/types';
+
+const processor = unified().use(remarkParse).use(remarkGfm).use(remarkFrontmatter, ['yaml', 'toml']);
+
+export const parseMarkdown = (markdown: string): Root => processor.parse(markdown);
+
+// Front matter is skipped for sectioning but can still supply the report title
+export const getFrontMatterTitle = (tree: Root): string | null => {
+  // TOML (+++) front matter is parsed too but has no mdast type of its own
+  const frontMatter = tree.children.find(node => node.type === 'yaml' || (node.type as string) === 'toml');
+  if (!frontMatter || !('value' in frontMatter)) return null;
+  const match = frontMatter.value.match(/^title\s*[:=]\s*["']?(.+?)["']?\s*$/m);
+  return match ? match[1] : null;
+};
+
+// Only top-level headings start sections, so headings quoted or nested in lists stay in the body
+const getHeadings = (tree: Root): Heading[] =>
+  tree.children.filter((node): node is Heading => node.type === 'heading' && !!node.position);
+
+export const findSections = (markdown: string): AnimationSection[] => {
+  const lines = markdown.split('\n');
+  const headings = getHeadings(parseMarkdown(markdown));
+  const sections: AnimationSection[] = [];
+
+  headings.forEach((heading, index) => {
+    // mdast positions are 1-based; section line numbers are 0-based like lineIndex always was
+    const startLine = heading.position!.start.line - 1;
+    const bodyStartLine = heading.position!.end.line;
+    const endLine = index + 1 < headings.length ? headings[index + 1].position!.start.line - 1 : lines.length;
+    const content = lines.slice(bodyStartLine, endLine).join('\n').trim();
+
+    // Only keep headings that have text underneath them
+    if (!content) return;
+
+    sections.push({
+      heading: toString(heading).trim(),
+      depth: heading.depth,
+      lineIndex: startLine,
+      bodyStartLine,
+      endLine,
+      content
+    });
+  });
+
+  return sections;
+};
+
+export const findDocumentTitle = (markdown: string): string | null => {
+  const tree = parseMarkdown(markdown);
+  const frontMatterTitle = getFrontMatterTitle(tree);
+  if (frontMatterTitle) return frontMatterTitle;
+
+  const title = getHeadings(tree).find(heading => heading.depth === 1);
+  return title ? toString(title).trim() : null;
+};
+
+// Rebuild sections from the report content, carrying per-section state over from saved ones.
+// Reports saved before sections had depth and line ranges are upgraded this way on load.
+export const restoreSections = (markdown: string, saved: AnimationSection[]): AnimationSection[] => {
+  const remaining = [...saved];
+
+  return findSections(markdown).map((section) => {
+    const matchIndex = remaining.findIndex(candidate => candidate.heading === section.heading);
+    if (matchIndex === -1) return section;
+    const [match] = remaining.splice(matchIndex, 1);
+    const { customDiagram, chartMapping } = match;
+    return {
+      ...section,
+      ...(customDiagram && { customDiagram }),
+      ...(chartMapping && { chartMapping })
+    };
+  });
+};
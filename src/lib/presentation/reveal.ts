@@ -0,0 +1,67 @@
+// Groups a rendered Mermaid diagram's parts into the order they're revealed in when presenting: one
+// node per step, with each edge and its label arriving alongside the later of the two nodes it joins.
+// Edges are matched to nodes by where they start and end on screen, which works the same for
+// flowcharts, state, class and ER diagrams. Diagrams without nodes, like pies and sequences, get no steps.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const NODE_SELECTOR = 'g.node';
+const EDGE_SELECTOR = '.edgePaths path, path.flowchart-link, path.transition, path.relation';
+const EDGE_LABEL_SELECTOR = '.edgeLabels .edgeLabel';
+
+const centerOf = (element: Element): Point => {
+  const box = element.getBoundingClientRect();
+  return { x: box.left + box.width / 2, y: box.top + box.height / 2 };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const nearest = <T>(point: Point, candidates: { item: T; center: Point }[]): T =>
+  candidates.reduce((best, candidate) =>
+    distance(point, candidate.center) < distance(point, best.center) ? candidate : best).item;
+
+// A point along the path, in screen coordinates like getBoundingClientRect
+const pointOnPath = (path: SVGPathElement, fraction: number): Point | null => {
+  const matrix = path.getScreenCTM();
+  if (!matrix || typeof path.getTotalLength !== 'function') return null;
+  const local = path.getPointAtLength(path.getTotalLength() * fraction);
+  const screen = new DOMPoint(local.x, local.y).matrixTransform(matrix);
+  return { x: screen.x, y: screen.y };
+};
+
+// Must be called while the SVG is laid out on the page
+export const revealSteps = (svg: SVGSVGElement): Element[][] => {
+  const nodes = Array.from(svg.querySelectorAll(NODE_SELECTOR)).map(element => ({ element, center: centerOf(element) }));
+  if (nodes.length < 2) return [];
+
+  // Reading order follows the diagram's direction: top to bottom, or left to right when it's wider than tall
+  const xs = nodes.map(node => node.center.x);
+  const ys = nodes.map(node => node.center.y);
+  const horizontal = Math.max(...xs) - Math.min(...xs) > Math.max(...ys) - Math.min(...ys);
+  const [primary, secondary] = horizontal ? (['x', 'y'] as const) : (['y', 'x'] as const);
+  nodes.sort((a, b) => a.center[primary] - b.center[primary] || a.center[secondary] - b.center[secondary]);
+
+  const steps: Element[][] = nodes.map(node => [node.element]);
+  const nodeSteps = nodes.map((node, step) => ({ item: step, center: node.center }));
+
+  const edges = Array.from(new Set(Array.from(svg.querySelectorAll<SVGPathElement>(EDGE_SELECTOR)))).flatMap(path => {
+    const start = pointOnPath(path, 0);
+    const middle = pointOnPath(path, 0.5);
+    const end = pointOnPath(path, 1);
+    if (!start || !middle || !end) return [];
+    const step = Math.max(nearest(start, nodeSteps), nearest(end, nodeSteps));
+    steps[step].push(path);
+    return [{ item: step, center: middle }];
+  });
+
+  if (edges.length > 0) {
+    svg.querySelectorAll(EDGE_LABEL_SELECTOR).forEach(label => {
+      steps[nearest(centerOf(label), edges)].push(label);
+    });
+  }
+
+  return steps;
+};
@@ -0,0 +1,58 @@
+import { toString } from 'mdast-util-to-string';
+import type { RootContent } from 'mdast';
+import { AnimationSection, Slide } from '@/lib/types';
+import { parseMarkdown } from '@/lib/markdown/sections';
+
+const MAX_KEY_POINTS = 5;
+const MAX_KEY_POINT_LENGTH = 160;
+
+// Up to the first full stop, question or exclamation mark that ends a sentence
+const firstSentence = (text: string) => text.match(/^[\s\S]*?[.!?](?=\s+[A-Z0-9"'(]|$)/)?.[0] ?? text;
+
+const shorten = (text: string) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= MAX_KEY_POINT_LENGTH) return clean;
+  const cut = clean.slice(0, MAX_KEY_POINT_LENGTH);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(' '), MAX_KEY_POINT_LENGTH / 2))}…`;
+};
+
+// The lead sentence of each paragraph and list item, in reading order
+const keyPointsFor = (nodes: RootContent[]): string[] =>
+  nodes.flatMap((node): string[] => {
+    switch (node.type) {
+      case 'paragraph':
+      case 'blockquote':
+        return [shorten(firstSentence(toString(node)))];
+      case 'list':
+        return node.children.map(item => shorten(firstSentence(toString(item.children[0] ?? item))));
+      default:
+        // Tables, code and sub-headings don't summarize well as bullets
+        return [];
+    }
+  }).filter(Boolean);
+
+// Plain text of the section body, a paragraph per block, for reading from while presenting
+const notesFor = (nodes: RootContent[]): string =>
+  nodes
+    .map(node => {
+      if (node.type === 'list') return node.children.map(item => `• ${toString(item).replace(/\s+/g, ' ')}`).join('\n');
+      if (node.type === 'table') return node.children.map(row => row.children.map(cell => toString(cell)).join(' | ')).join('\n');
+      if (node.type === 'code' || node.type === 'html' || node.type === 'definition') return '';
+      return toString(node).replace(/\s+/g, ' ');
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+// A slide for every section, with the diagram it was last rendered with
+export const buildSlides = (sections: AnimationSection[], diagramCodes: Map<number, string>): Slide[] =>
+  sections.map((section, index) => {
+    const { children } = parseMarkdown(section.content);
+    return {
+      sectionIndex: index,
+      heading: section.heading,
+      depth: section.depth,
+      keyPoints: keyPointsFor(children).slice(0, MAX_KEY_POINTS),
+      notes: notesFor(children),
+      diagramCode: diagramCodes.get(index),
+    };
+  });
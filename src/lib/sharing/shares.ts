@@ -0,0 +1,25 @@
+import { ReportShare } from '@/lib/types';
+
+// 24 random bytes: far too many tokens to guess, and short enough for a URL
+const TOKEN_BYTES = 24;
+
+export const SHARE_EXPIRY_OPTIONS = [
+  { label: 'Never expires', days: 0 },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+];
+
+// URL-safe base64 of cryptographically random bytes
+export const createShareToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+export const isShareActive = (share: ReportShare, now = new Date()): boolean =>
+  !share.revokedAt && (!share.expiresAt || share.expiresAt > now);
+
+export const shareUrl = (token: string, origin = window.location.origin) => `${origin}/share/${token}`;
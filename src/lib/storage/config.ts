@@ -0,0 +1,15 @@
+// Where reports are kept: Firestore and Firebase Storage by default, or with 'local' the browser's
+// IndexedDB, which needs no Firebase project, no network and no sign-in
+export const STORAGE_PROVIDER: 'firebase' | 'local' =
+  process.env.NEXT_PUBLIC_STORAGE_PROVIDER === 'local' ? 'local' : 'firebase';
+
+export const isLocalStorage = STORAGE_PROVIDER === 'local';
+
+// Without sign-in everything belongs to this one user
+export const LOCAL_USER = { uid: 'local', email: 'Local user', displayName: 'Local user' };
+
+// Share links are opened on the server, which can't read a browser's local store
+export const SHARING_AVAILABLE = !isLocalStorage;
+
+// Collaborators need a store they can all reach, and a sign-in to tell them apart
+export const COLLABORATION_AVAILABLE = !isLocalStorage;
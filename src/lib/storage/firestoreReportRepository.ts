@@ -0,0 +1,39 @@
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import {
+  createShare,
+  deleteReport,
+  getLibrary,
+  getReport,
+  getReportShares,
+  getReportVersions,
+  getShare,
+  getSharedReports,
+  queryReports,
+  revokeShare,
+  saveReport,
+  updateCollaborators,
+  updateReport,
+  updateReportLibraryInfo,
+  uploadFile,
+} from '@/lib/firebase/firebaseUtils';
+import { ReportRepository } from './reportRepository';
+
+// Reports in Firestore and uploads in Firebase Storage
+export const firestoreReportRepository: ReportRepository = {
+  saveReport: async report => (await saveReport(report)).id,
+  updateReport,
+  getReport,
+  queryReports: (userId, filters, cursor, pageSize) =>
+    queryReports(userId, filters, (cursor ?? null) as QueryDocumentSnapshot | null, pageSize),
+  getSharedReports,
+  updateCollaborators,
+  deleteReport,
+  getReportVersions,
+  getLibrary,
+  updateReportLibraryInfo,
+  createShare,
+  getShare,
+  getReportShares,
+  revokeShare,
+  uploadAsset: uploadFile,
+};
@@ -0,0 +1,107 @@
+// The browser's IndexedDB database, holding drafts and offline saves and, with the local storage
+// provider, the reports themselves
+
+import { searchTermsFor } from '@/lib/library/search';
+
+const DATABASE_NAME = 'research-visualizer';
+const DATABASE_VERSION = 3;
+
+export const STORES = {
+  // One draft per user, keyed by userId
+  drafts: 'drafts',
+  // Offline saves, keyed by report id or the draft's local id
+  pendingSaves: 'pendingSaves',
+  // Reports and their versions, keyed by id and indexed by owner and report
+  reports: 'reports',
+  versions: 'versions',
+  // Uploaded files, keyed by path
+  assets: 'assets',
+} as const;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.drafts, { keyPath: 'userId' });
+    db.createObjectStore(STORES.pendingSaves, { keyPath: 'key' }).createIndex('userId', 'userId');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.reports, { keyPath: 'id' }).createIndex('userId', 'userId');
+    db.createObjectStore(STORES.versions, { keyPath: 'id' }).createIndex('reportId', 'reportId');
+    db.createObjectStore(STORES.assets, { keyPath: 'path' });
+  }
+  if (oldVersion === 2) {
+    // Search words now include every script, so reports are indexed again
+    transaction.objectStore(STORES.reports).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, searchTerms: searchTermsFor(cursor.value.title, cursor.value.content) });
+      cursor.continue();
+    };
+  }
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+      request.onsuccess = () => {
+        // Let a newer version of the app in another tab upgrade the database
+        request.result.onversionchange = () => {
+          request.result.close();
+          database = null;
+        };
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Browser storage is blocked by another tab'));
+    }).catch(error => {
+      // Opening again later may work, such as once the blocking tab is closed
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+};
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs the work in one transaction and resolves with its result once the transaction has committed.
+// The work must only await requests made in the transaction, or it commits early.
+export const transact = async <T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    let result: T;
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Browser storage transaction aborted'));
+    work(transaction).then(
+      value => {
+        result = value;
+      },
+      error => {
+        // Rolls back anything the work wrote before failing
+        try {
+          transaction.abort();
+        } catch {
+          // Already committed or aborted
+        }
+        reject(error);
+      }
+    );
+  });
+};
+
+// One request in its own transaction
+export const run = <T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) =>
+  transact(storeName, mode, transaction => requestResult(operation(transaction.objectStore(storeName))));
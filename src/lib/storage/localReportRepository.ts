@@ -0,0 +1,189 @@
+import { Report, ReportContent, ReportSort, ReportVersion } from '@/lib/types';
+import { queryTerms, searchTermsFor } from '@/lib/library/search';
+import { REPORTS_PAGE_SIZE, ReportRepository, reportConflictError, reportNotFoundError } from './reportRepository';
+import { requestResult, run, STORES, transact } from './localDatabase';
+
+// Reports as stored, with the same library fields Firestore keeps for searching and sorting
+interface StoredReport extends Report {
+  id: string;
+  searchTerms: string[];
+}
+
+interface StoredVersion extends ReportVersion {
+  id: string;
+  reportId: string;
+}
+
+// Pages are read from the sorted list of matches, so the cursor is where the next one starts
+interface LocalCursor {
+  offset: number;
+}
+
+const SORTS: Record<ReportSort, (a: StoredReport, b: StoredReport) => number> = {
+  updatedAt: (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+  createdAt: (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  title: (a, b) => a.title.localeCompare(b.title),
+  diagramCount: (a, b) => (b.diagramCount ?? 0) - (a.diagramCount ?? 0),
+};
+
+const libraryFields = (content: ReportContent) => ({
+  searchTerms: searchTermsFor(content.title, content.content),
+  diagramCount: content.animations.length,
+});
+
+const versionRecord = (reportId: string, userId: string, version: number, content: ReportContent, restoredFrom?: number): StoredVersion => ({
+  id: crypto.randomUUID(),
+  reportId,
+  version,
+  userId,
+  title: content.title,
+  content: content.content,
+  animations: content.animations,
+  ...(content.sources && { sources: content.sources }),
+  ...(content.diagramCodes && { diagramCodes: content.diagramCodes }),
+  ...(restoredFrom !== undefined && { restoredFrom }),
+  createdAt: new Date(),
+});
+
+const toReport = ({ searchTerms: _searchTerms, ...report }: StoredReport): Report => ({ ...report, tags: report.tags ?? [] });
+
+const toVersion = ({ reportId: _reportId, ...version }: StoredVersion): ReportVersion => version;
+
+const reportsOf = (userId: string) =>
+  run<StoredReport[]>(STORES.reports, 'readonly', store => store.index('userId').getAll(userId));
+
+const versionKeysOf = (transaction: IDBTransaction, reportId: string) =>
+  requestResult(transaction.objectStore(STORES.versions).index('reportId').getAllKeys(reportId));
+
+// Unlike an object URL, a data URL still works after the page is closed
+const toDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const sharingUnavailable = () =>
+  Promise.reject(new Error('Share links need Firebase storage, since the server opens them'));
+
+const collaborationUnavailable = () =>
+  Promise.reject(new Error('Collaboration needs Firebase storage, since everyone has to reach the same reports'));
+
+// Reports kept in this browser's IndexedDB, for running without Firebase. Nothing leaves the
+// browser, so share links and collaborators aren't available.
+export const localReportRepository: ReportRepository = {
+  saveReport: async report => {
+    const id = crypto.randomUUID();
+    await transact([STORES.reports, STORES.versions], 'readwrite', async transaction => {
+      transaction.objectStore(STORES.reports).add({ ...report, ...libraryFields(report), id, version: 1 });
+      transaction.objectStore(STORES.versions).add(versionRecord(id, report.userId, 1, report));
+    });
+    return id;
+  },
+
+  updateReport: (reportId, content, { restoredFrom, expectedUpdatedAt } = {}) =>
+    transact([STORES.reports, STORES.versions], 'readwrite', async transaction => {
+      const reports = transaction.objectStore(STORES.reports);
+      const current = await requestResult<StoredReport | undefined>(reports.get(reportId));
+      if (!current) {
+        throw reportNotFoundError();
+      }
+      if (expectedUpdatedAt && current.updatedAt.getTime() > expectedUpdatedAt.getTime()) {
+        throw reportConflictError();
+      }
+
+      const version = (current.version ?? 1) + 1;
+      const updatedAt = new Date();
+      // Optional fields left out of the content are kept, as in Firestore
+      reports.put({
+        ...current,
+        title: content.title,
+        content: content.content,
+        animations: content.animations,
+        ...(content.sources && { sources: content.sources }),
+        ...(content.researchFormat && { researchFormat: content.researchFormat }),
+        ...(content.reasoning && { reasoning: content.reasoning }),
+        ...libraryFields(content),
+        version,
+        updatedAt,
+      });
+      transaction.objectStore(STORES.versions).add(versionRecord(reportId, current.userId, version, content, restoredFrom));
+      return { version, updatedAt };
+    }),
+
+  getReport: async reportId => {
+    const report = await run<StoredReport | undefined>(STORES.reports, 'readonly', store => store.get(reportId));
+    if (!report) {
+      throw reportNotFoundError();
+    }
+    return toReport(report);
+  },
+
+  queryReports: async (userId, filters, cursor, pageSize = REPORTS_PAGE_SIZE) => {
+    const terms = filters.search ? queryTerms(filters.search) : [];
+    const since = filters.updatedWithinDays ? new Date(Date.now() - filters.updatedWithinDays * 24 * 60 * 60 * 1000) : null;
+    const matches = (await reportsOf(userId))
+      .filter(report =>
+        terms.every(term => report.searchTerms.includes(term)) &&
+        (!filters.tag || report.tags?.includes(filters.tag)) &&
+        (!filters.folder || report.folder === filters.folder) &&
+        (!since || report.updatedAt >= since) &&
+        (!filters.minDiagrams || (report.diagramCount ?? 0) >= filters.minDiagrams)
+      )
+      .sort(SORTS[filters.sort]);
+
+    const offset = (cursor as LocalCursor | null)?.offset ?? 0;
+    const end = offset + pageSize;
+    return {
+      reports: matches.slice(offset, end).map(toReport),
+      cursor: end < matches.length ? { offset: end } : null,
+    };
+  },
+
+  getSharedReports: async () => [],
+  updateCollaborators: collaborationUnavailable,
+
+  deleteReport: async reportId => {
+    await transact([STORES.reports, STORES.versions], 'readwrite', async transaction => {
+      const versions = transaction.objectStore(STORES.versions);
+      (await versionKeysOf(transaction, reportId)).forEach(key => versions.delete(key));
+      transaction.objectStore(STORES.reports).delete(reportId);
+    });
+  },
+
+  getReportVersions: async reportId => {
+    const versions = await run<StoredVersion[]>(STORES.versions, 'readonly', store => store.index('reportId').getAll(reportId));
+    return versions.sort((a, b) => b.version - a.version).map(toVersion);
+  },
+
+  // Read from the reports themselves, so it can't fall out of step with them
+  getLibrary: async userId => {
+    const reports = await reportsOf(userId);
+    const tags = new Set(reports.flatMap(report => report.tags ?? []));
+    const folders = new Set(reports.flatMap(report => (report.folder ? [report.folder] : [])));
+    return { tags: Array.from(tags).sort(), folders: Array.from(folders).sort() };
+  },
+
+  updateReportLibraryInfo: async (reportId, _userId, { tags, folder }) => {
+    await transact(STORES.reports, 'readwrite', async transaction => {
+      const reports = transaction.objectStore(STORES.reports);
+      const current = await requestResult<StoredReport | undefined>(reports.get(reportId));
+      if (!current) {
+        throw reportNotFoundError();
+      }
+      const { folder: _previous, ...rest } = current;
+      reports.put({ ...rest, tags, ...(folder && { folder }) });
+    });
+  },
+
+  createShare: sharingUnavailable,
+  getShare: async () => null,
+  getReportShares: async () => [],
+  revokeShare: sharingUnavailable,
+
+  uploadAsset: async (file, path) => {
+    await run(STORES.assets, 'readwrite', store => store.put({ path, file }));
+    return toDataUrl(file);
+  },
+};
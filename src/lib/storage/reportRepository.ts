@@ -0,0 +1,94 @@
+import { CollaboratorRole, Library, Report, ReportContent, ReportFilters, ReportShare, ReportVersion } from '@/lib/types';
+import { STORAGE_PROVIDER } from './config';
+
+export const REPORTS_PAGE_SIZE = 20;
+
+// Error code for a save that would overwrite a newer update made elsewhere
+export const REPORT_CONFLICT = 'report/conflict';
+
+export const reportConflictError = () =>
+  Object.assign(new Error('The report was changed elsewhere since it was loaded'), { code: REPORT_CONFLICT });
+
+export const isReportConflict = (error: unknown) => (error as { code?: string } | null)?.code === REPORT_CONFLICT;
+
+// The same code Firestore gives a missing document, so either can be told apart from other failures
+export const REPORT_NOT_FOUND = 'not-found';
+
+export const reportNotFoundError = () => Object.assign(new Error('Report not found'), { code: REPORT_NOT_FOUND });
+
+export interface UpdateReportOptions {
+  // The version being restored, when the content is an earlier version saved again
+  restoredFrom?: number;
+  // When the report was last updated as far as the caller knows; the save fails with
+  // REPORT_CONFLICT instead of overwriting anything saved after that
+  expectedUpdatedAt?: Date;
+}
+
+// Where the next page starts; only the repository that returned it can read it
+export type ReportCursor = object;
+
+export interface ReportPage {
+  reports: Report[];
+  // Pass back to queryReports for the next page; null once there are no more reports
+  cursor: ReportCursor | null;
+}
+
+// Everything the app stores. Every save of a report records a version, and active share links
+// are kept up to date with the latest save.
+export interface ReportRepository {
+  // Creates the report with its first version and returns its id. The timestamps are stored as
+  // given, so the caller knows the exact updatedAt later saves are checked against.
+  saveReport(report: Omit<Report, 'id'>): Promise<string>;
+  updateReport(
+    reportId: string,
+    content: ReportContent,
+    options?: UpdateReportOptions
+  ): Promise<{ version: number; updatedAt: Date }>;
+  getReport(reportId: string): Promise<Report>;
+  // One page of a user's reports, filtered and sorted
+  queryReports(userId: string, filters: ReportFilters, cursor?: ReportCursor | null, pageSize?: number): Promise<ReportPage>;
+  // Reports the user was invited to, by their email, most recently updated first
+  getSharedReports(email: string): Promise<Report[]>;
+  // Replaces the report's collaborators, recording the owner's email with them; only its owner can
+  updateCollaborators(reportId: string, collaborators: Record<string, CollaboratorRole>, ownerEmail: string | null): Promise<void>;
+  // Removes the report with its versions, share links, live editing state and review threads
+  deleteReport(reportId: string, userId: string): Promise<void>;
+  // Newest first
+  getReportVersions(reportId: string): Promise<ReportVersion[]>;
+  getLibrary(userId: string): Promise<Library>;
+  // Tags and folder are library metadata, so changing them doesn't create a new version
+  updateReportLibraryInfo(reportId: string, userId: string, info: { tags: string[]; folder?: string }): Promise<void>;
+  createShare(reportId: string, userId: string, content: ReportContent, expiresAt?: Date): Promise<ReportShare>;
+  getShare(token: string): Promise<ReportShare | null>;
+  // Unexpired, unrevoked shares of a report, newest first
+  getReportShares(reportId: string, userId: string): Promise<ReportShare[]>;
+  revokeShare(token: string): Promise<void>;
+  // Stores a file and returns a URL it can be loaded from
+  uploadAsset(file: Blob, path: string): Promise<string>;
+}
+
+let repository: Promise<ReportRepository> | null = null;
+
+// The configured repository, loaded on first use so the local one never initializes Firebase
+export const getReportRepository = (): Promise<ReportRepository> => {
+  if (!repository) {
+    repository =
+      STORAGE_PROVIDER === 'local'
+        ? import('./localReportRepository').then(module => module.localReportRepository)
+        : import('./firestoreReportRepository').then(module => module.firestoreReportRepository);
+  }
+  return repository;
+};
+
+// Restoring never rewrites history: the old version's content is saved again as the newest version
+export const restoreReportVersion = async (reportId: string, version: ReportVersion, expectedUpdatedAt?: Date) =>
+  (await getReportRepository()).updateReport(
+    reportId,
+    {
+      title: version.title,
+      content: version.content,
+      animations: version.animations,
+      sources: version.sources
+    },
+    { restoredFrom: version.version, expectedUpdatedAt }
+  );
@@ -0,0 +1,300 @@
+export const DIAGRAM_TYPES = [
+  'flowchart',
+  'mindmap',
+  'sequence',
+  'timeline',
+  'gantt',
+  'pie',
+  'quadrant',
+  'xychart',
+] as const;
+
+export type DiagramType = (typeof DIAGRAM_TYPES)[number];
+
+export const DIAGRAM_TYPE_LABELS: Record<DiagramType, string> = {
+  flowchart: 'Flowchart',
+  mindmap: 'Mind map',
+  sequence: 'Sequence diagram',
+  timeline: 'Timeline',
+  gantt: 'Gantt chart',
+  pie: 'Pie chart',
+  quadrant: 'Quadrant chart',
+  xychart: 'XY chart',
+};
+
+export const CHART_TYPES = ['pie', 'xychart', 'quadrant'] as const satisfies readonly DiagramType[];
+
+export type ChartType = (typeof CHART_TYPES)[number];
+
+// Which extracted table feeds a chart and how its columns map onto it
+export interface ChartMapping {
+  tableIndex: number;
+  chartType: ChartType;
+  // -1 labels points by row number
+  labelColumn: number;
+  // Pie uses the first column, xy charts plot every column as a series, quadrant charts use [x, y]
+  valueColumns: number[];
+}
+
+export interface GeneratedDiagram {
+  type: DiagramType;
+  code: string;
+  rationale: string;
+  source: 'llm' | 'heuristic' | 'data';
+  // Names of the repair passes that were needed for the code to parse
+  repairs?: string[];
+  // Set when the original diagram could not be repaired and an alternative was used
+  fallbackFrom?: DiagramType;
+}
+
+// Mermaid source hand-edited by the user, which replaces the generated diagram
+export interface CustomDiagram {
+  type: DiagramType;
+  code: string;
+}
+
+export const ENTITY_TYPES = ['company', 'organization', 'country', 'person', 'technology', 'other'] as const;
+
+export type EntityType = (typeof ENTITY_TYPES)[number];
+
+export interface Entity {
+  id: string;
+  name: string;
+  type: EntityType;
+  // Other names the entity goes by in the report, such as acronyms
+  aliases: string[];
+  // Indices into the report's sections that mention the entity
+  sectionIndices: number[];
+}
+
+export interface EntityRelationship {
+  source: string;
+  target: string;
+  // Short verb phrase such as "supplies" or "competes with"; empty when only co-mentioned
+  label: string;
+}
+
+export interface KnowledgeGraph {
+  entities: Entity[];
+  relationships: EntityRelationship[];
+  source: 'llm' | 'heuristic';
+}
+
+export interface AnimationSection {
+  heading: string;
+  // Heading level, 1 to 6
+  depth: number;
+  // 0-based source lines: the heading starts at lineIndex, its body runs from bodyStartLine up to endLine (exclusive)
+  lineIndex: number;
+  bodyStartLine: number;
+  endLine: number;
+  content: string;
+  customDiagram?: CustomDiagram;
+  chartMapping?: ChartMapping;
+}
+
+export interface Source {
+  id: string;
+  // Citation marker as written in the report, such as "1" for [1] or [^1]; absent for plain inline links
+  label?: string;
+  title: string;
+  url?: string;
+  // Indices into the report's sections that cite the source
+  sectionIndices: number[];
+}
+
+export interface Report {
+  id?: string;
+  userId: string;
+  title: string;
+  content: string;
+  animations: AnimationSection[];
+  // Missing on reports saved before citations were extracted
+  sources?: Source[];
+  // Number of the latest saved version; missing on reports saved before version history
+  version?: number;
+  tags?: string[];
+  folder?: string;
+  diagramCount?: number;
+  // Deep-research tool the report was recognized as coming from, by format id
+  researchFormat?: string;
+  // The tool's thinking and research process, kept apart from the findings
+  reasoning?: string;
+  // People the owner invited, by lower-case email
+  collaborators?: Record<string, CollaboratorRole>;
+  // The same emails as a list, which Firestore can query
+  collaboratorEmails?: string[];
+  // The owner's lower-case email, recorded when they invite someone so collaborators can mention them
+  ownerEmail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const COLLABORATOR_ROLES = ['viewer', 'editor'] as const;
+export type CollaboratorRole = typeof COLLABORATOR_ROLES[number];
+
+// The part of a report collaborators edit together, kept in sync between everyone who has it open
+export interface LiveReportState {
+  title: string;
+  content: string;
+  animations: AnimationSection[];
+}
+
+// Someone who has a report open, and the section they're looking at
+export interface Presence {
+  uid: string;
+  name: string;
+  email?: string;
+  sectionIndex: number | null;
+  updatedAt: Date;
+}
+
+// Where a review thread is attached: a section, found again after edits by its heading and lines,
+// and optionally one node of its diagram
+export interface CommentAnchor {
+  heading: string;
+  lineIndex: number;
+  endLine: number;
+  // The node's id in the Mermaid code and its label, for comments on part of a diagram
+  nodeId?: string;
+  nodeLabel?: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  authorId: string;
+  authorName: string;
+  authorEmail?: string;
+  body: string;
+  // Lower-case emails of the people the comment @mentions
+  mentions: string[];
+  createdAt: Date;
+}
+
+// A comment on a section or diagram node and the replies to it
+export interface CommentThread {
+  id: string;
+  anchor: CommentAnchor;
+  // Oldest first; the first one started the thread
+  comments: ReviewComment[];
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The fields a save writes; the rest of a report is ownership, library metadata and timestamps
+export type ReportContent = Pick<Report, 'title' | 'content' | 'animations' | 'sources' | 'researchFormat' | 'reasoning'>
+  & Pick<ReportVersion, 'diagramCodes'>;
+
+// The editor's working state, autosaved in the browser so a refresh or crashed tab doesn't lose it
+export interface Draft {
+  userId: string;
+  title: string;
+  content: string;
+  animations: AnimationSection[];
+  // Whether the content had been visualized, so recovering reopens the diagrams
+  visualized: boolean;
+  researchFormat?: string;
+  reasoning?: string;
+  // The saved report being edited, as it was when loaded or last saved
+  report?: Report;
+  // Identifies work not yet saved as a report, so offline saves of it replace each other
+  localId: string;
+  savedAt: Date;
+}
+
+// A save made while offline, kept in the browser until it can be written to Firestore
+export interface PendingSave {
+  // The report id, or the draft's local id for a report that hasn't been created yet
+  key: string;
+  userId: string;
+  reportId?: string;
+  content: ReportContent;
+  // When the report was last updated before these edits; a later update on the server is a conflict
+  baseUpdatedAt?: Date;
+  queuedAt: Date;
+  // Set when replaying found the report changed elsewhere, until the user picks which to keep
+  conflict?: boolean;
+  // Why replaying failed, when retrying can't help, such as the report having been deleted;
+  // the save is set aside until the user opens or discards it
+  failure?: string;
+}
+
+export const REPORT_SORTS = ['updatedAt', 'createdAt', 'title', 'diagramCount'] as const;
+export type ReportSort = typeof REPORT_SORTS[number];
+
+export interface ReportFilters {
+  search?: string;
+  tag?: string;
+  folder?: string;
+  // Only reports updated within this many days
+  updatedWithinDays?: number;
+  minDiagrams?: number;
+  sort: ReportSort;
+}
+
+// Read-only public copy of a report, kept up to date on every save; the token is the document id
+export interface ReportShare {
+  token: string;
+  reportId: string;
+  userId: string;
+  title: string;
+  content: string;
+  animations: AnimationSection[];
+  sources?: Source[];
+  createdAt: Date;
+  // Missing for links that never expire
+  expiresAt?: Date;
+  revokedAt?: Date;
+}
+
+// Tags and folders a user has assigned, kept together so the library can offer them without reading every report
+export interface Library {
+  tags: string[];
+  folders: string[];
+}
+
+// Immutable snapshot of a report, written on every save
+export interface ReportVersion {
+  id?: string;
+  version: number;
+  userId: string;
+  title: string;
+  content: string;
+  animations: AnimationSection[];
+  sources?: Source[];
+  // Mermaid code of each section's diagram as it was rendered when the version was saved, by section
+  // index; empty where a diagram hadn't rendered. Missing on versions saved before this was kept.
+  diagramCodes?: string[];
+  // Set when this version was created by restoring an older one
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+// A report section laid out as a presentation slide
+export interface Slide {
+  sectionIndex: number;
+  heading: string;
+  depth: number;
+  // Opening sentences of the section's paragraphs and list items, shown on the slide
+  keyPoints: string[];
+  // The section body as plain text, for the presenter
+  notes: string;
+  diagramCode?: string;
+}
+
+export const EXPORT_FORMATS = ['pdf', 'html', 'markdown', 'docx', 'pptx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Everything an exporter needs from the visualized report
+export interface ReportExport {
+  title: string;
+  markdown: string;
+  sections: AnimationSection[];
+  sources: Source[];
+  // Mermaid code of each section's rendered diagram, by section index
+  diagramCodes: Map<number, string>;
+}
@@ -0,0 +1,169 @@
+import { AnimationSection, ReportVersion } from '@/lib/types';
+import { generateDataDiagram } from '@/lib/diagrams/charts';
+import { generateHeuristicDiagram } from '@/lib/diagrams/heuristics';
+import { generateTimelineDiagram } from '@/lib/diagrams/timeline';
+
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed';
+
+// One row of a side-by-side diff; a missing side means the line only exists on the other
+export interface DiffRow {
+  type: DiffRowType;
+  left?: string;
+  right?: string;
+  leftNumber?: number;
+  rightNumber?: number;
+}
+
+// Beyond this many lines on both sides the LCS table gets too large to build in the browser
+const MAX_DIFF_CELLS = 4000000;
+
+type Operation = { type: 'same' | 'added' | 'removed'; line: string };
+
+// Longest common subsequence over lines, after trimming the common prefix and suffix
+export const diffOperations = (left: string[], right: string[]): Operation[] => {
+  let prefix = 0;
+  while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < left.length - prefix &&
+    suffix < right.length - prefix &&
+    left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+  ) suffix++;
+
+  const a = left.slice(prefix, left.length - suffix);
+  const b = right.slice(prefix, right.length - suffix);
+  const middle: Operation[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    // Too big to align line by line; show the whole middle as replaced
+    a.forEach(line => middle.push({ type: 'removed', line }));
+    b.forEach(line => middle.push({ type: 'added', line }));
+  } else {
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        middle.push({ type: 'same', line: a[i] });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        middle.push({ type: 'removed', line: a[i++] });
+      } else {
+        middle.push({ type: 'added', line: b[j++] });
+      }
+    }
+    while (i < a.length) middle.push({ type: 'removed', line: a[i++] });
+    while (j < b.length) middle.push({ type: 'added', line: b[j++] });
+  }
+
+  return [
+    ...left.slice(0, prefix).map(line => ({ type: 'same' as const, line })),
+    ...middle,
+    ...left.slice(left.length - suffix).map(line => ({ type: 'same' as const, line })),
+  ];
+};
+
+const toLines = (text: string): string[] => (text ? text.split('\n') : []);
+
+// Side-by-side rows: runs of removed and added lines are paired up as changed lines
+export const diffLines = (leftText: string, rightText: string): DiffRow[] => {
+  const operations = diffOperations(toLines(leftText), toLines(rightText));
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let index = 0;
+
+  while (index < operations.length) {
+    if (operations[index].type === 'same') {
+      rows.push({
+        type: 'same',
+        left: operations[index].line,
+        right: operations[index].line,
+        leftNumber: leftNumber++,
+        rightNumber: rightNumber++
+      });
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < operations.length && operations[index].type !== 'same') {
+      const operation = operations[index++];
+      (operation.type === 'removed' ? removed : added).push(operation.line);
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({
+        type: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added',
+        left,
+        right,
+        leftNumber: left !== undefined ? leftNumber++ : undefined,
+        rightNumber: right !== undefined ? rightNumber++ : undefined
+      });
+    }
+  }
+
+  return rows;
+};
+
+export const hasChanges = (rows: DiffRow[]): boolean => rows.some(row => row.type !== 'same');
+
+export interface DiagramChange {
+  heading: string;
+  rows: DiffRow[];
+  // Set when a side didn't keep the rendered diagram, so its code is only an approximation
+  approximate: boolean;
+}
+
+// What the offline generators draw for a section, or its hand-edited code. Model output can differ
+// from this, so it only approximates the diagram of versions that didn't keep what was rendered.
+export const approximateDiagramCode = (section: AnimationSection): string =>
+  section.customDiagram?.code
+    ?? generateDataDiagram(section)?.code
+    ?? generateTimelineDiagram(section)?.code
+    ?? generateHeuristicDiagram(section).code;
+
+type VersionDiagrams = Pick<ReportVersion, 'animations' | 'diagramCodes'>;
+
+// The code each section's diagram was rendered from, or its approximation for older versions and
+// diagrams that hadn't rendered when the version was saved
+const diagramsByHeading = ({ animations, diagramCodes }: VersionDiagrams) => {
+  const diagrams = new Map<string, { code: string; approximate: boolean }>();
+  animations.forEach((section, index) => {
+    if (diagrams.has(section.heading)) return;
+    const code = diagramCodes?.[index];
+    diagrams.set(
+      section.heading,
+      code ? { code, approximate: false } : { code: approximateDiagramCode(section), approximate: true }
+    );
+  });
+  return diagrams;
+};
+
+// Sections whose diagram code differs between two versions, matched by heading
+export const diffDiagrams = (left: VersionDiagrams, right: VersionDiagrams): DiagramChange[] => {
+  const before = diagramsByHeading(left);
+  const after = diagramsByHeading(right);
+  const headings = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]));
+
+  return headings
+    .map(heading => ({
+      heading,
+      rows: diffLines(before.get(heading)?.code ?? '', after.get(heading)?.code ?? ''),
+      approximate: !!(before.get(heading)?.approximate || after.get(heading)?.approximate)
+    }))
+    .filter(change => hasChanges(change.rows));
+};
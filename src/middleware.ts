@@ -1,20 +1,40 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySessionCookie } from '@/lib/auth/tokens';
+import { isLocalStorage } from '@/lib/storage/config';
 
-export function middleware(request: NextRequest) {
+// Pages anyone can open; API routes check credentials themselves and answer 401 instead of redirecting
+const isPublicPath = (path: string) =>
+  path === '/auth' || path.startsWith('/share/') || path.startsWith('/api/');
+
+export async function middleware(request: NextRequest) {
   // Get the pathname of the request
   const path = request.nextUrl.pathname;
 
-  // Define public paths that don't require authentication
-  const isPublicPath = path === '/auth';
-
-  // Get the token from the cookies - Firebase stores session in localStorage, not cookies
-  // So we'll rely on client-side auth state management instead
-  if (isPublicPath) {
+  // Without Firebase there's no sign-in, so every page is open. API routes are public paths either
+  // way, since they check credentials themselves.
+  if (isLocalStorage || isPublicPath(path)) {
     return NextResponse.next();
   }
 
-  return NextResponse.next();
+  // The session cookie is minted by /api/auth/session after sign-in in AuthContext
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  if (sessionCookie) {
+    try {
+      await verifySessionCookie(sessionCookie);
+      return NextResponse.next();
+    } catch (error) {
+      console.warn('Rejected session cookie:', (error as Error).message);
+    }
+  }
+
+  const authUrl = new URL('/auth', request.url);
+  authUrl.searchParams.set('next', `${path}${request.nextUrl.search}`);
+  const response = NextResponse.redirect(authUrl);
+  if (sessionCookie) {
+    response.cookies.delete(SESSION_COOKIE_NAME);
+  }
+  return response;
 }
 
 // Configure the paths that should be protected
@@ -25,8 +45,8 @@ export const config = {
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
-     * - public folder
+     * - files in the public folder, which are served from the root and have an extension
      */
-    '/((?!_next/static|_next/image|favicon.ico|public).*)',
+    '/((?!_next/static|_next/image|favicon.ico|.*\\.[\\w]+$).*)',
   ],
-}; 
\ No newline at end of file
+};
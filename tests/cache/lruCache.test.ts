@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createLruCache } from '@/lib/cache/lruCache';
+
+describe('createLruCache', () => {
+  it('drops the least recently used entry once over the limit', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    // Reading a makes b the least recently used
+    expect(cache.get('a')).toBe(1);
+    cache.set('c', 3);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('replaces an existing key without evicting another', () => {
+    const cache = createLruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 3);
+    expect(cache.get('a')).toBe(3);
+    expect(cache.get('b')).toBe(2);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { mergeLiveState, mergeText } from '@/lib/collaboration/merge';
+
+const BASE = [
+  '## Findings',
+  'The market grew by 5% last year.',
+  'Growth was strongest in Europe.',
+  '',
+  '## Outlook',
+  'Analysts expect a slowdown.',
+].join('\n');
+
+const edit = (text: string, from: string, to: string) => {
+  expect(text).toContain(from);
+  return text.replace(from, to);
+};
+
+describe('mergeText', () => {
+  it('keeps edits to different lines from both sides', () => {
+    const mine = edit(BASE, 'last year', 'in 2025');
+    const theirs = edit(BASE, 'a slowdown', 'a sharp slowdown');
+    expect(mergeText(BASE, mine, theirs)).toEqual({
+      text: edit(mine, 'a slowdown', 'a sharp slowdown'),
+      conflicts: [],
+    });
+  });
+
+  it('keeps edits to neighbouring lines without repeating either', () => {
+    const mine = edit(BASE, 'grew by 5%', 'grew by 6%');
+    const theirs = edit(BASE, 'strongest in Europe', 'strongest in Asia');
+    const { text, conflicts } = mergeText(BASE, mine, theirs);
+    expect(text).toBe(edit(mine, 'strongest in Europe', 'strongest in Asia'));
+    expect(conflicts).toEqual([]);
+  });
+
+  it('merges different words changed in the same line', () => {
+    const mine = edit(BASE, 'grew by 5%', 'grew by 6%');
+    const theirs = edit(BASE, 'last year', 'in 2025');
+    const { text, conflicts } = mergeText(BASE, mine, theirs);
+    expect(text).toBe(edit(BASE, 'The market grew by 5% last year.', 'The market grew by 6% in 2025.'));
+    expect(text.match(/The market/g)).toHaveLength(1);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('keeps the edit made here when both change the same words, and reports the one it replaced', () => {
+    const mine = edit(BASE, 'grew by 5%', 'grew by 6%');
+    const theirs = edit(BASE, 'grew by 5%', 'grew by 7%');
+    const { text, conflicts } = mergeText(BASE, mine, theirs);
+    expect(text).toBe(mine);
+    expect(conflicts).toEqual([
+      { mine: 'The market grew by 6% last year.', theirs: 'The market grew by 7% last year.' },
+    ]);
+  });
+
+  it('reports an edit to a line the other side deleted instead of keeping fragments of it', () => {
+    const deleted = edit(BASE, 'Growth was strongest in Europe.\n', '');
+    const edited = edit(BASE, 'strongest in Europe', 'strongest in Asia');
+
+    const editWins = mergeText(BASE, edited, deleted);
+    expect(editWins.text).toBe(edited);
+    expect(editWins.conflicts).toEqual([{ mine: 'Growth was strongest in Asia.', theirs: '' }]);
+
+    const deleteWins = mergeText(BASE, deleted, edited);
+    expect(deleteWins.text).toBe(deleted);
+    expect(deleteWins.conflicts).toEqual([{ mine: '', theirs: 'Growth was strongest in Asia.' }]);
+  });
+
+  it('keeps lines both sides added at the same place', () => {
+    const mine = `${BASE}\nMine.`;
+    const theirs = `${BASE}\nTheirs.`;
+    expect(mergeText(BASE, mine, theirs)).toEqual({ text: `${BASE}\nTheirs.\nMine.`, conflicts: [] });
+  });
+
+  it('takes either side when only one changed or both made the same change', () => {
+    const changed = edit(BASE, 'last year', 'in 2025');
+    expect(mergeText(BASE, BASE, changed).text).toBe(changed);
+    expect(mergeText(BASE, changed, BASE).text).toBe(changed);
+    expect(mergeText(BASE, changed, changed)).toEqual({ text: changed, conflicts: [] });
+  });
+});
+
+describe('mergeLiveState', () => {
+  it('passes the text conflicts on with the merged state', () => {
+    const base = { title: 'Market report', content: BASE, animations: [] };
+    const mine = { ...base, content: edit(BASE, 'grew by 5%', 'grew by 6%') };
+    const theirs = { ...base, title: 'Market outlook', content: edit(BASE, 'grew by 5%', 'grew by 7%') };
+    const { state, conflicts } = mergeLiveState(base, mine, theirs);
+    expect(state.title).toBe('Market outlook');
+    expect(state.content).toBe(mine.content);
+    expect(state.animations.map(section => section.heading)).toEqual(['Findings', 'Outlook']);
+    expect(conflicts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { anchorFor, findAnchoredSection, reanchorThreads } from '@/lib/comments/anchors';
+import { findSections } from '@/lib/markdown/sections';
+import { CommentThread } from '@/lib/types';
+
+const report = (...sections: [string, string][]) =>
+  findSections(sections.map(([heading, body]) => `## ${heading}\n${body}\n`).join('\n'));
+
+const MARKET = ['Market size', 'The market was worth $4bn in 2025.\nIt grew by 5% a year.'] as [string, string];
+const RISKS = ['Regulatory risks', 'New rules could slow adoption.\nFines are rising.'] as [string, string];
+const OUTLOOK = ['Outlook', 'Analysts expect a slowdown.\nMargins should hold.'] as [string, string];
+
+const BEFORE = report(MARKET, RISKS, OUTLOOK);
+
+const threadOn = (index: number): CommentThread => ({
+  id: `thread-${index}`,
+  anchor: anchorFor(BEFORE[index]),
+  comments: [],
+  resolved: false,
+  createdBy: 'reviewer',
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+describe('findAnchoredSection', () => {
+  it('follows a section that moved', () => {
+    const after = report(OUTLOOK, MARKET, RISKS);
+    expect(findAnchoredSection(anchorFor(BEFORE[0]), after, BEFORE)).toBe(1);
+    expect(findAnchoredSection(anchorFor(BEFORE[2]), after, BEFORE)).toBe(0);
+  });
+
+  it('follows a renamed heading that keeps most of its words', () => {
+    const after = report(['Market size and growth', MARKET[1]], RISKS, OUTLOOK);
+    expect(findAnchoredSection(anchorFor(BEFORE[0]), after, BEFORE)).toBe(0);
+  });
+
+  it('follows a renamed heading with nothing in common over the same lines', () => {
+    const after = report(MARKET, ['Headwinds', RISKS[1]], OUTLOOK);
+    expect(findAnchoredSection(anchorFor(BEFORE[1]), after, BEFORE)).toBe(1);
+  });
+
+  it('leaves a thread on a deleted section unmatched', () => {
+    // Outlook moves up into the deleted section's lines, but it's still its own section
+    const after = report(MARKET, OUTLOOK);
+    expect(findAnchoredSection(anchorFor(BEFORE[1]), after, BEFORE)).toBeNull();
+  });
+
+  it('does not match headings on common words alone', () => {
+    const before = report(MARKET, ['The state of the market', 'Consolidating.']);
+    const after = report(['The state of the art', 'New chips.\nFaster training.\nCheaper inference.'], MARKET);
+    expect(findAnchoredSection(anchorFor(before[1]), after, before)).toBeNull();
+  });
+
+  it('leaves a thread unmatched when a renamed and moved section shares neither words nor lines', () => {
+    const after = report(OUTLOOK, MARKET, ['Headwinds', 'Different text entirely.\nAnd more.\nAnd more again.\nAnd still more.']);
+    expect(findAnchoredSection(anchorFor(BEFORE[1]), after, BEFORE)).toBeNull();
+  });
+});
+
+describe('reanchorThreads', () => {
+  it('moves threads only to sections found with confidence', () => {
+    const after = report(OUTLOOK, ['Market size and growth', MARKET[1]]);
+    const moves = reanchorThreads([threadOn(0), threadOn(1), threadOn(2)], after, BEFORE);
+    expect(moves).toEqual([
+      { threadId: 'thread-0', anchor: anchorFor(after[1]) },
+      { threadId: 'thread-2', anchor: anchorFor(after[0]) },
+    ]);
+  });
+});
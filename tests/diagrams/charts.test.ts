@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { buildChart, suggestChartMapping } from '@/lib/diagrams/charts';
+import { DataTable } from '@/lib/diagrams/dataExtraction';
+
+const table = (headers: string[], rows: string[][]): DataTable => ({ caption: 'Table 1', headers, rows, fromText: false });
+
+describe('suggestChartMapping', () => {
+  it('charts shares as a pie and everything else as an xy chart', () => {
+    const shares = table(['Region', 'Share'], [['Europe', '40%'], ['Asia', '35%'], ['Americas', '25%']]);
+    expect(suggestChartMapping(shares, 0)).toEqual({ tableIndex: 0, chartType: 'pie', labelColumn: 0, valueColumns: [1] });
+
+    const revenue = table(['Year', 'Revenue'], [['2023', '$1.6B'], ['2024', '$2.1B']]);
+    expect(suggestChartMapping(revenue, 0)?.chartType).toBe('xychart');
+  });
+});
+
+describe('buildChart', () => {
+  it('scales xy chart values to a common unit', () => {
+    const revenue = table(['Year', 'Revenue'], [['2023', '$1.6B'], ['2024', '$21B']]);
+    const code = buildChart(revenue, { tableIndex: 0, chartType: 'xychart', labelColumn: 0, valueColumns: [1] }, 'Revenue');
+    expect(code).toContain('y-axis "Revenue ($B)"');
+    expect(code).toContain('bar [1.6, 21]');
+  });
+
+  it('leaves out rows without a bar and lines with gaps instead of plotting zero', () => {
+    const sales = table(
+      ['Year', 'Sales', 'Costs'],
+      [['2022', '10', '4'], ['2023', 'n/a', '5'], ['2024', '12', '']]
+    );
+    const code = buildChart(sales, { tableIndex: 0, chartType: 'xychart', labelColumn: 0, valueColumns: [1, 2] }, 'Sales');
+    expect(code).toContain('x-axis "Year" ["2022", "2024"]');
+    expect(code).toContain('bar [10, 12]');
+    expect(code).not.toContain('line');
+  });
+
+  it('names quadrant points that start with a digit by their row', () => {
+    const products = table(
+      ['Product', 'Price', 'Rating'],
+      [['3D printer', '500', '4.1'], ['Laptop', '1200', '4.6']]
+    );
+    const code = buildChart(products, { tableIndex: 0, chartType: 'quadrant', labelColumn: 0, valueColumns: [1, 2] }, 'Products');
+    expect(code).toContain('    Row 1: [0.05, 0.05]');
+    expect(code).toContain('    Laptop: [0.95, 0.95]');
+  });
+
+  it('needs at least two positive slices for a pie', () => {
+    const single = table(['Region', 'Share'], [['Europe', '100%'], ['Asia', '0%']]);
+    expect(buildChart(single, { tableIndex: 0, chartType: 'pie', labelColumn: 0, valueColumns: [1] }, 'Share')).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { findDataTables, getNumericColumns, parseNumericValue } from '@/lib/diagrams/dataExtraction';
+
+describe('parseNumericValue', () => {
+  it('reads currencies with scale words and suffixes', () => {
+    expect(parseNumericValue('$2.1B')).toEqual({ value: 2.1e9, unit: 'currency', currency: '$' });
+    expect(parseNumericValue('€3 million')).toEqual({ value: 3e6, unit: 'currency', currency: '€' });
+  });
+
+  it('reads percentages and thousands separators', () => {
+    expect(parseNumericValue('34%')).toEqual({ value: 34, unit: '%' });
+    expect(parseNumericValue('1,234')).toEqual({ value: 1234, unit: 'number' });
+  });
+
+  it('treats accounting brackets and minus signs as negative', () => {
+    expect(parseNumericValue('(12.5)')?.value).toBe(-12.5);
+    expect(parseNumericValue('−4%')?.value).toBe(-4);
+  });
+
+  it('ignores emphasis and rejects text that only starts with a number', () => {
+    expect(parseNumericValue('**42**')?.value).toBe(42);
+    expect(parseNumericValue('3rd quarter')).toBeNull();
+    expect(parseNumericValue('n/a')).toBeNull();
+  });
+});
+
+describe('findDataTables', () => {
+  it('reads Markdown tables and picks out their numeric columns', () => {
+    const [table] = findDataTables('| Year | Revenue |\n| --- | --- |\n| 2023 | $1.6B |\n| 2024 | $2.1B |\n');
+    expect(table.headers).toEqual(['Year', 'Revenue']);
+    expect(table.rows).toEqual([['2023', '$1.6B'], ['2024', '$2.1B']]);
+    expect(getNumericColumns(table)).toEqual([1]);
+  });
+
+  it('turns figures reported for several years into a series', () => {
+    const tables = findDataTables('Cloud revenue reached $2.1B in 2024, up from $1.6B in 2023.');
+    expect(tables).toHaveLength(1);
+    expect(tables[0]).toMatchObject({ fromText: true, headers: ['Year', 'Cloud revenue'] });
+    expect(tables[0].rows).toEqual([['2023', '$1.6B'], ['2024', '$2.1B']]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { extractDatedEvents, findDates } from '@/lib/diagrams/dates';
+
+const spansOf = (text: string) => findDates(text).map(({ span }) => span);
+
+describe('findDates', () => {
+  it('reads days, months, quarters and halves as the periods they cover', () => {
+    expect(spansOf('March 15, 2021')).toEqual([
+      { start: '2021-03-15', end: '2021-03-15', precision: 'day', label: 'Mar 15, 2021', isRange: false },
+    ]);
+    expect(spansOf('Feb 2024')).toMatchObject([{ start: '2024-02-01', end: '2024-02-29', label: 'Feb 2024' }]);
+    expect(spansOf("Q3'22")).toMatchObject([{ start: '2022-07-01', end: '2022-09-30', precision: 'quarter', label: 'Q3 2022' }]);
+    expect(spansOf('H2 2023')).toMatchObject([{ start: '2023-07-01', end: '2023-12-31', label: 'H2 2023' }]);
+  });
+
+  it('reads ranges, including short and spelled-out ones', () => {
+    expect(spansOf('2019–22')).toMatchObject([{ start: '2019-01-01', end: '2022-12-31', label: '2019–2022', isRange: true }]);
+    expect(spansOf('between 2019 and 2021')).toMatchObject([{ label: '2019–2021', isRange: true }]);
+    expect(spansOf('Q1–Q3 2023')).toMatchObject([{ start: '2023-01-01', end: '2023-09-30', label: 'Q1 2023–Q3 2023' }]);
+  });
+
+  it('prefers the most specific reading and skips amounts that look like years', () => {
+    expect(findDates('On 2021-03-15 sales hit $2019 and 2020% growth in 2022.')).toMatchObject([
+      { index: 3, span: { label: 'Mar 15, 2021' } },
+      { span: { label: '2022' } },
+    ]);
+  });
+
+  it('only joins years with "and" after "between"', () => {
+    expect(spansOf('in 2019 and 2021')).toMatchObject([{ label: '2019' }, { label: '2021' }]);
+  });
+});
+
+describe('extractDatedEvents', () => {
+  it('keeps what happened and drops the date and the words around it', () => {
+    const events = extractDatedEvents('In 2019, the company launched its app. It expanded to Europe in March 2021.', 'History');
+    expect(events).toEqual([
+      { span: expect.objectContaining({ label: '2019' }), label: 'The company launched its app', group: 'History' },
+      { span: expect.objectContaining({ label: 'Mar 2021' }), label: 'It expanded to Europe', group: 'History' },
+    ]);
+  });
+
+  it('reads table rows as a date and an event', () => {
+    const events = extractDatedEvents('| Year | Event |\n| --- | --- |\n| 2018 | Founded |');
+    expect(events.map(event => [event.span.label, event.label])).toEqual([['2018', 'Founded']]);
+  });
+});
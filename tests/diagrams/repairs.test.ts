@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { REPAIR_PASSES, escapeMermaidText, stripClickDirectives } from '@/lib/diagrams/repairs';
+
+const pass = (name: string) => REPAIR_PASSES.find(candidate => candidate.name === name)!.apply;
+
+describe('stripClickDirectives', () => {
+  it('removes click handlers and links, whatever their case or indent', () => {
+    const code = [
+      'flowchart TD',
+      '  A[Start] --> B[End]',
+      '  click A "javascript:alert(1)"',
+      '  CLICK B href "https://example.com"',
+      '  style A fill:#fff',
+    ].join('\n');
+    expect(stripClickDirectives(code)).toBe('flowchart TD\n  A[Start] --> B[End]\n  style A fill:#fff');
+  });
+
+  it('leaves labels that mention clicks alone', () => {
+    const code = 'flowchart TD\n  A[click here] --> B';
+    expect(stripClickDirectives(code)).toBe(code);
+  });
+});
+
+describe('escapeMermaidText', () => {
+  it('escapes characters that end a label and keeps existing entities', () => {
+    expect(escapeMermaidText('Revenue (2025): $4bn #quot;')).toBe('Revenue #40;2025#41;#58; $4bn #quot;');
+  });
+});
+
+describe('repair passes', () => {
+  it('strips Markdown fences', () => {
+    expect(pass('strip-fences')('```mermaid\nflowchart TD\n  A --> B\n```')).toBe('flowchart TD\n  A --> B');
+  });
+
+  it('quotes flowchart labels', () => {
+    expect(pass('quote-labels')('flowchart TD\n  A[Growth (5%)] --> B[Outlook]')).toBe(
+      'flowchart TD\n  A["Growth (5%)"] --> B["Outlook"]'
+    );
+  });
+
+  it('renames reserved identifiers and points style directives at the new ones', () => {
+    const repaired = pass('rewrite-identifiers')('flowchart TD\n  default[Finish] --> A\n  style default fill:#fff');
+    const id = repaired.split('\n')[1].trim().split('[')[0];
+    expect(id).not.toBe('default');
+    expect(repaired).toContain(`style ${id} fill:#fff`);
+  });
+
+  it('drops flowchart statements past the limit', () => {
+    const code = ['flowchart TD', ...Array.from({ length: 50 }, (_, index) => `  N${index} --> N${index + 1}`)].join('\n');
+    expect(pass('truncate')(code).split('\n')).toHaveLength(41);
+  });
+});
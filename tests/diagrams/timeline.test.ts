@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { buildReportTimeline, generateTimelineDiagram } from '@/lib/diagrams/timeline';
+
+describe('generateTimelineDiagram', () => {
+  it('draws a history as a timeline in date order', () => {
+    const diagram = generateTimelineDiagram({
+      heading: 'History',
+      content: 'The company expanded in 2021. It was founded in 2015. It went public in 2018.',
+    });
+    expect(diagram?.type).toBe('timeline');
+    expect(diagram?.code).toBe([
+      'timeline',
+      '    title History',
+      '    2015 : It was founded',
+      '    2018 : It went public',
+      '    2021 : The company expanded',
+    ].join('\n'));
+  });
+
+  it('draws a roadmap as a Gantt chart with milestones for single days', () => {
+    const diagram = generateTimelineDiagram({
+      heading: 'Roadmap',
+      content: 'Beta runs Q1–Q2 2025. Launch on June 30, 2025. Expansion in H2 2025.',
+    });
+    expect(diagram?.type).toBe('gantt');
+    expect(diagram?.code).toContain('    Beta runs :2025-01-01, 2025-06-30');
+    expect(diagram?.code).toContain('    Launch :milestone, 2025-06-30, 0d');
+  });
+
+  it('leaves sections with fewer than three dates to the other generators', () => {
+    expect(generateTimelineDiagram({ heading: 'Notes', content: 'Sales rose in 2023 and fell in 2024.' })).toBeNull();
+  });
+});
+
+describe('buildReportTimeline', () => {
+  it('merges the events of every section and drops repeats', () => {
+    const diagram = buildReportTimeline(
+      [
+        { heading: 'Origins', content: 'It was founded in 2015.' },
+        { heading: 'Today', content: 'It was founded in 2015. It went public in 2018.' },
+      ],
+      'Acme'
+    );
+    expect(diagram?.code.split('\n').filter(line => line.includes('founded'))).toHaveLength(1);
+  });
+});
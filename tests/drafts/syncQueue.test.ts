@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PendingSave } from '@/lib/types';
+import { reportConflictError } from '@/lib/storage/reportRepository';
+import { deletePendingSave, getPendingSaves, putPendingSave } from '@/lib/drafts/draftStore';
+import { resolveConflict, syncPendingSaves } from '@/lib/drafts/syncQueue';
+
+// The queue lives in IndexedDB, which Node doesn't have
+vi.mock('@/lib/drafts/draftStore', () => ({
+  getPendingSaves: vi.fn(),
+  putPendingSave: vi.fn(),
+  deletePendingSave: vi.fn(),
+}));
+
+const repository = { updateReport: vi.fn(), saveReport: vi.fn() };
+
+vi.mock('@/lib/storage/reportRepository', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/storage/reportRepository')>()),
+  getReportRepository: async () => repository,
+}));
+
+const UPDATED_AT = new Date('2026-01-02T00:00:00Z');
+const BASE_UPDATED_AT = new Date('2026-01-01T00:00:00Z');
+
+const pendingSave = (key: string, overrides: Partial<PendingSave> = {}): PendingSave => ({
+  key,
+  userId: 'user',
+  reportId: key,
+  content: { title: key, content: `# ${key}\n`, animations: [] },
+  baseUpdatedAt: BASE_UPDATED_AT,
+  queuedAt: new Date('2026-01-01T12:00:00Z'),
+  ...overrides,
+});
+
+const failWith = (code: string) => Object.assign(new Error(code), { code });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  repository.updateReport.mockResolvedValue({ version: 2, updatedAt: UPDATED_AT });
+});
+
+describe('syncPendingSaves', () => {
+  it('updates reports only if they are unchanged since the edits began, and creates new ones', async () => {
+    repository.saveReport.mockResolvedValue('created');
+    vi.mocked(getPendingSaves).mockResolvedValue([pendingSave('r1'), pendingSave('local-1', { reportId: undefined })]);
+
+    const result = await syncPendingSaves('user');
+
+    expect(repository.updateReport).toHaveBeenCalledWith('r1', expect.any(Object), { expectedUpdatedAt: BASE_UPDATED_AT });
+    expect(result.synced.map(({ reportId, version }) => [reportId, version])).toEqual([['r1', 2], ['created', 1]]);
+    expect(deletePendingSave).toHaveBeenCalledTimes(2);
+  });
+
+  it('holds back conflicts and saves that can never be written, and keeps the rest queued', async () => {
+    repository.updateReport
+      .mockRejectedValueOnce(reportConflictError())
+      .mockRejectedValueOnce(failWith('not-found'))
+      .mockRejectedValueOnce(failWith('internal'));
+    vi.mocked(getPendingSaves).mockResolvedValue([pendingSave('r1'), pendingSave('r2'), pendingSave('r3')]);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await syncPendingSaves('user');
+
+    expect(result.conflicts).toEqual([pendingSave('r1', { conflict: true })]);
+    expect(result.failed).toEqual([pendingSave('r2', { failure: 'The report was deleted' })]);
+    expect(putPendingSave).toHaveBeenCalledTimes(2);
+    expect(deletePendingSave).not.toHaveBeenCalled();
+  });
+
+  it('stops at the first save that cannot reach the server', async () => {
+    repository.updateReport.mockRejectedValueOnce(failWith('unavailable'));
+    vi.mocked(getPendingSaves).mockResolvedValue([pendingSave('r1'), pendingSave('r2')]);
+
+    const result = await syncPendingSaves('user');
+
+    expect(repository.updateReport).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ synced: [], conflicts: [], failed: [] });
+  });
+
+  it('passes over saves already waiting on the user', async () => {
+    const waiting = [pendingSave('r1', { conflict: true }), pendingSave('r2', { failure: 'The report was deleted' })];
+    vi.mocked(getPendingSaves).mockResolvedValue(waiting);
+
+    const result = await syncPendingSaves('user');
+
+    expect(repository.updateReport).not.toHaveBeenCalled();
+    expect(result).toEqual({ synced: [], conflicts: [waiting[0]], failed: [waiting[1]] });
+  });
+});
+
+describe('resolveConflict', () => {
+  it('overwrites the server when keeping mine and only drops the save when keeping theirs', async () => {
+    const save = pendingSave('r1', { conflict: true });
+
+    expect(await resolveConflict(save, 'mine')).toMatchObject({ reportId: 'r1', version: 2 });
+    expect(repository.updateReport).toHaveBeenCalledWith('r1', save.content, {});
+
+    expect(await resolveConflict(save, 'theirs')).toBeNull();
+    expect(repository.updateReport).toHaveBeenCalledTimes(1);
+    expect(deletePendingSave).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { cleanUrl, htmlToMarkdown, shouldConvertPastedHtml } from '@/lib/import/html';
+
+describe('cleanUrl', () => {
+  it('drops tracking parameters and keeps the rest', () => {
+    expect(cleanUrl('https://example.com/a?utm_source=x&id=7&fbclid=abc')).toBe('https://example.com/a?id=7');
+  });
+
+  it('unwraps redirects to the link they point at', () => {
+    const wrapped = `https://www.google.com/url?q=${encodeURIComponent('https://example.com/b?gclid=1')}&sa=D`;
+    expect(cleanUrl(wrapped)).toBe('https://example.com/b');
+  });
+
+  it('returns anything that is not a URL as it was', () => {
+    expect(cleanUrl('#section-2')).toBe('#section-2');
+  });
+});
+
+describe('htmlToMarkdown', () => {
+  it('keeps headings, lists and links', async () => {
+    const html = '<h2>Findings</h2><ul><li>One</li><li><a href="https://example.com/?utm_medium=x">Two</a></li></ul>';
+    expect(await htmlToMarkdown(html)).toBe('## Findings\n\n- One\n- [Two](https://example.com/)\n');
+  });
+
+  it('removes scripts, hidden content and tracking pixels', async () => {
+    const html = '<p>Kept</p><script>alert(1)</script><p style="display: none">Hidden</p><img src="https://t.example/p.gif" width="1" height="1">';
+    expect(await htmlToMarkdown(html)).toBe('Kept\n');
+  });
+
+  it('turns Google Docs styling into emphasis', async () => {
+    const html = '<b style="font-weight:normal"><p><span style="font-weight:700">Bold</span> and <span style="font-style:italic">italic</span></p></b>';
+    expect(await htmlToMarkdown(html)).toBe('**Bold** and *italic*\n');
+  });
+
+  it('leaves citation markers unescaped', async () => {
+    expect(await htmlToMarkdown('<p>Growth slowed [1].</p>')).toBe('Growth slowed [1].\n');
+  });
+});
+
+describe('shouldConvertPastedHtml', () => {
+  it('converts rich text but not Markdown or editor source', () => {
+    expect(shouldConvertPastedHtml('<h2>Title</h2><p>Body</p>', 'Title\nBody')).toBe(true);
+    expect(shouldConvertPastedHtml('<h2>Title</h2>', '## Title')).toBe(false);
+    expect(shouldConvertPastedHtml('<div style="white-space: pre"><b>const</b> x</div>', 'const x')).toBe(false);
+    expect(shouldConvertPastedHtml('<p>Just text</p>', 'Just text')).toBe(false);
+  });
+});
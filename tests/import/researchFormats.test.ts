@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { GENERIC_FORMAT, detectResearchFormat, normalizeResearchReport } from '@/lib/import/researchFormats';
+
+describe('detectResearchFormat', () => {
+  it('recognizes each tool by its citations', () => {
+    expect(detectResearchFormat('Growth slowed.【3†source】').id).toBe('chatgpt');
+    expect(detectResearchFormat('Growth slowed. \uE200cite\uE202turn0search1\uE201').id).toBe('chatgpt');
+    expect(detectResearchFormat('Growth slowed [1][2].\n\nCitations:\n[1] https://www.perplexity.ai/x').id).toBe('perplexity');
+    expect(detectResearchFormat('Growth slowed.1\n\n## Works cited\n1. A source').id).toBe('gemini');
+  });
+
+  it('treats anything else as plain Markdown', () => {
+    expect(detectResearchFormat('# Notes\nNothing special here.')).toBe(GENERIC_FORMAT);
+  });
+});
+
+describe('normalizeResearchReport', () => {
+  it('returns a plain report untouched, bold lines and all', () => {
+    const input = '# Market report\n\n**Key takeaway**\n\nGrowth slowed.\n';
+    expect(normalizeResearchReport(input)).toEqual({ markdown: input, format: GENERIC_FORMAT, changes: [] });
+  });
+
+  it('turns bold lines into headings in a report without any', () => {
+    const { markdown, changes } = normalizeResearchReport('**Market report**\n\nIntro.\n\n**Findings**\n\nGrowth slowed.\n');
+    expect(markdown).toBe('# Market report\n\nIntro.\n\n## Findings\n\nGrowth slowed.\n');
+    expect(changes).toEqual(['Turned 2 bold lines into headings']);
+  });
+
+  it('leaves bold lines inside code blocks alone', () => {
+    const input = '**Report**\n\n```\n\n**not a heading**\n\n```\n';
+    expect(normalizeResearchReport(input).markdown).toBe('# Report\n\n```\n\n**not a heading**\n\n```\n');
+  });
+
+  it('converts ChatGPT citations and removes its citation handles with their wrappers', () => {
+    const { markdown, format } = normalizeResearchReport(
+      '# Findings\n\nGrowth slowed.【3†source】 Margins held. \uE200cite\uE202turn0search1\uE202turn1news2\uE201 Costs rose.\n'
+    );
+    expect(format.id).toBe('chatgpt');
+    expect(markdown).toBe('# Findings\n\nGrowth slowed.[3] Margins held. Costs rose.\n');
+  });
+
+  it('moves reasoning out of recognized tool exports', () => {
+    const { markdown, reasoning } = normalizeResearchReport(
+      '# Findings\n\nThought for 2m 13s\n\nGrowth slowed.【1†source】\n\n## Research process\n\nSearched ten sites.\n'
+    );
+    expect(markdown).toBe('# Findings\n\nGrowth slowed.[1]\n');
+    expect(reasoning).toBe('Thought for 2m 13s\n\nSearched ten sites.');
+  });
+
+  it('keeps a research process section in a plain report', () => {
+    const input = '# Study\n\n## Research process\n\nWe interviewed ten people.\n';
+    expect(normalizeResearchReport(input).markdown).toBe(input);
+  });
+
+  it('leaves citation-like text in code alone', () => {
+    const input = 'Growth slowed.【1†source】\n\n```\nconst cite = "【2†x】";\n```\n';
+    expect(normalizeResearchReport(input).markdown).toContain('const cite = "【2†x】";');
+  });
+});
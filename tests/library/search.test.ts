@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SEARCH_TERMS, parseTags, queryTerms, searchTermsFor, tokenize } from '@/lib/library/search';
+
+describe('tokenize', () => {
+  it('lowercases, drops accents, stopwords, single letters and URLs', () => {
+    expect(tokenize('The Café in São Paulo, a report: see https://example.com/x?y=1')).toEqual(['cafe', 'sao', 'paulo', 'report', 'see']);
+  });
+
+  it('keeps words of other scripts whole, vowel signs included', () => {
+    expect(tokenize('हिन्दी रिपोर्ट and Отчёт 2024')).toEqual(['हिन्दी', 'रिपोर्ट', 'отчет', '2024']);
+  });
+});
+
+describe('searchTermsFor', () => {
+  it('lists title words first, each once, up to the limit', () => {
+    expect(searchTermsFor('Market outlook', 'The market grew. Outlook: stable.')).toEqual(['market', 'outlook', 'grew', 'stable']);
+
+    const content = Array.from({ length: MAX_SEARCH_TERMS + 10 }, (_, index) => `word${index}`).join(' ');
+    const terms = searchTermsFor('Title', content);
+    expect(terms).toHaveLength(MAX_SEARCH_TERMS);
+    expect(terms[0]).toBe('title');
+  });
+});
+
+describe('queryTerms', () => {
+  it('puts the longest, most selective word first', () => {
+    expect(queryTerms('ai chips chips semiconductor')).toEqual(['semiconductor', 'chips', 'ai']);
+  });
+});
+
+describe('parseTags', () => {
+  it('normalizes comma-separated tags and drops blanks and repeats', () => {
+    expect(parseTags(' Energy ,  clean   tech,,energy ')).toEqual(['energy', 'clean tech']);
+  });
+});
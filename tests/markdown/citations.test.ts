@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { extractSources, sourceMarker, sourcesForSection } from '@/lib/markdown/citations';
+import { findSections } from '@/lib/markdown/sections';
+
+const sourcesOf = (markdown: string) => extractSources(markdown, findSections(markdown));
+
+describe('extractSources', () => {
+  it('reads a numbered reference list and the sections that cite it', () => {
+    const markdown = [
+      '## Market',
+      'Revenue grew [1, 2].',
+      '## Outlook',
+      'Growth slows [2-3].',
+      '## References',
+      '1. Annual report. https://example.com/annual',
+      '2. Industry survey',
+      '3. [Analyst note](https://example.org/note)',
+    ].join('\n');
+
+    expect(sourcesOf(markdown)).toEqual([
+      { id: 'S1', label: '1', title: 'Annual report', url: 'https://example.com/annual', sectionIndices: [0] },
+      { id: 'S2', label: '2', title: 'Industry survey', sectionIndices: [0, 1] },
+      { id: 'S3', label: '3', title: 'Analyst note', url: 'https://example.org/note', sectionIndices: [1] },
+    ]);
+  });
+
+  it('reads footnotes and lists plain links after numbered sources', () => {
+    const markdown = [
+      '## Market',
+      'See [the filing](https://www.example.com/filing) and the survey.[^1]',
+      '',
+      '[^1]: Industry survey, https://example.net/survey',
+    ].join('\n');
+
+    expect(sourcesOf(markdown)).toEqual([
+      { id: 'S1', label: '1', title: 'Industry survey', url: 'https://example.net/survey', sectionIndices: [0] },
+      { id: 'S2', title: 'the filing', url: 'https://www.example.com/filing', sectionIndices: [0] },
+    ]);
+  });
+
+  it('counts a link cited twice as one source', () => {
+    const markdown = '## A\n[one](https://example.com/x)\n## B\n[again](https://example.com/x)';
+    expect(sourcesOf(markdown)).toMatchObject([{ title: 'one', sectionIndices: [0, 1] }]);
+  });
+});
+
+describe('sourcesForSection', () => {
+  it('keeps the sources a section cites and marks them for display', () => {
+    const sources = sourcesOf('## A\nText [1].\n## B\n[Link](https://example.com)\n## Sources\n[1] A book');
+    expect(sourcesForSection(sources, 0).map(sourceMarker)).toEqual(['[1]']);
+    expect(sourcesForSection(sources, 1).map(sourceMarker)).toEqual(['↗']);
+  });
+});
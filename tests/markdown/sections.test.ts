@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { findDocumentTitle, findSections, restoreSections } from '@/lib/markdown/sections';
+
+const REPORT = [
+  '---',
+  'title: From front matter',
+  '---',
+  '# Market report',
+  '',
+  '## Findings',
+  'The market grew.',
+  '',
+  '> ## Quoted heading',
+  '',
+  '## Empty',
+  '## Outlook',
+  'Growth slows.',
+].join('\n');
+
+describe('findSections', () => {
+  it('starts a section at each top-level heading with text under it', () => {
+    const sections = findSections(REPORT);
+    expect(sections.map(section => section.heading)).toEqual(['Findings', 'Outlook']);
+  });
+
+  it('records 0-based line ranges and keeps quoted headings in the body', () => {
+    const [findings] = findSections(REPORT);
+    expect(findings).toEqual({
+      heading: 'Findings',
+      depth: 2,
+      lineIndex: 5,
+      bodyStartLine: 6,
+      endLine: 10,
+      content: 'The market grew.\n\n> ## Quoted heading',
+    });
+  });
+
+  it('reads setext headings', () => {
+    expect(findSections('Summary\n=======\nShort.')).toMatchObject([{ heading: 'Summary', depth: 1, bodyStartLine: 2 }]);
+  });
+});
+
+describe('findDocumentTitle', () => {
+  it('prefers the front matter title over the first level 1 heading', () => {
+    expect(findDocumentTitle(REPORT)).toBe('From front matter');
+    expect(findDocumentTitle('## Intro\ntext\n# Main\ntext')).toBe('Main');
+    expect(findDocumentTitle('No headings')).toBeNull();
+  });
+});
+
+describe('restoreSections', () => {
+  it('carries custom diagrams over by heading and drops state of removed sections', () => {
+    const customDiagram = { type: 'flowchart' as const, code: 'flowchart TD\n  A --> B' };
+    const saved = findSections('## Findings\nOld text.\n## Removed\nGone.').map(section =>
+      ({ ...section, customDiagram })
+    );
+    const restored = restoreSections('## Intro\nNew.\n## Findings\nNew text.', saved);
+    expect(restored.map(section => section.customDiagram)).toEqual([undefined, customDiagram]);
+    expect(restored[1].content).toBe('New text.');
+  });
+});
@@ -0,0 +1,317 @@
+import { readFileSync } from 'fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+// Runs against the Firestore emulator started by `npm run test:rules`
+
+const OWNER = { uid: 'owner', email: 'owner@example.com' };
+const EDITOR = { uid: 'editor', email: 'editor@example.com' };
+const VIEWER = { uid: 'viewer', email: 'viewer@example.com' };
+const STRANGER = { uid: 'stranger', email: 'stranger@example.com' };
+
+const SHARE_TOKEN = 'abcdefghijklmnopqrstuvwxyz012345';
+
+// Fixed, so a comment written again in a reply compares equal to the stored one
+const COMMENTED_AT = new Date('2026-01-01T00:00:00Z');
+
+let testEnv: RulesTestEnvironment;
+
+const section = {
+  heading: 'Findings',
+  depth: 2,
+  lineIndex: 0,
+  bodyStartLine: 1,
+  endLine: 3,
+  content: 'The market grew.',
+};
+
+const reportData = (overrides: Record<string, unknown> = {}) => ({
+  userId: OWNER.uid,
+  title: 'Market report',
+  content: '## Findings\nThe market grew.\n',
+  animations: [section],
+  searchTerms: ['market', 'report', 'grew'],
+  diagramCount: 1,
+  version: 1,
+  tags: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const sharedReportData = (overrides: Record<string, unknown> = {}) =>
+  reportData({
+    collaborators: { [EDITOR.email]: 'editor', [VIEWER.email]: 'viewer' },
+    collaboratorEmails: [EDITOR.email, VIEWER.email],
+    ...overrides,
+  });
+
+const comment = (authorId: string, body = 'Can we source this?') => ({
+  id: `${authorId}-${body.length}`,
+  authorId,
+  authorName: authorId,
+  body,
+  mentions: [],
+  createdAt: COMMENTED_AT,
+});
+
+const threadData = (authorId: string) => ({
+  anchor: { heading: 'Findings', lineIndex: 0, endLine: 3 },
+  comments: [comment(authorId)],
+  resolved: false,
+  createdBy: authorId,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const firestoreAs = (user: { uid: string; email: string }, emailVerified = true) =>
+  testEnv.authenticatedContext(user.uid, { email: user.email, email_verified: emailVerified }).firestore();
+
+const seed = (path: string, data: Record<string, unknown>) =>
+  testEnv.withSecurityRulesDisabled(async context => {
+    await context.firestore().doc(path).set(data);
+  });
+
+beforeAll(async () => {
+  // Set by firebase emulators:exec; without it the tests would fail on connection errors
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    throw new Error('The rules tests need the Firestore emulator; run them with `npm run test:rules`');
+  }
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-research-visualizer',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+describe('reports', () => {
+  it('lets the owner create, read, update and delete their report', async () => {
+    const db = firestoreAs(OWNER);
+    await assertSucceeds(db.doc('reports/r1').set(reportData()));
+    await assertSucceeds(db.doc('reports/r1').get());
+    await assertSucceeds(db.doc('reports/r1').update({ title: 'Renamed', updatedAt: new Date() }));
+    await assertSucceeds(db.doc('reports/r1').delete());
+  });
+
+  it('rejects reports created for someone else', async () => {
+    await assertFails(firestoreAs(STRANGER).doc('reports/r1').set(reportData()));
+  });
+
+  it('rejects fields the app does not write and malformed section lists', async () => {
+    const db = firestoreAs(OWNER);
+    await assertFails(db.doc('reports/r1').set(reportData({ isAdmin: true })));
+    await assertFails(db.doc('reports/r1').set(reportData({ animations: 'not a list' })));
+    await assertFails(db.doc('reports/r1').set(reportData({ animations: Array(1001).fill(section), diagramCount: 1001 })));
+    await assertFails(db.doc('reports/r1').set(reportData({ diagramCount: 5 })));
+  });
+
+  it('keeps the report from strangers', async () => {
+    await seed('reports/r1', reportData());
+    const db = firestoreAs(STRANGER);
+    await assertFails(db.doc('reports/r1').get());
+    await assertFails(db.doc('reports/r1').update({ title: 'Mine now', updatedAt: new Date() }));
+    await assertFails(db.doc('reports/r1').delete());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('reports/r1').get());
+  });
+
+  it('only lets the owner list their reports by userId', async () => {
+    await seed('reports/r1', reportData());
+    await assertSucceeds(firestoreAs(OWNER).collection('reports').where('userId', '==', OWNER.uid).get());
+    await assertFails(firestoreAs(STRANGER).collection('reports').where('userId', '==', OWNER.uid).get());
+  });
+});
+
+describe('collaborators', () => {
+  beforeEach(async () => {
+    await seed('reports/r1', sharedReportData());
+  });
+
+  it('lets invited people read the report and find it by their email', async () => {
+    await assertSucceeds(firestoreAs(VIEWER).doc('reports/r1').get());
+    await assertSucceeds(
+      firestoreAs(EDITOR).collection('reports').where('collaboratorEmails', 'array-contains', EDITOR.email).get()
+    );
+  });
+
+  it('ignores invitations until the email is verified', async () => {
+    await assertFails(firestoreAs(EDITOR, false).doc('reports/r1').get());
+  });
+
+  it('lets editors save content and record a version', async () => {
+    const db = firestoreAs(EDITOR);
+    const batch = db.batch();
+    batch.update(db.doc('reports/r1'), { content: '## Findings\nThe market grew fast.\n', version: 2, updatedAt: new Date() });
+    batch.set(db.doc('reports/r1/versions/v2'), {
+      version: 2,
+      userId: OWNER.uid,
+      title: 'Market report',
+      content: '## Findings\nThe market grew fast.\n',
+      animations: [section],
+      createdAt: new Date(),
+    });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('keeps ownership, collaborators and library metadata with the owner', async () => {
+    const db = firestoreAs(EDITOR);
+    await assertFails(db.doc('reports/r1').update({ userId: EDITOR.uid }));
+    await assertFails(db.doc('reports/r1').update({ tags: ['mine'] }));
+    await assertFails(
+      db.doc('reports/r1').update({
+        collaborators: { [EDITOR.email]: 'editor' },
+        collaboratorEmails: [EDITOR.email],
+      })
+    );
+    await assertFails(db.doc('reports/r1').delete());
+  });
+
+  it('lets the owner record only their own email for collaborators to mention', async () => {
+    await assertFails(firestoreAs(OWNER).doc('reports/r1').update({ ownerEmail: EDITOR.email }));
+    await assertSucceeds(firestoreAs(OWNER).doc('reports/r1').update({ ownerEmail: OWNER.email }));
+    await assertFails(firestoreAs(EDITOR).doc('reports/r1').update({ ownerEmail: EDITOR.email }));
+    await assertSucceeds(
+      firestoreAs(EDITOR).doc('reports/r1').update({ content: '## Findings\nThe market grew fast.\n', updatedAt: new Date() })
+    );
+  });
+
+  it('does not let viewers change the report', async () => {
+    const db = firestoreAs(VIEWER);
+    await assertFails(db.doc('reports/r1').update({ content: 'Rewritten', updatedAt: new Date() }));
+    await assertFails(db.doc('reports/r1/live/state').set({ title: 't', content: 'c', revision: 1, animations: [] }));
+  });
+
+  it('lets invited people announce only their own presence', async () => {
+    await assertSucceeds(
+      firestoreAs(VIEWER).doc(`reports/r1/presence/${VIEWER.uid}`).set({ name: 'Viewer', sectionIndex: 0, updatedAt: new Date() })
+    );
+    await assertFails(
+      firestoreAs(VIEWER).doc(`reports/r1/presence/${EDITOR.uid}`).set({ name: 'Editor', sectionIndex: 0, updatedAt: new Date() })
+    );
+    await assertFails(
+      firestoreAs(STRANGER).doc(`reports/r1/presence/${STRANGER.uid}`).set({ name: 'Stranger', sectionIndex: 0, updatedAt: new Date() })
+    );
+  });
+
+  it('lets invited people comment and reply as themselves only', async () => {
+    const viewer = firestoreAs(VIEWER);
+    await assertSucceeds(viewer.doc('reports/r1/threads/t1').set(threadData(VIEWER.uid)));
+    await assertFails(viewer.doc('reports/r1/threads/t2').set(threadData(EDITOR.uid)));
+
+    const editor = firestoreAs(EDITOR);
+    await assertSucceeds(
+      editor.doc('reports/r1/threads/t1').update({
+        comments: [comment(VIEWER.uid), comment(EDITOR.uid, 'Added a source.')],
+        updatedAt: new Date(),
+      })
+    );
+    // Replies only add to the end; earlier comments can't be rewritten
+    await assertFails(
+      editor.doc('reports/r1/threads/t1').update({
+        comments: [comment(EDITOR.uid, 'Edited'), comment(EDITOR.uid, 'Added a source.'), comment(EDITOR.uid, 'Again')],
+        updatedAt: new Date(),
+      })
+    );
+  });
+
+  it('keeps threads from strangers', async () => {
+    await seed('reports/r1/threads/t1', threadData(VIEWER.uid));
+    const db = firestoreAs(STRANGER);
+    await assertFails(db.doc('reports/r1/threads/t1').get());
+    await assertFails(db.doc('reports/r1/threads/t2').set(threadData(STRANGER.uid)));
+  });
+});
+
+describe('versions', () => {
+  beforeEach(async () => {
+    await seed('reports/r1', reportData());
+    await seed('reports/r1/versions/v1', {
+      version: 1,
+      userId: OWNER.uid,
+      title: 'Market report',
+      content: '## Findings\nThe market grew.\n',
+      animations: [section],
+      createdAt: new Date(),
+    });
+  });
+
+  it('lets the owner read but never rewrite history', async () => {
+    const db = firestoreAs(OWNER);
+    await assertSucceeds(db.doc('reports/r1/versions/v1').get());
+    await assertFails(db.doc('reports/r1/versions/v1').update({ content: 'Rewritten' }));
+  });
+
+  it('keeps versions from strangers', async () => {
+    const db = firestoreAs(STRANGER);
+    await assertFails(db.doc('reports/r1/versions/v1').get());
+    await assertFails(
+      db.doc('reports/r1/versions/v2').set({ version: 2, userId: OWNER.uid, animations: [], createdAt: new Date() })
+    );
+  });
+});
+
+describe('share links', () => {
+  const shareData = (overrides: Record<string, unknown> = {}) => ({
+    reportId: 'r1',
+    userId: OWNER.uid,
+    title: 'Market report',
+    content: '## Findings\nThe market grew.\n',
+    animations: [section],
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    await seed('reports/r1', reportData());
+  });
+
+  it('lets the owner create a link to their report', async () => {
+    await assertSucceeds(firestoreAs(OWNER).doc(`shares/${SHARE_TOKEN}`).set(shareData()));
+  });
+
+  it('rejects links to other people\'s reports and short tokens', async () => {
+    await assertFails(firestoreAs(STRANGER).doc(`shares/${SHARE_TOKEN}`).set(shareData({ userId: STRANGER.uid })));
+    await assertFails(firestoreAs(OWNER).doc('shares/short').set(shareData()));
+  });
+
+  it('lets anyone with the token open an unexpired link', async () => {
+    await seed(`shares/${SHARE_TOKEN}`, shareData({ expiresAt: new Date(Date.now() + 3600000) }));
+    await assertSucceeds(testEnv.unauthenticatedContext().firestore().doc(`shares/${SHARE_TOKEN}`).get());
+    await assertSucceeds(firestoreAs(STRANGER).doc(`shares/${SHARE_TOKEN}`).get());
+  });
+
+  it('closes expired and revoked links to everyone but the owner', async () => {
+    await seed(`shares/${SHARE_TOKEN}`, shareData({ expiresAt: new Date(Date.now() - 1000) }));
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc(`shares/${SHARE_TOKEN}`).get());
+
+    await seed(`shares/${SHARE_TOKEN}`, { reportId: 'r1', userId: OWNER.uid, createdAt: new Date(), revokedAt: new Date() });
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc(`shares/${SHARE_TOKEN}`).get());
+    await assertFails(firestoreAs(STRANGER).doc(`shares/${SHARE_TOKEN}`).get());
+    await assertSucceeds(firestoreAs(OWNER).doc(`shares/${SHARE_TOKEN}`).get());
+  });
+
+  it('keeps a revoked link from being reopened', async () => {
+    await seed(`shares/${SHARE_TOKEN}`, { reportId: 'r1', userId: OWNER.uid, createdAt: new Date(), revokedAt: new Date() });
+    await assertFails(firestoreAs(OWNER).doc(`shares/${SHARE_TOKEN}`).set({ reportId: 'r1', userId: OWNER.uid, createdAt: new Date() }));
+    await assertFails(firestoreAs(OWNER).doc(`shares/${SHARE_TOKEN}`).update({ revokedAt: new Date(Date.now() + 3600000) }));
+  });
+
+  it('keeps links from being listed or changed by anyone but the owner', async () => {
+    await seed(`shares/${SHARE_TOKEN}`, shareData());
+    await assertFails(firestoreAs(STRANGER).collection('shares').get());
+    await assertFails(firestoreAs(STRANGER).doc(`shares/${SHARE_TOKEN}`).update({ revokedAt: new Date() }));
+    await assertSucceeds(firestoreAs(OWNER).collection('shares').where('userId', '==', OWNER.uid).get());
+    await assertSucceeds(firestoreAs(OWNER).doc(`shares/${SHARE_TOKEN}`).update({ revokedAt: new Date() }));
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { approximateDiagramCode, diffDiagrams, diffLines, hasChanges } from '@/lib/versions/diff';
+import { findSections } from '@/lib/markdown/sections';
+
+describe('diffLines', () => {
+  it('numbers each side and pairs replaced lines as changes', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'same', left: 'a', right: 'a', leftNumber: 1, rightNumber: 1 },
+      { type: 'changed', left: 'b', right: 'B', leftNumber: 2, rightNumber: 2 },
+      { type: 'same', left: 'c', right: 'c', leftNumber: 3, rightNumber: 3 },
+      { type: 'added', left: undefined, right: 'd', leftNumber: undefined, rightNumber: 4 },
+    ]);
+  });
+
+  it('keeps lines that moved past an insertion aligned', () => {
+    const rows = diffLines('one\ntwo\nthree', 'zero\none\ntwo\nthree');
+    expect(rows.map(row => row.type)).toEqual(['added', 'same', 'same', 'same']);
+  });
+
+  it('treats empty text as no lines', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(hasChanges(diffLines('same', 'same'))).toBe(false);
+    expect(hasChanges(diffLines('', 'new'))).toBe(true);
+  });
+});
+
+describe('diffDiagrams', () => {
+  const animations = findSections('## Findings\nThe market grew.\n## Outlook\nGrowth slows.');
+
+  it('compares the stored codes of sections matched by heading', () => {
+    const before = { animations, diagramCodes: ['flowchart TD\n  A --> B', 'pie\n  "x" : 1'] };
+    const after = { animations, diagramCodes: ['flowchart TD\n  A --> C', 'pie\n  "x" : 1'] };
+    expect(diffDiagrams(before, after)).toEqual([
+      { heading: 'Findings', rows: diffLines(before.diagramCodes[0], after.diagramCodes[0]), approximate: false },
+    ]);
+  });
+
+  it('approximates diagrams of older versions and ones that had not rendered', () => {
+    const older = { animations };
+    const unrendered = { animations, diagramCodes: ['', 'pie\n  "x" : 1'] };
+    const changes = diffDiagrams(older, unrendered);
+
+    expect(changes.map(change => [change.heading, change.approximate])).toEqual([['Outlook', true]]);
+    expect(changes[0].rows.some(row => row.left === approximateDiagramCode(animations[1]).split('\n')[0])).toBe(true);
+  });
+});
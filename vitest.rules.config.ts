@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Security rules tests, which need the Firestore emulator; run them with `npm run test:rules`
+export default defineConfig({
+  test: {
+    include: ['tests/rules/**/*.test.ts'],
+    environment: 'node',
+    testTimeout: 20000,
+    // Every test clears the one emulator they share
+    fileParallelism: false,
+  },
+});